@@ -0,0 +1,109 @@
+using LoggerUsage.VSCode.Bridge.Models;
+
+namespace LoggerUsage.VSCode.Bridge;
+
+/// <summary>
+/// Analysis requests queued or running on the bridge, by request id.
+/// Cancelling a request and writing its final response are serialized, so a concurrent cancel
+/// is either reported as the request's final response or acknowledged after its result.
+/// </summary>
+public class ActiveAnalysisRequests
+{
+    private readonly Dictionary<string, CancellationTokenSource> _requests = [];
+    private readonly Lock _lock = new();
+
+    /// <summary>
+    /// Number of requests queued or running
+    /// </summary>
+    public int Count
+    {
+        get
+        {
+            lock (_lock)
+            {
+                return _requests.Count;
+            }
+        }
+    }
+
+    /// <summary>
+    /// Starts tracking a request
+    /// </summary>
+    /// <param name="id">Request id; requests without an id cannot be cancelled</param>
+    /// <returns>The cancellation of the request, disposed once it completes</returns>
+    public CancellationTokenSource Add(string? id)
+    {
+        var cancellation = new CancellationTokenSource();
+        if (id != null)
+        {
+            lock (_lock)
+            {
+                _requests[id] = cancellation;
+            }
+        }
+
+        return cancellation;
+    }
+
+    /// <summary>
+    /// Cancels a queued or running request
+    /// </summary>
+    /// <param name="requestId">Id of the request to cancel</param>
+    /// <returns>The acknowledgement to write immediately, or null when the request acknowledges once it stops</returns>
+    public IBridgeResponse? Cancel(string requestId)
+    {
+        lock (_lock)
+        {
+            if (_requests.TryGetValue(requestId, out var cancellation))
+            {
+                cancellation.Cancel();
+                return null;
+            }
+        }
+
+        // Unknown or already finished - acknowledge right away
+        return new AnalysisCancelledResponse { Id = requestId };
+    }
+
+    /// <summary>
+    /// Cancels every queued or running request
+    /// </summary>
+    public void CancelAll()
+    {
+        lock (_lock)
+        {
+            foreach (var cancellation in _requests.Values)
+            {
+                cancellation.Cancel();
+            }
+        }
+    }
+
+    /// <summary>
+    /// Writes the final response of a finished request and stops tracking it.
+    /// A request cancelled before this point answers <c>cancelled</c> instead of its result.
+    /// </summary>
+    /// <param name="id">Request id</param>
+    /// <param name="cancellation">Cancellation returned by <see cref="Add"/></param>
+    /// <param name="response">Result of the request</param>
+    /// <param name="write">Writes a response to the client</param>
+    public void Complete(string? id, CancellationTokenSource cancellation, IBridgeResponse response, Action<IBridgeResponse> write)
+    {
+        lock (_lock)
+        {
+            if (id != null && cancellation.IsCancellationRequested)
+            {
+                response = new AnalysisCancelledResponse { Id = id };
+            }
+
+            write(response);
+
+            if (id != null)
+            {
+                _requests.Remove(id);
+            }
+        }
+
+        cancellation.Dispose();
+    }
+}
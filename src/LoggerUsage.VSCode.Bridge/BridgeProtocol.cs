@@ -0,0 +1,24 @@
+namespace LoggerUsage.VSCode.Bridge;
+
+/// <summary>
+/// Version and optional features of the stdin/stdout protocol, advertised in the ready response
+/// </summary>
+public static class BridgeProtocol
+{
+    /// <summary>
+    /// Protocol version. Bump when a change breaks existing clients.
+    /// Version 2 introduced correlation ids on every request and response.
+    /// </summary>
+    public const int Version = 2;
+
+    /// <summary>
+    /// Optional commands and request options this bridge supports
+    /// </summary>
+    public static readonly string[] Capabilities =
+    [
+        "cancel",
+        "streamResults",
+        "analyzeFiles",
+        "stats"
+    ];
+}
@@ -30,15 +30,20 @@ public class LoggerUsageMapper
         {
             Id = id,
             MethodType = MapMethodType(usage.MethodType),
+            MethodName = usage.MethodName,
             MessageTemplate = usage.MessageTemplate ?? string.Empty,
             LogLevel = usage.LogLevel?.ToString(),
             EventId = MapEventId(usage.EventId),
             Parameters = [.. usage.MessageParameters.Select(p => p.Name)],
+            ParameterTypes = [.. usage.MessageParameters.Select(p => p.Type)],
             Location = location,
             Tags = [], // Tags will be populated from other sources if needed
             DataClassifications = dataClassifications,
             HasInconsistencies = inconsistencies.Count > 0,
-            Inconsistencies = inconsistencies.Count > 0 ? inconsistencies : null
+            Inconsistencies = inconsistencies.Count > 0 ? inconsistencies : null,
+            Invocations = usage is LoggerMessageUsageInfo loggerMessageUsage
+                ? [.. loggerMessageUsage.Invocations.Select(MapInvocation)]
+                : null
         };
     }
 
@@ -65,6 +70,18 @@ public class LoggerUsageMapper
         };
     }
 
+    /// <summary>
+    /// Map LoggerMessage method invocation to DTO
+    /// </summary>
+    private static InvocationDto MapInvocation(LoggerMessageInvocation invocation)
+    {
+        return new InvocationDto
+        {
+            ContainingType = invocation.ContainingType,
+            Location = MapLocation(invocation.InvocationLocation)
+        };
+    }
+
     /// <summary>
     /// Map EventId to DTO
     /// </summary>
@@ -19,6 +19,12 @@ public record LoggingInsightDto
     [JsonPropertyName("methodType")]
     public required string MethodType { get; init; }
 
+    /// <summary>
+    /// Name of the logging method called, or of the declared [LoggerMessage] method
+    /// </summary>
+    [JsonPropertyName("methodName")]
+    public string? MethodName { get; init; }
+
     /// <summary>
     /// Message template string
     /// </summary>
@@ -43,6 +49,12 @@ public record LoggingInsightDto
     [JsonPropertyName("parameters")]
     public required List<string> Parameters { get; init; }
 
+    /// <summary>
+    /// Parameter types (null if unknown), in the order of Parameters
+    /// </summary>
+    [JsonPropertyName("parameterTypes")]
+    public List<string?>? ParameterTypes { get; init; }
+
     /// <summary>
     /// File location
     /// </summary>
@@ -72,6 +84,12 @@ public record LoggingInsightDto
     /// </summary>
     [JsonPropertyName("inconsistencies")]
     public List<ParameterInconsistencyDto>? Inconsistencies { get; init; }
+
+    /// <summary>
+    /// Call sites of a [LoggerMessage] method; null for other method types
+    /// </summary>
+    [JsonPropertyName("invocations")]
+    public List<InvocationDto>? Invocations { get; init; }
 }
 
 /// <summary>
@@ -107,6 +125,18 @@ public record LocationDto
     public required int EndColumn { get; init; }
 }
 
+/// <summary>
+/// Call site of a [LoggerMessage] method
+/// </summary>
+public record InvocationDto
+{
+    [JsonPropertyName("containingType")]
+    public required string ContainingType { get; init; }
+
+    [JsonPropertyName("location")]
+    public required LocationDto Location { get; init; }
+}
+
 /// <summary>
 /// Data classification (sensitive data detection)
 /// </summary>
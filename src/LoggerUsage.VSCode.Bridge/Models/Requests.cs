@@ -9,10 +9,18 @@ namespace LoggerUsage.VSCode.Bridge.Models;
 [JsonDerivedType(typeof(PingRequest), "ping")]
 [JsonDerivedType(typeof(AnalysisRequest), "analyze")]
 [JsonDerivedType(typeof(IncrementalAnalysisRequest), "analyzeFile")]
+[JsonDerivedType(typeof(BatchAnalysisRequest), "analyzeFiles")]
 [JsonDerivedType(typeof(ShutdownRequest), "shutdown")]
+[JsonDerivedType(typeof(CancelRequest), "cancel")]
+[JsonDerivedType(typeof(StatsRequest), "stats")]
 public interface IBridgeRequest
 {
     // Note: 'command' is automatically added by JsonPolymorphic as the discriminator
+
+    /// <summary>
+    /// Correlation id, echoed back on every response produced for this request
+    /// </summary>
+    string? Id { get; }
 }
 
 /// <summary>
@@ -20,6 +28,14 @@ public interface IBridgeRequest
 /// </summary>
 public record PingRequest : IBridgeRequest
 {
+    [JsonPropertyName("id")]
+    public string? Id { get; init; }
+
+    /// <summary>
+    /// Protocol version the client speaks (absent for heartbeats and old clients)
+    /// </summary>
+    [JsonPropertyName("protocolVersion")]
+    public int? ProtocolVersion { get; init; }
 }
 
 /// <summary>
@@ -27,6 +43,9 @@ public record PingRequest : IBridgeRequest
 /// </summary>
 public record AnalysisRequest : IBridgeRequest
 {
+    [JsonPropertyName("id")]
+    public string? Id { get; init; }
+
     [JsonPropertyName("workspacePath")]
     public required string WorkspacePath { get; init; }
 
@@ -35,6 +54,12 @@ public record AnalysisRequest : IBridgeRequest
 
     [JsonPropertyName("excludePatterns")]
     public string[]? ExcludePatterns { get; init; }
+
+    /// <summary>
+    /// Send insights as a partial result per project instead of in the final response
+    /// </summary>
+    [JsonPropertyName("streamResults")]
+    public bool StreamResults { get; init; }
 }
 
 /// <summary>
@@ -42,6 +67,9 @@ public record AnalysisRequest : IBridgeRequest
 /// </summary>
 public record IncrementalAnalysisRequest : IBridgeRequest
 {
+    [JsonPropertyName("id")]
+    public string? Id { get; init; }
+
     [JsonPropertyName("filePath")]
     public required string FilePath { get; init; }
 
@@ -49,9 +77,56 @@ public record IncrementalAnalysisRequest : IBridgeRequest
     public required string SolutionPath { get; init; }
 }
 
+/// <summary>
+/// Request to re-analyze several changed files at once (incremental)
+/// </summary>
+public record BatchAnalysisRequest : IBridgeRequest
+{
+    [JsonPropertyName("id")]
+    public string? Id { get; init; }
+
+    [JsonPropertyName("filePaths")]
+    public required string[] FilePaths { get; init; }
+
+    /// <summary>
+    /// Files deleted since the last analysis; reported back with no insights
+    /// </summary>
+    [JsonPropertyName("deletedFilePaths")]
+    public string[]? DeletedFilePaths { get; init; }
+
+    [JsonPropertyName("solutionPath")]
+    public required string SolutionPath { get; init; }
+}
+
 /// <summary>
 /// Request to gracefully shutdown the bridge process
 /// </summary>
 public record ShutdownRequest : IBridgeRequest
 {
+    [JsonPropertyName("id")]
+    public string? Id { get; init; }
+}
+
+/// <summary>
+/// Request to cancel a queued or running analysis request
+/// </summary>
+public record CancelRequest : IBridgeRequest
+{
+    [JsonPropertyName("id")]
+    public string? Id { get; init; }
+
+    /// <summary>
+    /// Id of the analysis request to cancel
+    /// </summary>
+    [JsonPropertyName("requestId")]
+    public required string RequestId { get; init; }
+}
+
+/// <summary>
+/// Request for process statistics (uptime, memory), used for health monitoring
+/// </summary>
+public record StatsRequest : IBridgeRequest
+{
+    [JsonPropertyName("id")]
+    public string? Id { get; init; }
 }
@@ -10,9 +10,17 @@ namespace LoggerUsage.VSCode.Bridge.Models;
 [JsonDerivedType(typeof(AnalysisSuccessResponse), "success")]
 [JsonDerivedType(typeof(AnalysisErrorResponse), "error")]
 [JsonDerivedType(typeof(AnalysisProgress), "progress")]
+[JsonDerivedType(typeof(AnalysisCancelledResponse), "cancelled")]
+[JsonDerivedType(typeof(AnalysisPartialResult), "partialResult")]
+[JsonDerivedType(typeof(BridgeStatsResponse), "stats")]
 public interface IBridgeResponse
 {
     // Note: 'status' is automatically added by JsonPolymorphic as the discriminator
+
+    /// <summary>
+    /// Id of the request this response belongs to (null when the request could not be parsed)
+    /// </summary>
+    string? Id { get; }
 }
 
 /// <summary>
@@ -20,8 +28,23 @@ public interface IBridgeResponse
 /// </summary>
 public record ReadyResponse : IBridgeResponse
 {
+    [JsonPropertyName("id")]
+    public string? Id { get; init; }
+
     [JsonPropertyName("version")]
     public required string Version { get; init; }
+
+    /// <summary>
+    /// Protocol version spoken by the bridge, see <see cref="BridgeProtocol.Version"/>
+    /// </summary>
+    [JsonPropertyName("protocolVersion")]
+    public required int ProtocolVersion { get; init; }
+
+    /// <summary>
+    /// Optional features supported by the bridge, see <see cref="BridgeProtocol.Capabilities"/>
+    /// </summary>
+    [JsonPropertyName("capabilities")]
+    public required string[] Capabilities { get; init; }
 }
 
 /// <summary>
@@ -29,6 +52,9 @@ public record ReadyResponse : IBridgeResponse
 /// </summary>
 public record AnalysisProgress : IBridgeResponse
 {
+    [JsonPropertyName("id")]
+    public string? Id { get; init; }
+
     [JsonPropertyName("percentage")]
     public required int Percentage { get; init; }
 
@@ -39,11 +65,41 @@ public record AnalysisProgress : IBridgeResponse
     public string? CurrentFile { get; init; }
 }
 
+/// <summary>
+/// Insights of one analyzed project, sent while a streaming workspace analysis is still running
+/// </summary>
+public record AnalysisPartialResult : IBridgeResponse
+{
+    [JsonPropertyName("id")]
+    public string? Id { get; init; }
+
+    [JsonPropertyName("projectName")]
+    public required string ProjectName { get; init; }
+
+    [JsonPropertyName("insights")]
+    public required List<LoggingInsightDto> Insights { get; init; }
+
+    /// <summary>
+    /// Every source file of the project, including files without logging calls
+    /// </summary>
+    [JsonPropertyName("analyzedFiles")]
+    public required List<string> AnalyzedFiles { get; init; }
+
+    [JsonPropertyName("projectsCompleted")]
+    public required int ProjectsCompleted { get; init; }
+
+    [JsonPropertyName("totalProjects")]
+    public required int TotalProjects { get; init; }
+}
+
 /// <summary>
 /// Successful analysis result
 /// </summary>
 public record AnalysisSuccessResponse : IBridgeResponse
 {
+    [JsonPropertyName("id")]
+    public string? Id { get; init; }
+
     [JsonPropertyName("result")]
     public required AnalysisResult Result { get; init; }
 }
@@ -56,6 +112,13 @@ public record AnalysisResult
     [JsonPropertyName("insights")]
     public required List<LoggingInsightDto> Insights { get; init; }
 
+    /// <summary>
+    /// Insights grouped per requested file (batch file analysis only); files without insights map to an empty list
+    /// </summary>
+    [JsonPropertyName("files")]
+    [JsonIgnore(Condition = JsonIgnoreCondition.WhenWritingNull)]
+    public Dictionary<string, List<LoggingInsightDto>>? Files { get; init; }
+
     [JsonPropertyName("summary")]
     public required AnalysisSummaryDto Summary { get; init; }
 }
@@ -65,6 +128,9 @@ public record AnalysisResult
 /// </summary>
 public record AnalysisErrorResponse : IBridgeResponse
 {
+    [JsonPropertyName("id")]
+    public string? Id { get; init; }
+
     [JsonPropertyName("message")]
     public required string Message { get; init; }
 
@@ -74,3 +140,48 @@ public record AnalysisErrorResponse : IBridgeResponse
     [JsonPropertyName("errorCode")]
     public string? ErrorCode { get; init; }
 }
+
+/// <summary>
+/// Acknowledges a cancel request. Always the last message written for the cancelled request.
+/// </summary>
+public record AnalysisCancelledResponse : IBridgeResponse
+{
+    /// <summary>
+    /// Id of the cancelled analysis request
+    /// </summary>
+    [JsonPropertyName("id")]
+    public required string Id { get; init; }
+}
+
+/// <summary>
+/// Process statistics of the bridge, answered immediately even while analyses run
+/// </summary>
+public record BridgeStatsResponse : IBridgeResponse
+{
+    [JsonPropertyName("id")]
+    public string? Id { get; init; }
+
+    [JsonPropertyName("processId")]
+    public required int ProcessId { get; init; }
+
+    [JsonPropertyName("uptimeMs")]
+    public required long UptimeMs { get; init; }
+
+    /// <summary>
+    /// Physical memory used by the process
+    /// </summary>
+    [JsonPropertyName("workingSetBytes")]
+    public required long WorkingSetBytes { get; init; }
+
+    /// <summary>
+    /// Memory currently allocated on the managed heap
+    /// </summary>
+    [JsonPropertyName("managedHeapBytes")]
+    public required long ManagedHeapBytes { get; init; }
+
+    /// <summary>
+    /// Analysis requests queued or running
+    /// </summary>
+    [JsonPropertyName("activeRequests")]
+    public required int ActiveRequests { get; init; }
+}
@@ -1,9 +1,15 @@
+using System.Diagnostics;
+using System.IO.Pipes;
 using System.Text.Json;
+using System.Threading.Channels;
 using LoggerUsage.VSCode.Bridge;
 using LoggerUsage.VSCode.Bridge.Models;
 using Microsoft.Extensions.DependencyInjection;
 using Microsoft.Extensions.Logging;
 
+// Process uptime, reported by stats requests
+var uptime = Stopwatch.StartNew();
+
 // Setup dependency injection
 var services = new ServiceCollection();
 
@@ -32,6 +38,26 @@ var jsonOptions = new JsonSerializerOptions
     WriteIndented = false
 };
 
+// Transport: stdin/stdout by default. With --pipe <name> the bridge serves one client at a time
+// on a named pipe (a Unix domain socket on Linux/macOS), so the extension can attach to a bridge
+// started separately, e.g. under a debugger.
+var pipeName = args is ["--pipe", var pipeArgument] ? pipeArgument : null;
+NamedPipeServerStream? pipe = null;
+if (pipeName != null)
+{
+    await AcceptClientAsync(pipeName);
+}
+
+// Analysis requests run on background workers so the main loop keeps reading stdin and
+// can react to cancel commands. Workspace and file analyses have a worker each, so a
+// file analysis does not wait behind a long workspace analysis.
+var workspaceQueue = Channel.CreateUnbounded<(IBridgeRequest Request, CancellationTokenSource Cancellation)>();
+var fileQueue = Channel.CreateUnbounded<(IBridgeRequest Request, CancellationTokenSource Cancellation)>();
+var activeRequests = new ActiveAnalysisRequests();
+var analysisWorkers = Task.WhenAll(
+    Task.Run(() => ProcessAnalysisQueueAsync(workspaceQueue.Reader)),
+    Task.Run(() => ProcessAnalysisQueueAsync(fileQueue.Reader)));
+
 // Main loop - read commands from stdin, write responses to stdout
 while (true)
 {
@@ -40,6 +66,19 @@ while (true)
         // Read line from stdin
         var line = await Console.In.ReadLineAsync();
 
+        if (line == null)
+        {
+            // The client went away: a stdio bridge exits, a pipe bridge waits for the next client
+            if (pipeName == null)
+            {
+                break;
+            }
+
+            activeRequests.CancelAll();
+            await AcceptClientAsync(pipeName);
+            continue;
+        }
+
         if (string.IsNullOrWhiteSpace(line))
         {
             continue;
@@ -78,36 +117,42 @@ while (true)
             continue;
         }
 
-        // Route the command
-        IBridgeResponse response = request switch
+        // Handle shutdown
+        if (request is ShutdownRequest)
         {
-            PingRequest => new ReadyResponse
-            {
-                Version = "1.0.0"
-            },
+            break;
+        }
 
-            AnalysisRequest analysisRequest => await analyzer.AnalyzeWorkspaceAsync(
-                analysisRequest,
-                CancellationToken.None),
+        // Analysis requests are queued for their background worker
+        if (request is AnalysisRequest or IncrementalAnalysisRequest or BatchAnalysisRequest)
+        {
+            var cancellation = activeRequests.Add(request.Id);
+            var queue = request is AnalysisRequest ? workspaceQueue : fileQueue;
+            await queue.Writer.WriteAsync((request, cancellation));
+            continue;
+        }
 
-            IncrementalAnalysisRequest incrementalRequest => await analyzer.AnalyzeFileAsync(
-                incrementalRequest,
-                CancellationToken.None),
+        // Route the command
+        IBridgeResponse? response = request switch
+        {
+            PingRequest pingRequest => Ready(pingRequest),
+
+            CancelRequest cancelRequest => activeRequests.Cancel(cancelRequest.RequestId),
 
-            ShutdownRequest => null!, // Signal to exit
+            StatsRequest => GetStats(request.Id),
 
             _ => new AnalysisErrorResponse
             {
+                Id = request.Id,
                 Message = "Unknown command",
                 Details = $"Command type not recognized: {line}",
                 ErrorCode = "UNKNOWN_COMMAND"
             }
         };
 
-        // Handle shutdown
-        if (request is ShutdownRequest)
+        if (response == null)
         {
-            break;
+            continue;
         }
 
         // Write response to stdout
@@ -127,6 +172,110 @@ while (true)
     }
 }
 
+// Stop any in-flight analysis before exiting
+workspaceQueue.Writer.TryComplete();
+fileQueue.Writer.TryComplete();
+activeRequests.CancelAll();
+
+await analysisWorkers;
+pipe?.Dispose();
+
+// Waits for a client on the named pipe and redirects the console to it
+async Task AcceptClientAsync(string name)
+{
+    pipe?.Dispose();
+    pipe = new NamedPipeServerStream(name, PipeDirection.InOut, 1, PipeTransmissionMode.Byte, PipeOptions.Asynchronous);
+
+    Console.Error.WriteLine($"Waiting for a client on pipe '{name}'");
+    await pipe.WaitForConnectionAsync();
+    Console.Error.WriteLine("Client connected");
+
+    Console.SetIn(new StreamReader(pipe));
+    Console.SetOut(new StreamWriter(pipe) { AutoFlush = true });
+}
+
+// Runs queued analysis requests sequentially, writing their final response
+async Task ProcessAnalysisQueueAsync(ChannelReader<(IBridgeRequest Request, CancellationTokenSource Cancellation)> reader)
+{
+    await foreach (var (request, cancellation) in reader.ReadAllAsync())
+    {
+        var id = request.Id;
+        IBridgeResponse response;
+        try
+        {
+            response = request switch
+            {
+                AnalysisRequest analysisRequest => await analyzer.AnalyzeWorkspaceAsync(
+                    analysisRequest,
+                    cancellation.Token),
+
+                IncrementalAnalysisRequest incrementalRequest => await analyzer.AnalyzeFileAsync(
+                    incrementalRequest,
+                    cancellation.Token),
+
+                BatchAnalysisRequest batchRequest => await analyzer.AnalyzeFilesAsync(
+                    batchRequest,
+                    cancellation.Token),
+
+                _ => throw new InvalidOperationException($"Unsupported queued request: {request.GetType().Name}")
+            };
+        }
+        catch (Exception ex)
+        {
+            response = new AnalysisErrorResponse
+            {
+                Message = "Internal error",
+                Details = $"Unexpected error during command processing: {ex.Message}\n{ex.StackTrace}",
+                ErrorCode = "INTERNAL_ERROR"
+            };
+        }
+
+        // A concurrent cancel is either reported here or acknowledged after this result
+        activeRequests.Complete(id, cancellation, WithRequestId(response, id), WriteResponse);
+    }
+}
+
+// Answers the handshake with the protocol version and capabilities of this bridge
+ReadyResponse Ready(PingRequest ping)
+{
+    if (ping.ProtocolVersion is { } clientVersion && clientVersion != BridgeProtocol.Version)
+    {
+        Console.Error.WriteLine($"Client speaks protocol version {clientVersion}, bridge speaks {BridgeProtocol.Version}");
+    }
+
+    return new ReadyResponse
+    {
+        Id = ping.Id,
+        Version = "1.0.0",
+        ProtocolVersion = BridgeProtocol.Version,
+        Capabilities = BridgeProtocol.Capabilities
+    };
+}
+
+// Reports process statistics for health monitoring
+BridgeStatsResponse GetStats(string? id)
+{
+    using var process = Process.GetCurrentProcess();
+
+    return new BridgeStatsResponse
+    {
+        Id = id,
+        ProcessId = Environment.ProcessId,
+        UptimeMs = uptime.ElapsedMilliseconds,
+        WorkingSetBytes = process.WorkingSet64,
+        ManagedHeapBytes = GC.GetTotalMemory(forceFullCollection: false),
+        ActiveRequests = activeRequests.Count
+    };
+}
+
+// Tags a final analysis response with the id of the request it answers
+IBridgeResponse WithRequestId(IBridgeResponse response, string? id) => response switch
+{
+    AnalysisSuccessResponse success => success with { Id = id },
+    AnalysisErrorResponse error => error with { Id = id },
+    _ => response
+};
+
 // Helper method to write response as JSON to stdout
 void WriteResponse(IBridgeResponse response)
 {
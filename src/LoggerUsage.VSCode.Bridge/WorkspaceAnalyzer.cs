@@ -10,6 +10,11 @@ namespace LoggerUsage.VSCode.Bridge;
 /// </summary>
 public class WorkspaceAnalyzer
 {
+    private static readonly JsonSerializerOptions JsonOptions = new()
+    {
+        PropertyNamingPolicy = JsonNamingPolicy.CamelCase
+    };
+
     private readonly IWorkspaceFactory _workspaceFactory;
     private readonly LoggerUsageExtractor _loggerUsageExtractor;
 
@@ -73,7 +78,7 @@ public class WorkspaceAnalyzer
             }
 
             // Report initial progress
-            ReportProgress(0, "Loading solution...", null);
+            ReportProgress(request.Id, 0, "Loading solution...", null);
 
             // Load the workspace
             Workspace? workspace = null;
@@ -158,16 +163,58 @@ public class WorkspaceAnalyzer
                 };
             }
 
-            ReportProgress(10, $"Analyzing {totalProjects} projects...", null);
+            ReportProgress(request.Id, 10, $"Analyzing {totalProjects} projects...", null);
 
-            // Create progress handler for VS Code
-            var progress = new Progress<LoggerUsage.Models.LoggerUsageProgress>(p =>
+            // Analyze project by project so results can be streamed as each project completes
+            var usages = new List<LoggerUsage.Models.LoggerUsageInfo>();
+            var streamedInsights = new List<LoggingInsightDto>();
+            for (var projectIndex = 0; projectIndex < totalProjects; projectIndex++)
             {
-                ReportProgress(p.PercentComplete, p.OperationDescription, p.CurrentFilePath);
-            });
+                cancellationToken.ThrowIfCancellationRequested();
+
+                var project = projects[projectIndex];
+                var compilation = await project.GetCompilationAsync(cancellationToken);
+                if (compilation == null)
+                {
+                    continue;
+                }
+
+                // Map per-project progress onto the 10-90% range of the whole analysis
+                var completedProjects = projectIndex;
+                var progress = new Progress<LoggerUsage.Models.LoggerUsageProgress>(p =>
+                {
+                    var percentage = 10 + (int)(80 * (completedProjects + p.PercentComplete / 100.0) / totalProjects);
+                    ReportProgress(request.Id, percentage, $"[{project.Name}] {p.OperationDescription}", p.CurrentFilePath);
+                });
+
+                var projectResult = await _loggerUsageExtractor.ExtractLoggerUsagesWithSolutionAsync(
+                    compilation,
+                    workspace.CurrentSolution,
+                    progress,
+                    cancellationToken);
+
+                usages.AddRange(projectResult.Results);
+
+                if (request.StreamResults)
+                {
+                    var projectInsights = projectResult.Results
+                        .Select(LoggerUsageMapper.ToDto)
+                        .ToList();
+                    streamedInsights.AddRange(projectInsights);
 
-            // Run the analysis with progress reporting
-            var extractionResult = await _loggerUsageExtractor.ExtractLoggerUsagesAsync(workspace, progress, cancellationToken);
+                    WriteMessage(new AnalysisPartialResult
+                    {
+                        Id = request.Id,
+                        ProjectName = project.Name,
+                        Insights = projectInsights,
+                        AnalyzedFiles = [.. project.Documents
+                            .Select(d => d.FilePath)
+                            .OfType<string>()],
+                        ProjectsCompleted = projectIndex + 1,
+                        TotalProjects = totalProjects
+                    });
+                }
+            }
 
             cancellationToken.ThrowIfCancellationRequested();
 
@@ -197,6 +244,7 @@ public class WorkspaceAnalyzer
                             foreach (var diagnostic in missingTypeErrors.Take(3))
                             {
                                 ReportProgress(
+                                    request.Id,
                                     50,
                                     $"Missing dependency: {diagnostic.GetMessage()}",
                                     diagnostic.Location.SourceTree?.FilePath
@@ -208,6 +256,7 @@ public class WorkspaceAnalyzer
                         foreach (var diagnostic in diagnostics.Take(5)) // Limit to first 5 per project
                         {
                             ReportProgress(
+                                request.Id,
                                 50,
                                 $"Compilation {diagnostic.Severity}: {diagnostic.GetMessage()}",
                                 diagnostic.Location.SourceTree?.FilePath
@@ -228,15 +277,15 @@ public class WorkspaceAnalyzer
                 };
             }
 
-            ReportProgress(90, "Generating insights...", null);
+            ReportProgress(request.Id, 90, "Generating insights...", null);
 
-            // Map results to DTOs
-            var insights = extractionResult.Results
-                .Select(LoggerUsageMapper.ToDto)
-                .ToList();
+            // Map results to DTOs (already done per project when streaming)
+            var insights = request.StreamResults
+                ? streamedInsights
+                : usages.Select(LoggerUsageMapper.ToDto).ToList();
 
             // Count files analyzed
-            var filesAnalyzed = extractionResult.Results
+            var filesAnalyzed = usages
                 .Select(r => r.Location.FilePath)
                 .Distinct()
                 .Count();
@@ -246,13 +295,14 @@ public class WorkspaceAnalyzer
             // Generate summary
             var summary = GenerateSummary(insights, filesAnalyzed, stopwatch.Elapsed, warningsCount);
 
-            ReportProgress(100, "Analysis complete", null);
+            ReportProgress(request.Id, 100, "Analysis complete", null);
 
             return new AnalysisSuccessResponse
             {
                 Result = new AnalysisResult
                 {
-                    Insights = insights,
+                    // Streamed insights were already sent as partial results
+                    Insights = request.StreamResults ? [] : insights,
                     Summary = summary
                 }
             };
@@ -291,104 +341,20 @@ public class WorkspaceAnalyzer
 
         try
         {
-            // Load solution
-            FileInfo? fileToLoad;
-            try
-            {
-                fileToLoad = !string.IsNullOrWhiteSpace(request.SolutionPath)
-                    ? new FileInfo(request.SolutionPath)
-                    : FindSolutionOrProject(Path.GetDirectoryName(request.FilePath)!);
-            }
-            catch (UnauthorizedAccessException ex)
-            {
-                return new AnalysisErrorResponse
-                {
-                    Message = "Access denied to workspace directory",
-                    Details = $"You don't have permission to access the directory containing: {request.FilePath}\n{ex.Message}",
-                    ErrorCode = "FILE_SYSTEM_ERROR"
-                };
-            }
-            catch (IOException ex)
-            {
-                return new AnalysisErrorResponse
-                {
-                    Message = "File system error accessing workspace",
-                    Details = $"I/O error accessing directory containing: {request.FilePath}\n{ex.Message}",
-                    ErrorCode = "FILE_SYSTEM_ERROR"
-                };
-            }
-
-            if (fileToLoad == null || !fileToLoad.Exists)
+            var (workspace, loadError) = await LoadWorkspaceForFileAsync(request.Id, request.SolutionPath, request.FilePath);
+            if (workspace == null)
             {
-                return new AnalysisErrorResponse
-                {
-                    Message = "No solution found for file",
-                    Details = $"Could not find solution for file: {request.FilePath}",
-                    ErrorCode = "NO_SOLUTION"
-                };
-            }
-
-            ReportProgress(0, "Loading solution...", null);
-
-            Workspace? workspace = null;
-            try
-            {
-                workspace = await _workspaceFactory.Create(fileToLoad);
-            }
-            catch (InvalidOperationException ex)
-            {
-                return new AnalysisErrorResponse
-                {
-                    Message = "The solution file is invalid or corrupted",
-                    Details = ex.Message,
-                    ErrorCode = "INVALID_SOLUTION"
-                };
-            }
-            catch (FileNotFoundException ex)
-            {
-                return new AnalysisErrorResponse
-                {
-                    Message = "Solution or project file not found",
-                    Details = ex.Message,
-                    ErrorCode = "FILE_NOT_FOUND"
-                };
-            }
-            catch (UnauthorizedAccessException ex)
-            {
-                return new AnalysisErrorResponse
-                {
-                    Message = "Access denied to solution or project file",
-                    Details = $"You don't have permission to access: {fileToLoad.FullName}\n{ex.Message}",
-                    ErrorCode = "FILE_SYSTEM_ERROR"
-                };
-            }
-            catch (IOException ex)
-            {
-                return new AnalysisErrorResponse
-                {
-                    Message = "File system error loading solution",
-                    Details = $"I/O error loading: {fileToLoad.FullName}\n{ex.Message}",
-                    ErrorCode = "FILE_SYSTEM_ERROR"
-                };
-            }
-            catch (Exception ex)
-            {
-                return new AnalysisErrorResponse
-                {
-                    Message = "Failed to load solution",
-                    Details = $"Error loading {fileToLoad.FullName}: {ex.Message}",
-                    ErrorCode = "SOLUTION_LOAD_ERROR"
-                };
+                return loadError!;
             }
 
             cancellationToken.ThrowIfCancellationRequested();
 
-            ReportProgress(30, "Analyzing file...", request.FilePath);
+            ReportProgress(request.Id, 30, "Analyzing file...", request.FilePath);
 
             // Create progress handler for VS Code
             var progress = new Progress<LoggerUsage.Models.LoggerUsageProgress>(p =>
             {
-                ReportProgress(p.PercentComplete, p.OperationDescription, p.CurrentFilePath ?? request.FilePath);
+                ReportProgress(request.Id, p.PercentComplete, p.OperationDescription, p.CurrentFilePath ?? request.FilePath);
             });
 
             // Find the document in the solution
@@ -437,7 +403,7 @@ public class WorkspaceAnalyzer
 
             var summary = GenerateSummary(fileInsights, 1, stopwatch.Elapsed);
 
-            ReportProgress(100, "File analysis complete", request.FilePath);
+            ReportProgress(request.Id, 100, "File analysis complete", request.FilePath);
 
             return new AnalysisSuccessResponse
             {
@@ -469,21 +435,261 @@ public class WorkspaceAnalyzer
     }
 
     /// <summary>
-    /// Reports progress by writing JSON progress message to stdout
+    /// Analyzes a batch of changed and deleted files, compiling each affected project once
     /// </summary>
-    private void ReportProgress(int percentage, string message, string? currentFile)
+    /// <param name="request">Batch analysis request</param>
+    /// <param name="cancellationToken">Cancellation token</param>
+    /// <returns>Analysis success response with insights grouped per file, or error response</returns>
+    public async Task<IBridgeResponse> AnalyzeFilesAsync(
+        BatchAnalysisRequest request,
+        CancellationToken cancellationToken = default)
     {
-        var progress = new AnalysisProgress
+        var stopwatch = Stopwatch.StartNew();
+        var deletedFilePaths = request.DeletedFilePaths ?? [];
+
+        try
         {
+            var firstFile = request.FilePaths.Concat(deletedFilePaths).FirstOrDefault();
+            if (firstFile == null)
+            {
+                return new AnalysisErrorResponse
+                {
+                    Message = "No files to analyze",
+                    Details = "The batch analysis request contains no file paths",
+                    ErrorCode = "INVALID_REQUEST"
+                };
+            }
+
+            var (workspace, loadError) = await LoadWorkspaceForFileAsync(request.Id, request.SolutionPath, firstFile);
+            if (workspace == null)
+            {
+                return loadError!;
+            }
+
+            cancellationToken.ThrowIfCancellationRequested();
+
+            // Deleted files have no insights; drop them from the solution in case the project still lists them
+            var solution = workspace.CurrentSolution;
+            foreach (var deletedPath in deletedFilePaths)
+            {
+                foreach (var documentId in solution.GetDocumentIdsWithFilePath(deletedPath))
+                {
+                    solution = solution.RemoveDocument(documentId);
+                }
+            }
+
+            var files = new Dictionary<string, List<LoggingInsightDto>>(StringComparer.OrdinalIgnoreCase);
+            foreach (var path in request.FilePaths.Concat(deletedFilePaths))
+            {
+                files[path] = [];
+            }
+
+            // Files that are not part of the solution keep an empty group
+            var documentsByProject = solution.Projects
+                .SelectMany(p => p.Documents)
+                .Where(d => d.FilePath != null && request.FilePaths.Contains(d.FilePath, StringComparer.OrdinalIgnoreCase))
+                .GroupBy(d => d.Project.Id)
+                .ToList();
+
+            for (var i = 0; i < documentsByProject.Count; i++)
+            {
+                cancellationToken.ThrowIfCancellationRequested();
+
+                var project = solution.GetProject(documentsByProject[i].Key)!;
+                var projectFiles = documentsByProject[i].Select(d => d.FilePath!).ToHashSet(StringComparer.OrdinalIgnoreCase);
+                var projectIndex = i;
+
+                ReportProgress(request.Id, 10 + 80 * i / documentsByProject.Count, $"Analyzing {projectFiles.Count} file(s) in {project.Name}...", null);
+
+                var compilation = await project.GetCompilationAsync(cancellationToken);
+                if (compilation == null)
+                {
+                    return new AnalysisErrorResponse
+                    {
+                        Message = "Failed to compile project",
+                        Details = $"Could not get compilation for project {project.Name}",
+                        ErrorCode = "COMPILATION_ERROR"
+                    };
+                }
+
+                var progress = new Progress<LoggerUsage.Models.LoggerUsageProgress>(p =>
+                {
+                    var overall = 10 + (int)(80 * (projectIndex + p.PercentComplete / 100.0) / documentsByProject.Count);
+                    ReportProgress(request.Id, overall, $"[{project.Name}] {p.OperationDescription}", p.CurrentFilePath);
+                });
+
+                var extractionResult = await _loggerUsageExtractor.ExtractLoggerUsagesWithSolutionAsync(
+                    compilation,
+                    solution,
+                    progress,
+                    cancellationToken);
+
+                foreach (var result in extractionResult.Results.Where(r => projectFiles.Contains(r.Location.FilePath)))
+                {
+                    files[result.Location.FilePath].Add(LoggerUsageMapper.ToDto(result));
+                }
+            }
+
+            cancellationToken.ThrowIfCancellationRequested();
+
+            stopwatch.Stop();
+
+            var insights = files.Values.SelectMany(f => f).ToList();
+            var summary = GenerateSummary(insights, files.Count, stopwatch.Elapsed);
+
+            ReportProgress(request.Id, 100, $"Analysis of {files.Count} file(s) complete", null);
+
+            return new AnalysisSuccessResponse
+            {
+                Result = new AnalysisResult
+                {
+                    Insights = insights,
+                    Files = files,
+                    Summary = summary
+                }
+            };
+        }
+        catch (OperationCanceledException)
+        {
+            return new AnalysisErrorResponse
+            {
+                Message = "Analysis cancelled",
+                Details = "The batch file analysis was cancelled by the user",
+                ErrorCode = "CANCELLED"
+            };
+        }
+        catch (Exception ex)
+        {
+            return new AnalysisErrorResponse
+            {
+                Message = "Batch file analysis failed",
+                Details = $"Unexpected error during batch file analysis: {ex.Message}\n{ex.StackTrace}",
+                ErrorCode = "UNKNOWN_ERROR"
+            };
+        }
+    }
+
+    /// <summary>
+    /// Loads the solution a file belongs to, for incremental analysis
+    /// </summary>
+    /// <returns>The loaded workspace, or the error response describing why it could not be loaded</returns>
+    private async Task<(Workspace? Workspace, AnalysisErrorResponse? Error)> LoadWorkspaceForFileAsync(
+        string? requestId,
+        string? solutionPath,
+        string filePath)
+    {
+        FileInfo? fileToLoad;
+        try
+        {
+            fileToLoad = !string.IsNullOrWhiteSpace(solutionPath)
+                ? new FileInfo(solutionPath)
+                : FindSolutionOrProject(Path.GetDirectoryName(filePath)!);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return (null, new AnalysisErrorResponse
+            {
+                Message = "Access denied to workspace directory",
+                Details = $"You don't have permission to access the directory containing: {filePath}\n{ex.Message}",
+                ErrorCode = "FILE_SYSTEM_ERROR"
+            });
+        }
+        catch (IOException ex)
+        {
+            return (null, new AnalysisErrorResponse
+            {
+                Message = "File system error accessing workspace",
+                Details = $"I/O error accessing directory containing: {filePath}\n{ex.Message}",
+                ErrorCode = "FILE_SYSTEM_ERROR"
+            });
+        }
+
+        if (fileToLoad == null || !fileToLoad.Exists)
+        {
+            return (null, new AnalysisErrorResponse
+            {
+                Message = "No solution found for file",
+                Details = $"Could not find solution for file: {filePath}",
+                ErrorCode = "NO_SOLUTION"
+            });
+        }
+
+        ReportProgress(requestId, 0, "Loading solution...", null);
+
+        Workspace workspace;
+        try
+        {
+            workspace = await _workspaceFactory.Create(fileToLoad);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return (null, new AnalysisErrorResponse
+            {
+                Message = "The solution file is invalid or corrupted",
+                Details = ex.Message,
+                ErrorCode = "INVALID_SOLUTION"
+            });
+        }
+        catch (FileNotFoundException ex)
+        {
+            return (null, new AnalysisErrorResponse
+            {
+                Message = "Solution or project file not found",
+                Details = ex.Message,
+                ErrorCode = "FILE_NOT_FOUND"
+            });
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return (null, new AnalysisErrorResponse
+            {
+                Message = "Access denied to solution or project file",
+                Details = $"You don't have permission to access: {fileToLoad.FullName}\n{ex.Message}",
+                ErrorCode = "FILE_SYSTEM_ERROR"
+            });
+        }
+        catch (IOException ex)
+        {
+            return (null, new AnalysisErrorResponse
+            {
+                Message = "File system error loading solution",
+                Details = $"I/O error loading: {fileToLoad.FullName}\n{ex.Message}",
+                ErrorCode = "FILE_SYSTEM_ERROR"
+            });
+        }
+        catch (Exception ex)
+        {
+            return (null, new AnalysisErrorResponse
+            {
+                Message = "Failed to load solution",
+                Details = $"Error loading {fileToLoad.FullName}: {ex.Message}",
+                ErrorCode = "SOLUTION_LOAD_ERROR"
+            });
+        }
+
+        return (workspace, null);
+    }
+
+    /// <summary>
+    /// Reports progress by writing JSON progress message to stdout, tagged with the request id
+    /// </summary>
+    private void ReportProgress(string? requestId, int percentage, string message, string? currentFile)
+    {
+        WriteMessage(new AnalysisProgress
+        {
+            Id = requestId,
             Percentage = percentage,
             Message = message,
             CurrentFile = currentFile
-        };
-
-        var json = JsonSerializer.Serialize<IBridgeResponse>(progress, new JsonSerializerOptions
-        {
-            PropertyNamingPolicy = JsonNamingPolicy.CamelCase
         });
+    }
+
+    /// <summary>
+    /// Writes an intermediate message (progress, partial result) as a JSON line to stdout
+    /// </summary>
+    private static void WriteMessage(IBridgeResponse message)
+    {
+        var json = JsonSerializer.Serialize(message, JsonOptions);
 
         Console.WriteLine(json);
     }
@@ -1,20 +1,36 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { AnalysisService } from './src/analysisService';
+import { analysisEvents } from './src/analysisEvents';
+import { AnalysisQueueState } from './src/analysisQueue';
+import { BASELINE_FILE } from './src/baseline';
+import { LoggingCodeActionProvider } from './src/codeActionProvider';
+import { LoggingCodeLensProvider } from './src/codeLensProvider';
 import { Commands } from './src/commands';
+import { CUSTOM_RULES_FILE } from './src/customRules';
+import { LoggingHoverProvider } from './src/hoverProvider';
+import { InlineDecorations } from './src/inlineDecorations';
+import { VolumeDecorations } from './src/volumeDecorations';
+import { InsightCache } from './src/insightCache';
 import { InsightsPanel } from './src/insightsPanel';
 import { ProblemsProvider } from './src/problemsProvider';
+import { LoggingReferenceProvider } from './src/referenceProvider';
+import { LoggingWorkspaceSymbolProvider } from './src/symbolProvider';
 import { LoggerTreeViewProvider } from './src/treeViewProvider';
 import { Configuration } from './src/configuration';
-import { debounceAsync } from './src/utils/debounce';
+import { SUPPRESSIONS_FILE } from './src/diagnosticPolicy';
+import { debounceBatch } from './src/utils/debounce';
 import { getSolutionState } from './src/state/SolutionState';
 import { findAllSolutions, getDefaultSolution } from './src/utils/solutionDetector';
 
 let analysisService: AnalysisService;
 let commands: Commands;
 let problemsProvider: ProblemsProvider;
+let inlineDecorations: InlineDecorations;
 let treeViewProvider: LoggerTreeViewProvider;
 let outputChannel: vscode.OutputChannel;
 let statusBarItem: vscode.StatusBarItem;
+let queueStatusBarItem: vscode.StatusBarItem;
 
 /**
  * Extension activation entry point
@@ -35,6 +51,13 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     statusBarItem.show();
     context.subscriptions.push(statusBarItem);
 
+    // Create status bar item for queued file analyses (hidden while nothing is pending)
+    queueStatusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 99);
+    context.subscriptions.push(queueStatusBarItem);
+    context.subscriptions.push(
+        analysisEvents.onQueueChanged(event => updateQueueStatusBar(event))
+    );
+
     try {
         // Initialize services
         analysisService = new AnalysisService(context, outputChannel);
@@ -58,6 +81,58 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
         commands = new Commands(analysisService, outputChannel);
         commands.setProblemsProvider(problemsProvider);
         commands.setTreeViewProvider(treeViewProvider);
+        commands.setInsightCache(new InsightCache(context.storageUri));
+
+        // Register quick fixes for diagnostics
+        context.subscriptions.push(
+            vscode.languages.registerCodeActionsProvider(
+                { language: 'csharp' },
+                new LoggingCodeActionProvider(() => commands.getCurrentInsights()),
+                { providedCodeActionKinds: LoggingCodeActionProvider.providedCodeActionKinds }
+            )
+        );
+
+        // Register hover cards for logging statements
+        context.subscriptions.push(
+            vscode.languages.registerHoverProvider(
+                { language: 'csharp' },
+                new LoggingHoverProvider(() => commands.getCurrentInsights())
+            )
+        );
+
+        // Register references between statements sharing an EventId, template or LoggerMessage method
+        const referenceProvider = new LoggingReferenceProvider(() => commands.getCurrentInsights());
+        context.subscriptions.push(
+            vscode.languages.registerReferenceProvider({ language: 'csharp' }, referenceProvider),
+            vscode.languages.registerDefinitionProvider({ language: 'csharp' }, referenceProvider)
+        );
+
+        // Register Go to Symbol in Workspace over message templates, EventId names and LoggerMessage methods
+        context.subscriptions.push(
+            vscode.languages.registerWorkspaceSymbolProvider(new LoggingWorkspaceSymbolProvider(() => commands.getCurrentInsights()))
+        );
+
+        // Register invocation counts above LoggerMessage declarations
+        const codeLensProvider = new LoggingCodeLensProvider(() => commands.getCurrentInsights());
+        context.subscriptions.push(
+            codeLensProvider,
+            vscode.languages.registerCodeLensProvider({ language: 'csharp' }, codeLensProvider),
+            commands.onDidChangeInsights(() => codeLensProvider.refresh())
+        );
+
+        // Show the resolved level and EventId after logging statements
+        inlineDecorations = new InlineDecorations(() => commands.getCurrentInsights());
+        context.subscriptions.push(
+            inlineDecorations,
+            commands.onDidChangeInsights(() => inlineDecorations.refresh())
+        );
+
+        // Show the volume of logging statements in the imported log dataset
+        const volumeDecorations = new VolumeDecorations(() => commands.getCurrentInsights(), () => commands.getLogHits());
+        context.subscriptions.push(
+            volumeDecorations,
+            commands.onDidChangeLogHits(() => volumeDecorations.refresh())
+        );
 
         // Initialize solution state
         await initializeSolutionState();
@@ -73,6 +148,9 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
                     // Clear current insights when switching solutions
                     problemsProvider.clearDiagnostics();
                     treeViewProvider.updateInsights([], solution.filePath);
+
+                    // Show the new solution's previous results, if cached
+                    await commands.restoreFromCache();
                 }
             })
         );
@@ -89,6 +167,20 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
             setupFileWatchers(context);
         }
 
+        // Re-publish diagnostics when a workspace suppressions, baseline or rules file changes
+        const suppressionsWatcher = vscode.workspace.createFileSystemWatcher(`**/{${SUPPRESSIONS_FILE},${BASELINE_FILE},${CUSTOM_RULES_FILE}}`);
+        const refreshDiagnostics = () => {
+            if (Configuration.getEnableProblemsIntegration()) {
+                problemsProvider.updateInsights(commands.getCurrentInsights());
+            }
+        };
+        context.subscriptions.push(
+            suppressionsWatcher,
+            suppressionsWatcher.onDidCreate(refreshDiagnostics),
+            suppressionsWatcher.onDidChange(refreshDiagnostics),
+            suppressionsWatcher.onDidDelete(refreshDiagnostics)
+        );
+
         // Listen for configuration changes
         context.subscriptions.push(
             Configuration.onDidChangeConfiguration((e) => {
@@ -98,6 +190,9 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 
         outputChannel.appendLine('All services initialized successfully');
 
+        // Show the previous session's results without waiting for a full analysis
+        commands.restoreFromCache();
+
         // Show welcome message on first activation
         const hasShownWelcome = context.globalState.get('hasShownWelcome', false);
         if (!hasShownWelcome) {
@@ -170,6 +265,12 @@ function registerCommands(context: vscode.ExtensionContext): void {
             if (currentInsights.length > 0) {
                 panel.updateInsights(currentInsights);
             }
+
+            // Send hit counts from imported log files
+            const logHits = commands.getLogHits();
+            if (logHits) {
+                panel.updateLogHits(logHits);
+            }
         })
     );
 
@@ -208,6 +309,66 @@ function registerCommands(context: vscode.ExtensionContext): void {
         })
     );
 
+    // Toggle inline decorations command
+    context.subscriptions.push(
+        vscode.commands.registerCommand('loggerUsage.toggleInlineDecorations', async () => {
+            await Configuration.updateConfig(
+                'inlineDecorations.enabled',
+                !Configuration.getInlineDecorationsEnabled(),
+                vscode.ConfigurationTarget.Global
+            );
+        })
+    );
+
+    // Find usages of EventId command
+    context.subscriptions.push(
+        vscode.commands.registerCommand('loggerUsage.findEventIdUsages', async () => {
+            await commands.findEventIdUsages();
+        })
+    );
+
+    // Find source of log line command
+    context.subscriptions.push(
+        vscode.commands.registerCommand('loggerUsage.findLogLineSource', async () => {
+            await commands.findLogLineSource();
+        })
+    );
+
+    // Import log files command
+    context.subscriptions.push(
+        vscode.commands.registerCommand('loggerUsage.importLogs', async () => {
+            await commands.importLogs();
+        })
+    );
+
+    // Select log dataset command
+    context.subscriptions.push(
+        vscode.commands.registerCommand('loggerUsage.selectLogDataset', async () => {
+            await commands.selectLogDataset();
+        })
+    );
+
+    // Clear imported log files command
+    context.subscriptions.push(
+        vscode.commands.registerCommand('loggerUsage.clearImportedLogs', async () => {
+            await commands.clearImportedLogs();
+        })
+    );
+
+    // Show EventId usages command (linked from hover cards)
+    context.subscriptions.push(
+        vscode.commands.registerCommand('loggerUsage.showEventIdUsages', async (insightId: string) => {
+            await commands.showEventIdUsages(insightId);
+        })
+    );
+
+    // Reveal in insights panel command (linked from hover cards)
+    context.subscriptions.push(
+        vscode.commands.registerCommand('loggerUsage.revealInInsightsPanel', async (insightId: string) => {
+            await commands.revealInInsightsPanel(insightId);
+        })
+    );
+
     // Refresh tree view command
     context.subscriptions.push(
         vscode.commands.registerCommand('loggerUsage.refreshTreeView', async () => {
@@ -215,6 +376,27 @@ function registerCommands(context: vscode.ExtensionContext): void {
         })
     );
 
+    // Show bridge status command
+    context.subscriptions.push(
+        vscode.commands.registerCommand('loggerUsage.showBridgeStatus', async () => {
+            await commands.showBridgeStatus();
+        })
+    );
+
+    // Record bridge session command
+    context.subscriptions.push(
+        vscode.commands.registerCommand('loggerUsage.recordBridgeSession', async () => {
+            await commands.recordBridgeSession();
+        })
+    );
+
+    // Create baseline command
+    context.subscriptions.push(
+        vscode.commands.registerCommand('loggerUsage.createBaseline', async () => {
+            await commands.createBaseline();
+        })
+    );
+
     outputChannel.appendLine('Commands registered successfully');
 }
 
@@ -230,20 +412,25 @@ function setupWebviewCallbacks(): void {
  * Sets up file watchers for auto-analysis on save
  */
 function setupFileWatchers(context: vscode.ExtensionContext): void {
-    // Create a debounced version of analyzeFile to handle rapid saves
-    const debouncedAnalyzeFile = debounceAsync(
-        async (uri: vscode.Uri) => {
+    // Collect saves and deletions within the debounce window into a single batch analysis
+    const batchedAnalyzeFiles = debounceBatch(
+        async (changes: Array<{ uri: vscode.Uri; deleted: boolean }>) => {
+            // The last event per file wins (saved and then deleted counts as deleted)
+            const latest = new Map(changes.map(change => [change.uri.fsPath, change]));
+            const changed = [...latest.values()].filter(c => !c.deleted).map(c => c.uri);
+            const deleted = [...latest.values()].filter(c => c.deleted).map(c => c.uri);
+
             try {
-                await commands.analyzeFile(uri);
+                await commands.analyzeFiles(changed, deleted);
             } catch (error) {
                 outputChannel.appendLine(`Auto-analysis failed: ${error}`);
             }
         },
-        500 // 500ms debounce delay
+        500 // 500ms batching window
     );
 
     // Watch for C# file saves
-    const fileWatcher = vscode.workspace.onDidSaveTextDocument(async (document) => {
+    const fileWatcher = vscode.workspace.onDidSaveTextDocument((document) => {
         // Handle .csproj or .sln files - trigger full re-analysis
         if (document.fileName.endsWith('.csproj') || document.fileName.endsWith('.sln')) {
             outputChannel.appendLine(`Project/Solution file modified: ${document.fileName}. Triggering full re-analysis...`);
@@ -265,27 +452,27 @@ function setupFileWatchers(context: vscode.ExtensionContext): void {
 
             const activeSolution = getSolutionState().getActiveSolution();
             if (activeSolution) {
-                // Use debounced function to prevent multiple rapid analyses
-                await debouncedAnalyzeFile(document.uri);
+                // Batch with other saves to prevent multiple rapid analyses
+                batchedAnalyzeFiles({ uri: document.uri, deleted: false });
             }
         }
     });
 
     // Watch for file deletions
-    const deleteWatcher = vscode.workspace.onDidDeleteFiles(async (event) => {
+    const deleteWatcher = vscode.workspace.onDidDeleteFiles((event) => {
         for (const uri of event.files) {
             // Check if deleted file was a C# file
             if (uri.fsPath.endsWith('.cs')) {
                 outputChannel.appendLine(`C# file deleted: ${uri.fsPath}`);
-                
-                // Remove insights for this file
-                await commands.removeFileInsights(uri);
+
+                // Remove insights for this file, together with other changes of the batch
+                batchedAnalyzeFiles({ uri, deleted: true });
             }
         }
     });
 
     context.subscriptions.push(fileWatcher, deleteWatcher);
-    outputChannel.appendLine('File watchers enabled (auto-analyze on save with 500ms debounce, file deletion handling, .csproj/.sln change detection)');
+    outputChannel.appendLine('File watchers enabled (batched auto-analyze on save with 500ms window, file deletion handling, .csproj/.sln change detection)');
 
     // Watch for active editor changes to auto-switch solutions
     const editorWatcher = vscode.window.onDidChangeActiveTextEditor(async (editor) => {
@@ -331,6 +518,17 @@ function handleConfigurationChange(e: vscode.ConfigurationChangeEvent): void {
             outputChannel.appendLine('Problems integration disabled - diagnostics cleared');
         }
     }
+
+    if (e.affectsConfiguration('loggerUsage.inlineDecorations.enabled')) {
+        inlineDecorations.refresh();
+    }
+
+    // Diagnostic levels, EventId ranges and the placeholder convention change which diagnostics are reported
+    const affectsDiagnostics = ['diagnostics', 'diagnosticOverrides', 'eventIdRanges', 'placeholderCasing']
+        .some(setting => e.affectsConfiguration(`loggerUsage.${setting}`));
+    if (affectsDiagnostics && Configuration.getEnableProblemsIntegration()) {
+        problemsProvider.updateInsights(commands.getCurrentInsights());
+    }
 }
 
 /**
@@ -342,6 +540,35 @@ function updateStatusBar(text: string, busy: boolean): void {
     }
 }
 
+/**
+ * Updates the status bar item showing queued analyses
+ */
+function updateQueueStatusBar(state: AnalysisQueueState): void {
+    if (!queueStatusBarItem) {
+        return;
+    }
+
+    const fileCount = state.pendingFiles.length;
+    if (fileCount === 0 && state.pendingWorkspaceAnalyses === 0) {
+        queueStatusBarItem.hide();
+        return;
+    }
+
+    const parts: string[] = [];
+    if (fileCount > 0) {
+        parts.push(`${fileCount} ${fileCount === 1 ? 'file' : 'files'} pending`);
+    }
+    if (state.pendingWorkspaceAnalyses > 0) {
+        parts.push('workspace analysis queued');
+    }
+
+    queueStatusBarItem.text = `$(clock) ${parts.join(', ')}`;
+    queueStatusBarItem.tooltip = fileCount > 0
+        ? `Waiting for analysis:\n${state.pendingFiles.map(f => path.basename(f)).join('\n')}`
+        : 'A workspace analysis starts when the current one finishes';
+    queueStatusBarItem.show();
+}
+
 /**
  * Updates status bar with solution information
  */
@@ -8,6 +8,9 @@ export interface LoggingInsight {
   /** The logging method type */
   methodType: 'LoggerExtension' | 'LoggerMessageAttribute' | 'LoggerMessageDefine' | 'BeginScope';
 
+  /** Name of the logging method called, or of the declared [LoggerMessage] method; missing from older bridges */
+  methodName?: string;
+
   /** Message template string */
   messageTemplate: string;
 
@@ -20,6 +23,9 @@ export interface LoggingInsight {
   /** Parameter names extracted from template or method signature */
   parameters: string[];
 
+  /** Parameter types (null if unknown), in the order of parameters; missing from older bridges */
+  parameterTypes?: (string | null)[];
+
   /** File location */
   location: Location;
 
@@ -34,6 +40,9 @@ export interface LoggingInsight {
 
   /** Inconsistency details if applicable */
   inconsistencies?: ParameterInconsistency[];
+
+  /** Call sites of a [LoggerMessage] method; missing for other method types and from older bridges */
+  invocations?: Invocation[];
 }
 
 export interface EventIdInfo {
@@ -49,6 +58,12 @@ export interface Location {
   endColumn: number;
 }
 
+export interface Invocation {
+  /** Fully qualified name of the type containing the call */
+  containingType: string;
+  location: Location;
+}
+
 export interface DataClassification {
   parameterName: string;
   classificationType: string; // e.g., 'PersonalData', 'SensitiveData'
@@ -60,3 +75,24 @@ export interface ParameterInconsistency {
   severity: 'Warning' | 'Error';
   location?: Location;
 }
+
+/**
+ * Entries of imported log files written by each logging statement
+ */
+export interface LogHitCounts {
+  /** Name of the imported dataset */
+  dataset: string;
+
+  /** Entries per insight id; 0 for statements that never fired, missing for scopes */
+  counts: Record<string, number>;
+
+  /** Entries from which a statement is hot */
+  hotThreshold: number;
+
+  matchedEntries: number;
+  unmatchedEntries: number;
+
+  /** Timestamps of the first and last entries of the dataset, in milliseconds since the epoch */
+  start: number | null;
+  end: number | null;
+}
@@ -1,65 +1,170 @@
 import { LoggingInsight } from './insightViewModel';
 
 /**
- * IPC message types for communication between extension and C# bridge
+ * IPC message types for communication between extension and C# bridge.
+ *
+ * Every request carries a correlation `id`; the bridge echoes it on every
+ * response it produces for that request (progress, success, error, ...),
+ * so several requests can be in flight at once.
  */
 
+/**
+ * Protocol version spoken by the extension. Bump when a change breaks older bridges.
+ * Version 2 introduced correlation ids on every request and response.
+ */
+export const PROTOCOL_VERSION = 2;
+
+/** Oldest bridge protocol version the extension can talk to */
+export const MIN_BRIDGE_PROTOCOL_VERSION = 2;
+
+/** Optional features a bridge advertises in its ready response */
+export type BridgeCapability = 'cancel' | 'streamResults' | 'analyzeFiles' | 'stats';
+
 /** Request to analyze a workspace/solution */
 export interface AnalysisRequest {
   command: 'analyze';
+  id: string;
   workspacePath: string;
   solutionPath: string | null;
   excludePatterns?: string[];
+  /** Send insights as a `partialResult` per project instead of in the final response */
+  streamResults?: boolean;
 }
 
 /** Request to re-analyze a single file (incremental) */
 export interface IncrementalAnalysisRequest {
   command: 'analyzeFile';
+  id: string;
   filePath: string;
   solutionPath: string;
 }
 
+/** Request to re-analyze several changed files at once (incremental) */
+export interface BatchAnalysisRequest {
+  command: 'analyzeFiles';
+  id: string;
+  filePaths: string[];
+  /** Files deleted since the last analysis; reported back with no insights */
+  deletedFilePaths?: string[];
+  solutionPath: string;
+}
+
 /** Request to ping bridge (handshake) */
 export interface PingRequest {
   command: 'ping';
+  id: string;
+  /** Protocol version of the extension; sent with the handshake, not with heartbeats */
+  protocolVersion?: number;
 }
 
 /** Request to shutdown bridge */
 export interface ShutdownRequest {
   command: 'shutdown';
+  id: string;
+}
+
+/** Request to cancel a queued or running analysis */
+export interface CancelRequest {
+  command: 'cancel';
+  id: string;
+  /** Id of the analysis request to cancel */
+  requestId: string;
+}
+
+/** Request for bridge process statistics (health monitoring) */
+export interface StatsRequest {
+  command: 'stats';
+  id: string;
 }
 
-export type BridgeRequest = AnalysisRequest | IncrementalAnalysisRequest | PingRequest | ShutdownRequest;
+export type BridgeRequest =
+  | AnalysisRequest
+  | IncrementalAnalysisRequest
+  | BatchAnalysisRequest
+  | PingRequest
+  | ShutdownRequest
+  | CancelRequest
+  | StatsRequest;
 
 /** Progress update from bridge */
 export interface AnalysisProgress {
   status: 'progress';
+  id: string | null;
   percentage: number;
   message: string;
   currentFile?: string;
 }
 
+/**
+ * Insights of one analyzed project, sent while a streaming workspace analysis
+ * is still running. The final success response then only carries insights
+ * that were not streamed.
+ */
+export interface AnalysisPartialResult {
+  status: 'partialResult';
+  id: string | null;
+  projectName: string;
+  insights: LoggingInsight[];
+  /** Every source file of the project, including files without logging calls */
+  analyzedFiles: string[];
+  projectsCompleted: number;
+  totalProjects: number;
+}
+
 /** Successful analysis response */
 export interface AnalysisSuccessResponse {
   status: 'success';
+  id: string | null;
   result: {
     insights: LoggingInsight[];
+    /** Insights grouped per requested file (batch file analysis only); files without insights map to [] */
+    files?: Record<string, LoggingInsight[]>;
     summary: AnalysisSummary;
   };
 }
 
-/** Error response */
+/** Error response (`id` is null when the request itself could not be parsed) */
 export interface AnalysisErrorResponse {
   status: 'error';
+  id: string | null;
   message: string;
   details: string;
   errorCode?: string;
 }
 
+/**
+ * Cancel acknowledgement. Always the last message the bridge writes
+ * for the cancelled request.
+ */
+export interface AnalysisCancelledResponse {
+  status: 'cancelled';
+  /** Id of the cancelled analysis request */
+  id: string;
+}
+
 /** Ready response (handshake confirmation) */
 export interface ReadyResponse {
   status: 'ready';
+  id: string | null;
   version: string;
+  /** Absent on bridges that predate protocol negotiation */
+  protocolVersion?: number;
+  /** Optional features this bridge supports; unknown entries are ignored */
+  capabilities?: string[];
+}
+
+/** Bridge process statistics, answered immediately even while analyses run */
+export interface BridgeStatsResponse {
+  status: 'stats';
+  id: string | null;
+  processId: number;
+  uptimeMs: number;
+  /** Physical memory used by the process */
+  workingSetBytes: number;
+  /** Memory currently allocated on the managed heap */
+  managedHeapBytes: number;
+  /** Analysis requests queued or running */
+  activeRequests: number;
 }
 
 /** Summary statistics */
@@ -73,4 +178,11 @@ export interface AnalysisSummary {
   warningsCount?: number;
 }
 
-export type AnalysisResponse = AnalysisSuccessResponse | AnalysisErrorResponse | AnalysisProgress | ReadyResponse;
+export type AnalysisResponse =
+  | AnalysisSuccessResponse
+  | AnalysisErrorResponse
+  | AnalysisProgress
+  | AnalysisPartialResult
+  | ReadyResponse
+  | AnalysisCancelledResponse
+  | BridgeStatsResponse;
@@ -1,5 +1,5 @@
 import { AnalysisSummary } from './ipcMessages';
-import { LoggingInsight } from './insightViewModel';
+import { LoggingInsight, LogHitCounts } from './insightViewModel';
 import { FilterState } from './filterState';
 
 /**
@@ -8,6 +8,8 @@ import { FilterState } from './filterState';
 export type ExtensionToWebviewMessage =
   | { command: 'updateInsights'; insights: LoggingInsight[]; summary: AnalysisSummary }
   | { command: 'updateFilters'; filters: FilterState }
+  | { command: 'revealInsight'; insightId: string }
+  | { command: 'updateLogHits'; hits: LogHitCounts | null }
   | { command: 'showError'; message: string; details?: string }
   | { command: 'updateTheme'; theme: 'light' | 'dark' | 'high-contrast' };
 
@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import { AnalysisProgress, AnalysisSuccessResponse } from '../models/ipcMessages';
+import { AnalysisQueueState } from './analysisQueue';
 
 /**
  * Event data for analysis started
@@ -35,6 +36,13 @@ export interface AnalysisErrorEvent {
   timestamp: number;
 }
 
+/**
+ * Event data for changes of the pending analysis queue
+ */
+export interface AnalysisQueueChangedEvent extends AnalysisQueueState {
+  timestamp: number;
+}
+
 /**
  * Central event emitter for analysis lifecycle events.
  * This allows UI components to react to analysis events without tight coupling.
@@ -44,6 +52,7 @@ class AnalysisEventEmitter {
   private readonly _onAnalysisProgress = new vscode.EventEmitter<AnalysisProgressEvent>();
   private readonly _onAnalysisComplete = new vscode.EventEmitter<AnalysisCompleteEvent>();
   private readonly _onAnalysisError = new vscode.EventEmitter<AnalysisErrorEvent>();
+  private readonly _onQueueChanged = new vscode.EventEmitter<AnalysisQueueChangedEvent>();
 
   /**
    * Event fired when analysis starts
@@ -65,6 +74,11 @@ class AnalysisEventEmitter {
    */
   public readonly onAnalysisError: vscode.Event<AnalysisErrorEvent> = this._onAnalysisError.event;
 
+  /**
+   * Event fired when analyses are queued or leave the queue
+   */
+  public readonly onQueueChanged: vscode.Event<AnalysisQueueChangedEvent> = this._onQueueChanged.event;
+
   /**
    * Fires the analysis started event
    */
@@ -108,6 +122,16 @@ class AnalysisEventEmitter {
     });
   }
 
+  /**
+   * Fires the queue changed event
+   */
+  public fireQueueChanged(state: AnalysisQueueState): void {
+    this._onQueueChanged.fire({
+      ...state,
+      timestamp: Date.now()
+    });
+  }
+
   /**
    * Disposes all event emitters
    */
@@ -116,6 +140,7 @@ class AnalysisEventEmitter {
     this._onAnalysisProgress.dispose();
     this._onAnalysisComplete.dispose();
     this._onAnalysisError.dispose();
+    this._onQueueChanged.dispose();
   }
 }
 
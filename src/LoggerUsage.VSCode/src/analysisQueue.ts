@@ -0,0 +1,146 @@
+import * as vscode from 'vscode';
+import { AnalysisSuccessResponse } from '../models/ipcMessages';
+
+/**
+ * An analysis waiting for its slot (workspace or file) to become free
+ */
+export interface QueuedAnalysis {
+    type: 'workspace' | 'file';
+    solutionPath: string | null;
+    /** Set for file analyses; used to coalesce duplicates and to prioritise the active editor */
+    filePaths?: string[];
+    /** Starts the analysis once it leaves the queue */
+    start: () => Promise<AnalysisSuccessResponse>;
+}
+
+/**
+ * Snapshot of the queue, published through analysisEvents
+ */
+export interface AnalysisQueueState {
+    pendingWorkspaceAnalyses: number;
+    pendingFiles: string[];
+}
+
+interface QueueEntry extends QueuedAnalysis {
+    waiters: Array<{
+        resolve: (value: AnalysisSuccessResponse) => void;
+        reject: (reason: unknown) => void;
+    }>;
+}
+
+/**
+ * Pending analyses of the analysis service.
+ *
+ * File requests for the same files as a queued one share the queued analysis, and file
+ * requests are dropped (rejected with a CancellationError) while a workspace analysis of
+ * the same solution is queued, because that analysis will read the file anyway.
+ */
+export class AnalysisQueue {
+    private entries: QueueEntry[] = [];
+
+    /**
+     * Queues an analysis; the returned promise settles with the analysis that serves it
+     */
+    public enqueue(analysis: QueuedAnalysis): Promise<AnalysisSuccessResponse> {
+        return new Promise((resolve, reject) => {
+            if (analysis.type === 'file') {
+                if (this.isSupersededByWorkspaceAnalysis(analysis)) {
+                    reject(new vscode.CancellationError());
+                    return;
+                }
+
+                const duplicate = this.entries.find(e => e.type === 'file' && sameFiles(e.filePaths, analysis.filePaths));
+                if (duplicate) {
+                    duplicate.waiters.push({ resolve, reject });
+                    return;
+                }
+            } else {
+                this.dropFilesOf(analysis.solutionPath);
+            }
+
+            this.entries.push({ ...analysis, waiters: [{ resolve, reject }] });
+        });
+    }
+
+    /**
+     * Whether a queued workspace analysis will cover the given analysis
+     */
+    public isSupersededByWorkspaceAnalysis(analysis: QueuedAnalysis): boolean {
+        return analysis.type === 'file' &&
+            this.entries.some(e => e.type === 'workspace' && e.solutionPath === analysis.solutionPath);
+    }
+
+    /**
+     * Removes the next analysis of the given kind and starts it, settling everyone waiting on it.
+     * File analyses of the preferred file (the active editor) go first.
+     */
+    public startNext(type: 'workspace' | 'file', preferredFilePath?: string): boolean {
+        let index = -1;
+        if (type === 'file' && preferredFilePath) {
+            index = this.entries.findIndex(e => e.type === 'file' && !!e.filePaths?.includes(preferredFilePath));
+        }
+        if (index === -1) {
+            index = this.entries.findIndex(e => e.type === type);
+        }
+        if (index === -1) {
+            return false;
+        }
+
+        const [entry] = this.entries.splice(index, 1);
+        entry.start().then(
+            result => entry.waiters.forEach(w => w.resolve(result)),
+            error => entry.waiters.forEach(w => w.reject(error))
+        );
+        return true;
+    }
+
+    /**
+     * Gets a snapshot of what is pending
+     */
+    public getState(): AnalysisQueueState {
+        return {
+            pendingWorkspaceAnalyses: this.entries.filter(e => e.type === 'workspace').length,
+            pendingFiles: [...new Set(this.entries.flatMap(e => e.filePaths ?? []))]
+        };
+    }
+
+    /**
+     * Rejects everything still queued
+     */
+    public clear(reason: unknown): void {
+        const entries = this.entries;
+        this.entries = [];
+        for (const entry of entries) {
+            entry.waiters.forEach(w => w.reject(reason));
+        }
+    }
+
+    // ==================== Private Methods ====================
+
+    /**
+     * Drops queued file analyses of a solution that a workspace analysis is about to cover
+     */
+    private dropFilesOf(solutionPath: string | null): void {
+        const dropped = this.entries.filter(e => e.type === 'file' && e.solutionPath === solutionPath);
+        if (dropped.length === 0) {
+            return;
+        }
+
+        this.entries = this.entries.filter(e => !dropped.includes(e));
+        for (const entry of dropped) {
+            entry.waiters.forEach(w => w.reject(new vscode.CancellationError()));
+        }
+    }
+}
+
+/**
+ * Whether two file analyses cover the same files
+ */
+function sameFiles(a: string[] | undefined, b: string[] | undefined): boolean {
+    if (!a || !b || a.length !== b.length) {
+        return false;
+    }
+
+    const files = new Set(a);
+    return b.every(f => files.has(f));
+}
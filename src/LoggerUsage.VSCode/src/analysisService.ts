@@ -1,18 +1,29 @@
 import * as vscode from 'vscode';
-import * as childProcess from 'child_process';
-import * as path from 'path';
-import * as fs from 'fs';
 import {
     AnalysisRequest,
     IncrementalAnalysisRequest,
+    BatchAnalysisRequest,
     BridgeRequest,
     AnalysisResponse,
     AnalysisSuccessResponse,
     AnalysisErrorResponse,
     AnalysisProgress,
-    ReadyResponse
+    AnalysisPartialResult,
+    AnalysisSummary,
+    ReadyResponse,
+    BridgeStatsResponse,
+    PingRequest,
+    StatsRequest,
+    BridgeCapability,
+    PROTOCOL_VERSION,
+    MIN_BRIDGE_PROTOCOL_VERSION
 } from '../models/ipcMessages';
+import { LoggingInsight } from '../models/insightViewModel';
 import { analysisEvents } from './analysisEvents';
+import { AnalysisQueue, QueuedAnalysis } from './analysisQueue';
+import { Configuration } from './configuration';
+import { BridgeSessionRecorder } from './transport/bridgeSession';
+import { BridgeTransport, createBridgeTransport } from './transport/bridgeTransport';
 import { checkDotNetSdk, getDotNetDownloadUrl } from './utils/dotnetDetector';
 
 /**
@@ -20,11 +31,68 @@ import { checkDotNetSdk, getDotNetDownloadUrl } from './utils/dotnetDetector';
  */
 export type ProgressCallback = (progress: AnalysisProgress) => void;
 
+/**
+ * Callback for insights streamed per project during workspace analysis
+ */
+export type PartialResultCallback = (partial: AnalysisPartialResult) => void;
+
+/**
+ * Health of the bridge process, shown by the Show Bridge Status command
+ */
+export interface BridgeStatus {
+    running: boolean;
+    /** Where the bridge is: executable path, pipe path or the fake bridge */
+    transport: string | null;
+    processId: number | null;
+    startedAt: number | null;
+    /** Protocol version and capabilities negotiated in the handshake */
+    protocolVersion: number | null;
+    capabilities: string[];
+    /** Round-trip time of the last answered heartbeat ping */
+    lastLatencyMs: number | null;
+    lastHeartbeatAt: number | null;
+    missedHeartbeats: number;
+    /** Statistics reported by the bridge at the last heartbeat */
+    stats: BridgeStatsResponse | null;
+    /** Memory ceiling that triggers recycling (0 = no limit) */
+    maxMemoryMb: number;
+    pendingRequests: number;
+    crashCount: number;
+    restartCount: number;
+    lastError: { message: string; timestamp: number } | null;
+}
+
+/**
+ * Time the bridge gets to answer a heartbeat ping or stats request
+ */
+const HEARTBEAT_TIMEOUT_MS = 10000;
+
+/**
+ * Checks whether the extension can talk to a bridge, given its handshake answer.
+ * Bridges that predate protocol negotiation report no version and count as version 1.
+ * @returns Why the bridge is incompatible, or null if it is compatible
+ */
+export function getProtocolIncompatibility(ready: ReadyResponse): string | null {
+    const bridgeVersion = ready.protocolVersion ?? 1;
+
+    if (bridgeVersion < MIN_BRIDGE_PROTOCOL_VERSION) {
+        return `The bridge speaks protocol version ${bridgeVersion}, but the extension needs version ${MIN_BRIDGE_PROTOCOL_VERSION} or later. ` +
+            'Rebuild the bridge (npm run build-bridge) or reinstall the extension.';
+    }
+
+    if (bridgeVersion > PROTOCOL_VERSION) {
+        return `The bridge speaks protocol version ${bridgeVersion}, which is newer than the extension's version ${PROTOCOL_VERSION}. ` +
+            'Update the extension or rebuild the bridge from the same sources.';
+    }
+
+    return null;
+}
+
 /**
  * Service for managing C# Bridge process and IPC communication
  */
 export class AnalysisService implements vscode.Disposable {
-    private bridgeProcess: childProcess.ChildProcess | null = null;
+    private transport: BridgeTransport | null = null;
     private outputChannel: vscode.OutputChannel;
     private isReady: boolean = false;
     private readyPromise: Promise<void> | null = null;
@@ -32,6 +100,14 @@ export class AnalysisService implements vscode.Disposable {
         resolve: (value: AnalysisSuccessResponse) => void;
         reject: (reason: any) => void;
         onProgress?: ProgressCallback;
+        onPartialResult?: PartialResultCallback;
+        // Insights received as partial results, completed by the final success response
+        partialInsights: LoggingInsight[];
+    }> = new Map();
+    // Ping and stats requests, answered by the bridge's main loop without queuing
+    private pendingControlRequests: Map<string, {
+        resolve: (response: ReadyResponse | BridgeStatsResponse) => void;
+        reject: (reason: any) => void;
     }> = new Map();
     private currentRequestId: number = 0;
     private lineBuffer: string = '';
@@ -42,27 +118,40 @@ export class AnalysisService implements vscode.Disposable {
     private lastCrashTime: number = 0;
     private crashResetInterval: number = 60000; // Reset crash count after 1 minute
     private isShuttingDown: boolean = false;
+    private lastError: { message: string; timestamp: number } | null = null;
+
+    // Protocol negotiation
+    private handshakeRequestId: string | null = null;
+    private protocolVersion: number | null = null;
+    private capabilities: Set<string> = new Set();
+
+    // Session recording (Record Bridge Session command)
+    private recorder: BridgeSessionRecorder | null = null;
+
+    // Health monitoring state
+    private heartbeatTimer: NodeJS.Timeout | null = null;
+    private bridgeStartedAt: number | null = null;
+    private lastLatencyMs: number | null = null;
+    private lastHeartbeatAt: number | null = null;
+    private missedHeartbeats: number = 0;
+    private maxMissedHeartbeats: number = 3;
+    private lastStats: BridgeStatsResponse | null = null;
+    private restartCount: number = 0;
+
+    // Concurrency control: one workspace analysis and one file analysis may run at the
+    // same time (the bridge has a worker for each); further requests queue per kind
+    private isAnalyzingWorkspace: boolean = false;
+    private isAnalyzingFile: boolean = false;
+    private readonly analysisQueue = new AnalysisQueue();
 
-    // Concurrency control
-    private isAnalyzing: boolean = false;
-    private analysisQueue: Array<
-        | {
-            type: 'workspace';
-            args: [string, string | null, string[] | undefined, ProgressCallback | undefined, vscode.CancellationToken | undefined];
-            resolve: (value: AnalysisSuccessResponse) => void;
-            reject: (reason: any) => void;
-        }
-        | {
-            type: 'file';
-            args: [string, string, ProgressCallback | undefined, vscode.CancellationToken | undefined];
-            resolve: (value: AnalysisSuccessResponse) => void;
-            reject: (reason: any) => void;
-        }
-    > = [];
-
+    /**
+     * @param transportFactory Connects to the bridge instead of the transport configured in
+     * `loggerUsage.bridge.transport`, e.g. a FakeBridgeTransport in tests
+     */
     constructor(
         private context: vscode.ExtensionContext,
-        outputChannel?: vscode.OutputChannel
+        outputChannel?: vscode.OutputChannel,
+        private readonly transportFactory?: () => BridgeTransport
     ) {
         this.outputChannel = outputChannel ?? vscode.window.createOutputChannel('Logger Usage Analysis');
     }
@@ -71,7 +160,7 @@ export class AnalysisService implements vscode.Disposable {
      * Starts the C# Bridge process
      */
     public async startBridge(): Promise<void> {
-        if (this.bridgeProcess) {
+        if (this.transport) {
             return this.readyPromise ?? Promise.resolve();
         }
 
@@ -87,35 +176,46 @@ export class AnalysisService implements vscode.Disposable {
         solutionPath: string | null,
         excludePatterns?: string[],
         onProgress?: ProgressCallback,
-        cancellationToken?: vscode.CancellationToken
+        cancellationToken?: vscode.CancellationToken,
+        onPartialResult?: PartialResultCallback
     ): Promise<AnalysisSuccessResponse> {
-        // Check if already analyzing
-        if (this.isAnalyzing) {
-            // Queue the request
-            return new Promise((resolve, reject) => {
-                this.analysisQueue.push({
-                    type: 'workspace',
-                    args: [workspacePath, solutionPath, excludePatterns, onProgress, cancellationToken],
-                    resolve,
-                    reject
-                });
-
-                // Show notification
-                vscode.window.showInformationMessage('Analysis in progress. Request queued.');
+        // Check if a workspace analysis is already running
+        if (this.isAnalyzingWorkspace) {
+            // Queue the request; the status bar shows it as pending
+            const queued = this.analysisQueue.enqueue({
+                type: 'workspace',
+                solutionPath,
+                start: () => this.runWorkspaceAnalysis(workspacePath, solutionPath, excludePatterns, onProgress, cancellationToken, onPartialResult)
             });
+            this.fireQueueChanged();
+            return queued;
         }
 
+        return this.runWorkspaceAnalysis(workspacePath, solutionPath, excludePatterns, onProgress, cancellationToken, onPartialResult);
+    }
+
+    /**
+     * Runs a workspace analysis, holding the workspace slot until it settles
+     */
+    private async runWorkspaceAnalysis(
+        workspacePath: string,
+        solutionPath: string | null,
+        excludePatterns?: string[],
+        onProgress?: ProgressCallback,
+        cancellationToken?: vscode.CancellationToken,
+        onPartialResult?: PartialResultCallback
+    ): Promise<AnalysisSuccessResponse> {
         // Mark as analyzing
-        this.isAnalyzing = true;
+        this.isAnalyzingWorkspace = true;
 
         try {
-            return await this.performWorkspaceAnalysis(workspacePath, solutionPath, excludePatterns, onProgress, cancellationToken);
+            return await this.performWorkspaceAnalysis(workspacePath, solutionPath, excludePatterns, onProgress, cancellationToken, onPartialResult);
         } finally {
             // Mark as not analyzing
-            this.isAnalyzing = false;
+            this.isAnalyzingWorkspace = false;
 
-            // Process next queued request if any
-            await this.processNextQueuedRequest();
+            // Start queued requests that can run now
+            this.processQueuedRequests();
         }
     }
 
@@ -127,35 +227,38 @@ export class AnalysisService implements vscode.Disposable {
         solutionPath: string | null,
         excludePatterns?: string[],
         onProgress?: ProgressCallback,
-        cancellationToken?: vscode.CancellationToken
+        cancellationToken?: vscode.CancellationToken,
+        onPartialResult?: PartialResultCallback
     ): Promise<AnalysisSuccessResponse> {
-        // Check if .NET SDK is installed before proceeding
-        const sdkCheck = await checkDotNetSdk();
-        if (!sdkCheck.installed) {
-            const errorMessage = '.NET SDK not found. Please install .NET 10 SDK or later.';
-            this.outputChannel.appendLine(`[ERROR] ${errorMessage}`);
-            if (sdkCheck.error) {
-                this.outputChannel.appendLine(`Details: ${sdkCheck.error}`);
-            }
+        // Check if .NET SDK is installed before proceeding (only needed by a bridge we spawn)
+        if (this.spawnsBridge()) {
+            const sdkCheck = await checkDotNetSdk();
+            if (!sdkCheck.installed) {
+                const errorMessage = '.NET SDK not found. Please install .NET 10 SDK or later.';
+                this.outputChannel.appendLine(`[ERROR] ${errorMessage}`);
+                if (sdkCheck.error) {
+                    this.outputChannel.appendLine(`Details: ${sdkCheck.error}`);
+                }
 
-            // Show error notification with download option
-            const choice = await vscode.window.showErrorMessage(
-                errorMessage,
-                'Download .NET',
-                'Show Details'
-            );
+                // Show error notification with download option
+                const choice = await vscode.window.showErrorMessage(
+                    errorMessage,
+                    'Download .NET',
+                    'Show Details'
+                );
 
-            if (choice === 'Download .NET') {
-                vscode.env.openExternal(vscode.Uri.parse(getDotNetDownloadUrl()));
-            } else if (choice === 'Show Details') {
-                this.outputChannel.show();
+                if (choice === 'Download .NET') {
+                    vscode.env.openExternal(vscode.Uri.parse(getDotNetDownloadUrl()));
+                } else if (choice === 'Show Details') {
+                    this.outputChannel.show();
+                }
+
+                throw new Error(errorMessage);
             }
 
-            throw new Error(errorMessage);
+            this.outputChannel.appendLine(`[INFO] .NET SDK detected: ${sdkCheck.version}`);
         }
 
-        this.outputChannel.appendLine(`[INFO] .NET SDK detected: ${sdkCheck.version}`);
-
         await this.ensureBridgeReady();
 
         const startTime = Date.now();
@@ -165,13 +268,15 @@ export class AnalysisService implements vscode.Disposable {
 
         const request: AnalysisRequest = {
             command: 'analyze',
+            id: this.nextRequestId(),
             workspacePath,
             solutionPath,
-            excludePatterns
+            excludePatterns,
+            streamResults: this.hasCapability('streamResults')
         };
 
         try {
-            const result = await this.sendRequestWithTimeout(request, onProgress, cancellationToken);
+            const result = await this.sendRequestWithTimeout(request, onProgress, cancellationToken, onPartialResult);
 
             // Emit analysis complete event
             analysisEvents.fireAnalysisComplete(result, startTime);
@@ -206,33 +311,78 @@ export class AnalysisService implements vscode.Disposable {
         onProgress?: ProgressCallback,
         cancellationToken?: vscode.CancellationToken
     ): Promise<AnalysisSuccessResponse> {
-        // Check if already analyzing
-        if (this.isAnalyzing) {
-            // Queue the request
-            return new Promise((resolve, reject) => {
-                this.analysisQueue.push({
-                    type: 'file',
-                    args: [filePath, solutionPath, onProgress, cancellationToken],
-                    resolve,
-                    reject
-                });
+        const analysis: QueuedAnalysis = {
+            type: 'file',
+            solutionPath,
+            filePaths: [filePath],
+            start: () => this.runInFileSlot(() => this.performFileAnalysis(filePath, solutionPath, onProgress, cancellationToken))
+        };
 
-                // Show notification
-                vscode.window.showInformationMessage('Analysis in progress. Request queued.');
-            });
+        // A queued workspace analysis will pick up the file's current content anyway
+        if (this.analysisQueue.isSupersededByWorkspaceAnalysis(analysis)) {
+            return Promise.reject(new vscode.CancellationError());
+        }
+
+        // Check if a file analysis is already running (workspace analyses don't block files).
+        // Queued files show up in the status bar through analysisEvents instead of a notification.
+        if (this.isAnalyzingFile) {
+            const queued = this.analysisQueue.enqueue(analysis);
+            this.fireQueueChanged();
+            return queued;
+        }
+
+        return analysis.start();
+    }
+
+    /**
+     * Analyzes several changed and deleted files in one bridge request.
+     * The result groups insights per file in `result.files`; deleted files map to no insights.
+     */
+    public async analyzeFiles(
+        filePaths: string[],
+        deletedFilePaths: string[],
+        solutionPath: string,
+        onProgress?: ProgressCallback,
+        cancellationToken?: vscode.CancellationToken
+    ): Promise<AnalysisSuccessResponse> {
+        const analysis: QueuedAnalysis = {
+            type: 'file',
+            solutionPath,
+            filePaths: [...filePaths, ...deletedFilePaths],
+            start: () => this.runInFileSlot(() => this.performFileBatchAnalysis(filePaths, deletedFilePaths, solutionPath, onProgress, cancellationToken))
+        };
+
+        // A queued workspace analysis will pick up the files' current content anyway
+        if (this.analysisQueue.isSupersededByWorkspaceAnalysis(analysis)) {
+            return Promise.reject(new vscode.CancellationError());
+        }
+
+        if (this.isAnalyzingFile) {
+            const queued = this.analysisQueue.enqueue(analysis);
+            this.fireQueueChanged();
+            return queued;
         }
 
+        return analysis.start();
+    }
+
+    /**
+     * Runs a file analysis (single or batch), holding the file slot until it settles
+     */
+    private async runInFileSlot(
+        analysis: () => Promise<AnalysisSuccessResponse>
+    ): Promise<AnalysisSuccessResponse> {
         // Mark as analyzing
-        this.isAnalyzing = true;
+        this.isAnalyzingFile = true;
 
         try {
-            return await this.performFileAnalysis(filePath, solutionPath, onProgress, cancellationToken);
+            return await analysis();
         } finally {
             // Mark as not analyzing
-            this.isAnalyzing = false;
+            this.isAnalyzingFile = false;
 
-            // Process next queued request if any
-            await this.processNextQueuedRequest();
+            // Start queued requests that can run now
+            this.processQueuedRequests();
         }
     }
 
@@ -254,6 +404,7 @@ export class AnalysisService implements vscode.Disposable {
 
         const request: IncrementalAnalysisRequest = {
             command: 'analyzeFile',
+            id: this.nextRequestId(),
             filePath,
             solutionPath
         };
@@ -273,162 +424,511 @@ export class AnalysisService implements vscode.Disposable {
         }
     }
 
+    /**
+     * Performs the actual batch file analysis (internal method)
+     */
+    private async performFileBatchAnalysis(
+        filePaths: string[],
+        deletedFilePaths: string[],
+        solutionPath: string,
+        onProgress?: ProgressCallback,
+        cancellationToken?: vscode.CancellationToken
+    ): Promise<AnalysisSuccessResponse> {
+        await this.ensureBridgeReady();
+
+        const startTime = Date.now();
+
+        // Emit analysis started event (changed files)
+        analysisEvents.fireAnalysisStarted(filePaths[0] ?? deletedFilePaths[0], solutionPath);
+
+        const request: BatchAnalysisRequest = {
+            command: 'analyzeFiles',
+            id: this.nextRequestId(),
+            filePaths,
+            deletedFilePaths,
+            solutionPath
+        };
+
+        try {
+            const result = this.hasCapability('analyzeFiles')
+                ? await this.sendRequestWithTimeout(request, onProgress, cancellationToken)
+                : await this.analyzeFilesOneByOne(request, onProgress, cancellationToken);
+
+            // Emit analysis complete event
+            analysisEvents.fireAnalysisComplete(result, startTime);
+
+            return result;
+        } catch (error) {
+            // Emit analysis error event
+            const err = error instanceof Error ? error : new Error(String(error));
+            analysisEvents.fireAnalysisError(err);
+            throw error;
+        }
+    }
+
+    /**
+     * Serves a batch on a bridge without the analyzeFiles command, one analyzeFile request per file
+     */
+    private async analyzeFilesOneByOne(
+        batch: BatchAnalysisRequest,
+        onProgress?: ProgressCallback,
+        cancellationToken?: vscode.CancellationToken
+    ): Promise<AnalysisSuccessResponse> {
+        const files: Record<string, LoggingInsight[]> = {};
+        const summaries: AnalysisSummary[] = [];
+
+        for (const filePath of batch.filePaths) {
+            const result = await this.sendRequestWithTimeout(
+                { command: 'analyzeFile', id: this.nextRequestId(), filePath, solutionPath: batch.solutionPath },
+                onProgress,
+                cancellationToken
+            );
+            files[filePath] = result.result.insights;
+            summaries.push(result.result.summary);
+        }
+
+        for (const filePath of batch.deletedFilePaths ?? []) {
+            files[filePath] = [];
+        }
+
+        return {
+            status: 'success',
+            id: batch.id,
+            result: {
+                insights: Object.values(files).flat(),
+                files,
+                summary: combineSummaries(summaries)
+            }
+        };
+    }
+
     /**
      * Disposes the service and closes the bridge process
      */
     public dispose(): void {
         this.isShuttingDown = true;
 
-        if (this.bridgeProcess) {
-            try {
-                // Send shutdown command
-                const shutdownRequest: BridgeRequest = { command: 'shutdown' };
-                this.writeToBridge(shutdownRequest);
+        // Nothing queued will run anymore
+        this.analysisQueue.clear(new vscode.CancellationError());
+        this.fireQueueChanged();
 
-                // Give it a moment to shutdown gracefully
-                setTimeout(() => {
-                    if (this.bridgeProcess && !this.bridgeProcess.killed) {
-                        this.bridgeProcess.kill();
-                    }
-                }, 1000);
+        this.stopBridge();
+        this.stopRecording().catch(() => undefined);
+    }
+
+    /**
+     * Restarts the bridge gracefully, e.g. to release memory held by Roslyn workspaces.
+     * Requests still pending are rejected.
+     */
+    public async restartBridge(reason: string): Promise<void> {
+        this.outputChannel.appendLine(`Restarting bridge: ${reason}`);
+        this.stopBridge();
+        this.restartCount++;
+        await this.startBridge();
+    }
+
+    /**
+     * Gets the health of the bridge process as of the last heartbeat
+     */
+    public getBridgeStatus(): BridgeStatus {
+        return {
+            running: this.isReady && this.transport !== null,
+            transport: this.transport?.description ?? null,
+            processId: this.transport?.processId ?? this.lastStats?.processId ?? null,
+            startedAt: this.bridgeStartedAt,
+            protocolVersion: this.protocolVersion,
+            capabilities: [...this.capabilities],
+            lastLatencyMs: this.lastLatencyMs,
+            lastHeartbeatAt: this.lastHeartbeatAt,
+            missedHeartbeats: this.missedHeartbeats,
+            stats: this.lastStats,
+            maxMemoryMb: Configuration.getBridgeMaxMemoryMb(),
+            pendingRequests: this.pendingResponses.size,
+            crashCount: this.crashCount,
+            restartCount: this.restartCount,
+            lastError: this.lastError
+        };
+    }
+
+    /**
+     * Fetches fresh statistics from the running bridge, then gets its health
+     */
+    public async refreshBridgeStatus(): Promise<BridgeStatus> {
+        if (this.isReady && this.hasCapability('stats')) {
+            try {
+                this.lastStats = await this.sendControlRequest<BridgeStatsResponse>(
+                    { command: 'stats', id: this.nextRequestId() },
+                    HEARTBEAT_TIMEOUT_MS
+                );
             } catch (error) {
-                this.outputChannel.appendLine(`Error during shutdown: ${error}`);
-                if (this.bridgeProcess && !this.bridgeProcess.killed) {
-                    this.bridgeProcess.kill();
-                }
+                this.recordError(`Stats request failed: ${error instanceof Error ? error.message : String(error)}`);
             }
+        }
+
+        return this.getBridgeStatus();
+    }
 
-            this.bridgeProcess = null;
-            this.isReady = false;
-            this.readyPromise = null;
+    /**
+     * Starts recording every request and response exchanged with the bridge to a JSONL file
+     * @param onError Called when the file cannot be written, which stops the recording
+     */
+    public startRecording(filePath: string, onError?: (error: Error) => void): void {
+        if (this.recorder) {
+            throw new Error(`Already recording to ${this.recorder.filePath}`);
         }
+
+        const recorder = new BridgeSessionRecorder(filePath, error => {
+            // Analyses carry on without the recording
+            if (this.recorder === recorder) {
+                this.recorder = null;
+            }
+            this.recordError(`Recording bridge session to ${filePath} failed: ${error.message}`);
+            onError?.(error);
+        });
+        this.recorder = recorder;
+        this.outputChannel.appendLine(`Recording bridge session to ${filePath}`);
     }
 
     /**
-     * Processes the next queued analysis request
+     * Stops recording the bridge session
+     * @returns The recording file and number of recorded messages, or null when not recording
      */
-    private async processNextQueuedRequest(): Promise<void> {
-        if (this.analysisQueue.length === 0) {
-            return;
+    public async stopRecording(): Promise<{ filePath: string; count: number } | null> {
+        const recorder = this.recorder;
+        if (!recorder) {
+            return null;
         }
 
-        const nextRequest = this.analysisQueue.shift()!;
+        this.recorder = null;
+        await recorder.close();
+        this.outputChannel.appendLine(`Recorded ${recorder.count} bridge messages to ${recorder.filePath}`);
+        return { filePath: recorder.filePath, count: recorder.count };
+    }
+
+    /**
+     * Whether the bridge session is being recorded
+     */
+    public isRecording(): boolean {
+        return this.recorder !== null;
+    }
+
+    /**
+     * Starts the next queued request of every kind whose slot is free.
+     * The file open in the active editor is analyzed before other queued files.
+     */
+    private processQueuedRequests(): void {
+        // run* marks the slot busy synchronously, so at most one request per kind leaves the queue
+        if (!this.isAnalyzingWorkspace) {
+            this.analysisQueue.startNext('workspace');
+        }
+        if (!this.isAnalyzingFile) {
+            this.analysisQueue.startNext('file', vscode.window.activeTextEditor?.document.uri.fsPath);
+        }
 
+        this.fireQueueChanged();
+    }
+
+    /**
+     * Publishes the current queue state
+     */
+    private fireQueueChanged(): void {
+        analysisEvents.fireQueueChanged(this.analysisQueue.getState());
+    }
+
+    /**
+     * Connects to the bridge through the configured transport and establishes communication
+     */
+    private async spawnBridgeProcess(): Promise<void> {
         try {
-            let result: AnalysisSuccessResponse;
+            const transport = this.transportFactory?.() ?? createBridgeTransport(this.context.extensionPath, this.outputChannel);
+            this.transport = transport;
+            this.lineBuffer = '';
 
-            if (nextRequest.type === 'workspace') {
-                result = await this.analyzeWorkspace(...nextRequest.args);
-            } else {
-                result = await this.analyzeFile(...nextRequest.args);
-            }
+            this.outputChannel.appendLine(`Starting C# Bridge: ${transport.description}`);
+
+            // A recycled bridge may still write or exit after its replacement started;
+            // only the current transport is listened to
+            const isCurrent = () => this.transport === transport;
+
+            await transport.connect({
+                onData: (data) => {
+                    if (isCurrent()) {
+                        this.handleStdout(data);
+                    }
+                },
+                onLog: (message) => this.outputChannel.appendLine(`[Bridge stderr] ${message}`),
+                onClose: (code, signal) => {
+                    this.outputChannel.appendLine(`Bridge process exited with code ${code}, signal ${signal}`);
+                    if (isCurrent()) {
+                        this.handleBridgeExit(code, signal);
+                    }
+                },
+                onError: (error) => {
+                    this.outputChannel.appendLine(`Bridge process error: ${error.message}`);
+                    if (isCurrent()) {
+                        this.handleBridgeError(error);
+                    }
+                }
+            });
+
+            // Send handshake ping
+            await this.sendHandshake(transport.description);
+
+            this.outputChannel.appendLine('C# Bridge ready');
+
+            // Start health monitoring
+            this.bridgeStartedAt = Date.now();
+            this.missedHeartbeats = 0;
+            this.lastStats = null;
+            this.scheduleHeartbeat();
 
-            nextRequest.resolve(result);
         } catch (error) {
-            nextRequest.reject(error);
+            const message = error instanceof Error ? error.message : String(error);
+            this.outputChannel.appendLine(`Failed to start bridge: ${message}`);
+            this.recordError(`Failed to start bridge: ${message}`);
+
+            // Drop the half-started bridge so the next request starts a new one
+            this.stopBridge();
+            throw new Error(`Failed to start C# Bridge: ${message}`);
         }
     }
 
     /**
-     * Spawns the C# Bridge process and establishes communication
+     * Sends handshake ping and waits for ready response.
+     * A bridge speaking an incompatible protocol version is refused.
      */
-    private async spawnBridgeProcess(): Promise<void> {
-        const bridgeExecutable = this.findBridgeExecutable();
+    private async sendHandshake(bridgeLocation: string): Promise<void> {
+        const request: PingRequest = { command: 'ping', id: this.nextRequestId(), protocolVersion: PROTOCOL_VERSION };
 
-        if (!bridgeExecutable) {
-            const error = 'C# Bridge executable not found. Please ensure the extension is properly installed.';
-            this.outputChannel.appendLine(error);
-            throw new Error(error);
+        // Bridges that predate correlation ids answer the handshake without an id
+        this.handshakeRequestId = request.id;
+        let response: ReadyResponse;
+        try {
+            response = await this.sendControlRequest<ReadyResponse>(request, 10000); // 10 second timeout
+        } finally {
+            this.handshakeRequestId = null;
         }
 
-        this.outputChannel.appendLine(`Starting C# Bridge: ${bridgeExecutable}`);
+        const incompatibility = getProtocolIncompatibility(response);
+        if (incompatibility) {
+            this.outputChannel.appendLine(`[ERROR] Incompatible bridge at ${bridgeLocation}`);
+            throw new Error(incompatibility);
+        }
+
+        this.protocolVersion = response.protocolVersion ?? null;
+        this.capabilities = new Set(response.capabilities ?? []);
+        this.isReady = true;
+        this.outputChannel.appendLine(
+            `Bridge ready (version: ${response.version}, protocol: ${this.protocolVersion}, capabilities: ${[...this.capabilities].join(', ') || 'none'})`
+        );
+    }
+
+    /**
+     * Whether the running bridge advertised an optional feature in the handshake
+     */
+    private hasCapability(capability: BridgeCapability): boolean {
+        return this.capabilities.has(capability);
+    }
+
+    /**
+     * Stops the bridge process gracefully and rejects everything still pending on it
+     */
+    private stopBridge(): void {
+        this.stopHeartbeat();
+
+        const transport = this.transport;
+        if (!transport) {
+            return;
+        }
 
         try {
-            this.bridgeProcess = childProcess.spawn(bridgeExecutable, [], {
-                stdio: ['pipe', 'pipe', 'pipe'],
-                windowsHide: true
+            // Send shutdown command, unless the bridge outlives the connection (attached over a pipe)
+            if (transport.ownsBridge) {
+                const shutdownRequest: BridgeRequest = { command: 'shutdown', id: this.nextRequestId() };
+                this.writeToBridge(shutdownRequest);
+            }
+
+            transport.close();
+        } catch (error) {
+            this.outputChannel.appendLine(`Error during shutdown: ${error}`);
+            transport.kill();
+        }
+
+        this.transport = null;
+        this.isReady = false;
+        this.readyPromise = null;
+        this.bridgeStartedAt = null;
+        this.protocolVersion = null;
+        this.capabilities = new Set();
+
+        this.rejectPendingRequests(new Error('Bridge process stopped'));
+    }
+
+    /**
+     * Schedules the next heartbeat; the interval is re-read from the settings every time
+     */
+    private scheduleHeartbeat(): void {
+        this.stopHeartbeat();
+
+        const intervalMs = Configuration.getBridgeHeartbeatIntervalMs();
+        if (intervalMs <= 0) {
+            return;
+        }
+
+        this.heartbeatTimer = setTimeout(() => {
+            this.heartbeatTimer = null;
+            this.heartbeat().finally(() => {
+                if (this.isReady) {
+                    this.scheduleHeartbeat();
+                }
             });
+        }, intervalMs);
+    }
 
-            // Handle stdout - JSON responses
-            if (this.bridgeProcess.stdout) {
-                this.bridgeProcess.stdout.setEncoding('utf8');
-                this.bridgeProcess.stdout.on('data', (data: string) => {
-                    this.handleStdout(data);
-                });
+    /**
+     * Stops the heartbeat timer
+     */
+    private stopHeartbeat(): void {
+        if (this.heartbeatTimer) {
+            clearTimeout(this.heartbeatTimer);
+            this.heartbeatTimer = null;
+        }
+    }
+
+    /**
+     * Pings the bridge to track its latency and reads its statistics. A bridge that misses
+     * several heartbeats in a row is considered hung and terminated (handled as a crash).
+     */
+    private async heartbeat(): Promise<void> {
+        if (!this.isReady || !this.transport) {
+            return;
+        }
+
+        try {
+            const sentAt = Date.now();
+            await this.sendControlRequest<ReadyResponse>({ command: 'ping', id: this.nextRequestId() }, HEARTBEAT_TIMEOUT_MS);
+            this.lastLatencyMs = Date.now() - sentAt;
+            this.lastHeartbeatAt = Date.now();
+            this.missedHeartbeats = 0;
+
+            if (!this.hasCapability('stats')) {
+                return;
             }
 
-            // Handle stderr - debug logs
-            if (this.bridgeProcess.stderr) {
-                this.bridgeProcess.stderr.setEncoding('utf8');
-                this.bridgeProcess.stderr.on('data', (data: string) => {
-                    this.outputChannel.appendLine(`[Bridge stderr] ${data}`);
-                });
+            this.lastStats = await this.sendControlRequest<BridgeStatsResponse>(
+                { command: 'stats', id: this.nextRequestId() },
+                HEARTBEAT_TIMEOUT_MS
+            );
+        } catch (error) {
+            this.missedHeartbeats++;
+            this.recordError(
+                `Missed heartbeat ${this.missedHeartbeats}/${this.maxMissedHeartbeats}: ${error instanceof Error ? error.message : String(error)}`
+            );
+
+            if (this.missedHeartbeats >= this.maxMissedHeartbeats && this.transport) {
+                this.outputChannel.appendLine('[ERROR] Bridge is not responding, terminating it');
+                this.transport.kill();
             }
+            return;
+        }
 
-            // Handle process exit
-            this.bridgeProcess.on('exit', (code, signal) => {
-                this.outputChannel.appendLine(`Bridge process exited with code ${code}, signal ${signal}`);
-                this.handleBridgeExit(code, signal);
-            });
+        this.recycleIfOverMemoryBudget();
+    }
 
-            // Handle process errors
-            this.bridgeProcess.on('error', (error) => {
-                this.outputChannel.appendLine(`Bridge process error: ${error.message}`);
-                this.handleBridgeError(error);
-            });
+    /**
+     * Restarts the bridge when it uses more memory than allowed and no analysis is running.
+     * A busy bridge is checked again at the next heartbeat.
+     */
+    private recycleIfOverMemoryBudget(): void {
+        const maxMemoryMb = Configuration.getBridgeMaxMemoryMb();
+        if (!this.lastStats || maxMemoryMb <= 0) {
+            return;
+        }
 
-            // Send handshake ping
-            await this.sendHandshake();
+        const usedMb = Math.round(this.lastStats.workingSetBytes / (1024 * 1024));
+        if (usedMb <= maxMemoryMb) {
+            return;
+        }
 
-            this.outputChannel.appendLine('C# Bridge ready');
+        const isIdle = this.pendingResponses.size === 0 &&
+            this.lastStats.activeRequests === 0 &&
+            !this.isAnalyzingWorkspace &&
+            !this.isAnalyzingFile;
 
-        } catch (error) {
-            const message = error instanceof Error ? error.message : String(error);
-            this.outputChannel.appendLine(`Failed to start bridge: ${message}`);
-            throw new Error(`Failed to start C# Bridge: ${message}`);
+        if (!isIdle) {
+            this.outputChannel.appendLine(`[WARN] Bridge uses ${usedMb} MB (limit ${maxMemoryMb} MB), restarting once idle`);
+            return;
         }
+
+        this.restartBridge(`using ${usedMb} MB, limit ${maxMemoryMb} MB`).catch(error => {
+            this.recordError(`Bridge restart failed: ${error instanceof Error ? error.message : String(error)}`);
+        });
     }
 
     /**
-     * Sends handshake ping and waits for ready response
+     * Sends a ping or stats request and waits for its answer
      */
-    private async sendHandshake(): Promise<void> {
-        return new Promise((resolve, reject) => {
+    private sendControlRequest<T extends ReadyResponse | BridgeStatsResponse>(
+        request: PingRequest | StatsRequest,
+        timeoutMs: number
+    ): Promise<T> {
+        return new Promise<T>((resolve, reject) => {
             const timeout = setTimeout(() => {
-                reject(new Error('Bridge handshake timeout'));
-            }, 10000); // 10 second timeout
-
-            const pingRequest: BridgeRequest = { command: 'ping' };
+                this.pendingControlRequests.delete(request.id);
+                reject(new Error(`Bridge did not answer '${request.command}' within ${timeoutMs}ms`));
+            }, timeoutMs);
 
-            // Set up a temporary handler for the ready response
-            const originalHandler = this.handleResponse.bind(this);
-            this.handleResponse = (response: AnalysisResponse) => {
-                if (response.status === 'ready') {
+            this.pendingControlRequests.set(request.id, {
+                resolve: (response) => {
                     clearTimeout(timeout);
-                    this.isReady = true;
-                    this.handleResponse = originalHandler;
-                    this.outputChannel.appendLine(`Bridge ready (version: ${(response as ReadyResponse).version})`);
-                    resolve();
-                } else {
-                    // Not ready yet, keep waiting
-                    originalHandler(response);
+                    resolve(response as T);
+                },
+                reject: (reason) => {
+                    clearTimeout(timeout);
+                    reject(reason);
                 }
-            };
+            });
 
-            this.writeToBridge(pingRequest);
+            try {
+                this.writeToBridge(request);
+            } catch (error) {
+                this.pendingControlRequests.get(request.id)?.reject(error);
+                this.pendingControlRequests.delete(request.id);
+            }
         });
     }
 
     /**
-     * Sends a request to the bridge and returns a promise for the response
+     * Rejects all pending analysis and control requests
      */
+    private rejectPendingRequests(reason: Error): void {
+        for (const [requestId, pending] of this.pendingResponses.entries()) {
+            pending.reject(reason);
+            this.pendingResponses.delete(requestId);
+        }
+
+        for (const [requestId, pending] of this.pendingControlRequests.entries()) {
+            pending.reject(reason);
+            this.pendingControlRequests.delete(requestId);
+        }
+    }
+
+    /**
+     * Remembers the last error for the bridge status
+     */
+    private recordError(message: string): void {
+        this.lastError = { message, timestamp: Date.now() };
+        this.outputChannel.appendLine(`[WARN] ${message}`);
+    }
+
     /**
      * Sends a request with optional timeout support
      */
     private async sendRequestWithTimeout(
-        request: BridgeRequest,
+        request: AnalysisRequest | IncrementalAnalysisRequest | BatchAnalysisRequest,
         onProgress?: ProgressCallback,
-        cancellationToken?: vscode.CancellationToken
+        cancellationToken?: vscode.CancellationToken,
+        onPartialResult?: PartialResultCallback
     ): Promise<AnalysisSuccessResponse> {
         // Get timeout configuration
         const config = vscode.workspace.getConfiguration('loggerUsage');
@@ -436,24 +936,33 @@ export class AnalysisService implements vscode.Disposable {
 
         // If timeout is disabled (0 or negative), just send the request normally
         if (timeoutMs <= 0) {
-            return this.sendRequest(request, onProgress, cancellationToken);
+            return this.sendRequest(request, onProgress, cancellationToken, onPartialResult);
         }
 
         // Create a timeout promise
+        let timeoutHandle: NodeJS.Timeout | undefined;
         const timeoutPromise = new Promise<never>((_, reject) => {
-            setTimeout(() => {
+            timeoutHandle = setTimeout(() => {
                 reject(new Error('TIMEOUT'));
             }, timeoutMs);
         });
 
+        const requestPromise = this.sendRequest(request, onProgress, cancellationToken, onPartialResult);
+
         try {
             // Race between the request and the timeout
             return await Promise.race([
-                this.sendRequest(request, onProgress, cancellationToken),
+                requestPromise,
                 timeoutPromise
             ]);
         } catch (error) {
             if (error instanceof Error && error.message === 'TIMEOUT') {
+                // Stop the bridge from working on a request nobody waits for anymore.
+                // The request promise rejects as cancelled, which is expected here.
+                // Partial results already delivered through onPartialResult stay with the caller.
+                requestPromise.catch(() => undefined);
+                this.cancelRequest(request.id);
+
                 // Show timeout warning notification
                 vscode.window.showWarningMessage(
                     `Analysis timed out after ${timeoutMs / 1000} seconds. Showing partial results if available.`,
@@ -475,46 +984,111 @@ export class AnalysisService implements vscode.Disposable {
                 throw new Error(`Analysis timed out after ${timeoutMs / 1000} seconds`);
             }
             throw error;
+        } finally {
+            clearTimeout(timeoutHandle);
         }
     }
 
+    /**
+     * Sends a request to the bridge and returns a promise for the response
+     */
     private sendRequest(
-        request: BridgeRequest,
+        request: AnalysisRequest | IncrementalAnalysisRequest | BatchAnalysisRequest,
         onProgress?: ProgressCallback,
-        cancellationToken?: vscode.CancellationToken
+        cancellationToken?: vscode.CancellationToken,
+        onPartialResult?: PartialResultCallback
     ): Promise<AnalysisSuccessResponse> {
-        const requestId = `req_${++this.currentRequestId}`;
+        const requestId = request.id;
 
-        return new Promise((resolve, reject) => {
-            // Store the promise handlers
-            this.pendingResponses.set(requestId, { resolve, reject, onProgress });
+        if (cancellationToken?.isCancellationRequested) {
+            return Promise.reject(new vscode.CancellationError());
+        }
 
+        return new Promise<AnalysisSuccessResponse>((resolve, reject) => {
             // Handle cancellation
-            if (cancellationToken) {
-                cancellationToken.onCancellationRequested(() => {
-                    this.pendingResponses.delete(requestId);
-                    // Note: We don't have a cancel command in the protocol yet
-                    // The C# bridge would need to support cancellation tokens
-                    reject(new Error('Analysis cancelled'));
-                });
-            }
+            const cancellationListener = cancellationToken?.onCancellationRequested(() => {
+                this.cancelRequest(requestId);
+            });
+
+            // Store the promise handlers, releasing the cancellation listener once settled
+            this.pendingResponses.set(requestId, {
+                resolve: (value) => {
+                    cancellationListener?.dispose();
+                    resolve(value);
+                },
+                reject: (reason) => {
+                    cancellationListener?.dispose();
+                    reject(reason);
+                },
+                onProgress,
+                onPartialResult,
+                partialInsights: []
+            });
 
             // Send the request
-            this.writeToBridge(request);
+            try {
+                this.writeToBridge(request);
+            } catch (error) {
+                this.pendingResponses.get(requestId)?.reject(error);
+                this.pendingResponses.delete(requestId);
+            }
         });
     }
 
     /**
-     * Writes a request to the bridge's stdin
+     * Cancels a pending request: tells the bridge to stop working on it and rejects
+     * the caller right away so queued requests don't wait for the bridge to wind down
+     */
+    private cancelRequest(requestId: string): void {
+        const pending = this.pendingResponses.get(requestId);
+        if (!pending) {
+            return;
+        }
+
+        this.pendingResponses.delete(requestId);
+
+        // Without the cancel command the bridge finishes the request and its answer is dropped
+        if (this.hasCapability('cancel')) {
+            try {
+                this.writeToBridge({ command: 'cancel', id: this.nextRequestId(), requestId });
+            } catch (error) {
+                // Bridge is gone, nothing left to stop
+                this.outputChannel.appendLine(`Failed to send cancel request: ${error}`);
+            }
+        }
+
+        this.outputChannel.appendLine(`Analysis request ${requestId} cancelled`);
+        pending.reject(new vscode.CancellationError());
+    }
+
+    /**
+     * Generates the next request correlation id
+     */
+    private nextRequestId(): string {
+        return `req_${++this.currentRequestId}`;
+    }
+
+    /**
+     * Writes a request to the bridge
      */
     private writeToBridge(request: BridgeRequest): void {
-        if (!this.bridgeProcess || !this.bridgeProcess.stdin) {
+        if (!this.transport) {
             throw new Error('Bridge process not available');
         }
 
         const json = JSON.stringify(request);
-        this.outputChannel.appendLine(`> ${json}`);
-        this.bridgeProcess.stdin.write(json + '\n');
+        if (!this.isHeartbeatTraffic(request.command)) {
+            this.outputChannel.appendLine(`> ${json}`);
+        }
+        this.transport.send(json);
+        this.recorder?.recordRequest(request);
+    }
+
+    /**
+     * Whether a message is part of the periodic health checks, which are not logged once the bridge is ready
+     */
+    private isHeartbeatTraffic(commandOrStatus: string): boolean {
+        return this.isReady && ['ping', 'ready', 'stats'].includes(commandOrStatus);
     }
 
     /**
@@ -532,7 +1106,10 @@ export class AnalysisService implements vscode.Disposable {
             if (line) {
                 try {
                     const response = JSON.parse(line) as AnalysisResponse;
-                    this.outputChannel.appendLine(`< ${line.substring(0, 200)}${line.length > 200 ? '...' : ''}`);
+                    this.recorder?.recordResponse(response);
+                    if (!this.isHeartbeatTraffic(response.status)) {
+                        this.outputChannel.appendLine(`< ${line.substring(0, 200)}${line.length > 200 ? '...' : ''}`);
+                    }
                     this.handleResponse(response);
                 } catch (error) {
                     this.outputChannel.appendLine(`Failed to parse JSON: ${line}`);
@@ -543,50 +1120,75 @@ export class AnalysisService implements vscode.Disposable {
     }
 
     /**
-     * Handles a response from the bridge
+     * Handles a response from the bridge, routing it to the pending request with the same id
      */
     private handleResponse(response: AnalysisResponse): void {
-        // Find the pending request (for now, we only support one at a time)
-        const pendingEntry = Array.from(this.pendingResponses.values())[0];
+        if (response.status === 'ready' || response.status === 'stats') {
+            // Answers to handshake, heartbeat and stats requests
+            const id = response.id ?? (response.status === 'ready' ? this.handshakeRequestId : null);
+            const control = id ? this.pendingControlRequests.get(id) : undefined;
+            if (control) {
+                this.pendingControlRequests.delete(id!);
+                control.resolve(response);
+            }
+            return;
+        }
+
+        const pendingEntry = response.id ? this.pendingResponses.get(response.id) : undefined;
 
         if (!pendingEntry) {
-            // No pending request, might be unsolicited progress or ready message
+            // Late output of a cancelled or timed-out request, or an error for a request the
+            // bridge could not parse (no id to route it to)
+            if (response.status === 'error') {
+                this.outputChannel.appendLine(`Unroutable bridge error: ${response.message} (${response.errorCode || 'UNKNOWN'})`);
+            }
             return;
         }
 
+        const requestId = response.id!;
+
         switch (response.status) {
             case 'progress':
-                const progressResponse = response as AnalysisProgress;
-
                 // Emit analysis progress event
-                analysisEvents.fireAnalysisProgress(progressResponse);
+                analysisEvents.fireAnalysisProgress(response);
 
                 if (pendingEntry.onProgress) {
-                    pendingEntry.onProgress(progressResponse);
+                    pendingEntry.onProgress(response);
+                }
+                break;
+
+            case 'partialResult':
+                pendingEntry.partialInsights.push(...response.insights);
+
+                if (pendingEntry.onPartialResult) {
+                    pendingEntry.onPartialResult(response);
                 }
                 break;
 
             case 'success':
-                // Remove from pending and resolve
-                const requestId = Array.from(this.pendingResponses.keys())[0];
+                // Remove from pending and resolve with streamed and final insights combined
                 this.pendingResponses.delete(requestId);
-                pendingEntry.resolve(response as AnalysisSuccessResponse);
+                if (pendingEntry.partialInsights.length > 0) {
+                    response.result.insights = [...pendingEntry.partialInsights, ...response.result.insights];
+                }
+                pendingEntry.resolve(response);
                 break;
 
             case 'error':
                 // Remove from pending and reject
-                const errorRequestId = Array.from(this.pendingResponses.keys())[0];
-                this.pendingResponses.delete(errorRequestId);
-                const errorResponse = response as AnalysisErrorResponse;
-                const error = new Error(`Analysis failed: ${errorResponse.message}\n${errorResponse.details}`);
+                this.pendingResponses.delete(requestId);
+                const error = new Error(`Analysis failed: ${response.message}\n${response.details}`);
                 pendingEntry.reject(error);
+                this.lastError = { message: response.message, timestamp: Date.now() };
 
                 // Show user-friendly error message based on error code
-                this.showErrorNotification(errorResponse);
+                this.showErrorNotification(response);
                 break;
 
-            case 'ready':
-                // Handled by handshake
+            case 'cancelled':
+                // The bridge cancelled a request we still wait for
+                this.pendingResponses.delete(requestId);
+                pendingEntry.reject(new vscode.CancellationError());
                 break;
         }
     }
@@ -602,15 +1204,14 @@ export class AnalysisService implements vscode.Disposable {
             this.crashCount = 0;
         }
 
-        this.bridgeProcess = null;
+        this.transport = null;
         this.isReady = false;
         this.readyPromise = null;
+        this.bridgeStartedAt = null;
+        this.stopHeartbeat();
 
         // Reject all pending requests
-        for (const [requestId, pending] of this.pendingResponses.entries()) {
-            pending.reject(new Error(`Bridge process exited unexpectedly (code: ${code}, signal: ${signal})`));
-            this.pendingResponses.delete(requestId);
-        }
+        this.rejectPendingRequests(new Error(`Bridge process exited unexpectedly (code: ${code}, signal: ${signal})`));
 
         // If this was an intentional shutdown, don't show errors
         if (this.isShuttingDown || code === 0) {
@@ -622,7 +1223,7 @@ export class AnalysisService implements vscode.Disposable {
         this.crashCount++;
         this.lastCrashTime = now;
 
-        this.outputChannel.appendLine(`Bridge process crashed (exit code: ${code}, signal: ${signal})`);
+        this.recordError(`Bridge process crashed (exit code: ${code}, signal: ${signal})`);
         this.outputChannel.appendLine(`Crash count: ${this.crashCount}/${this.maxRetries}`);
 
         // Emit error event
@@ -701,13 +1302,10 @@ export class AnalysisService implements vscode.Disposable {
      * Handles bridge process errors
      */
     private handleBridgeError(error: Error): void {
-        this.outputChannel.appendLine(`Bridge error: ${error.message}`);
+        this.recordError(`Bridge error: ${error.message}`);
 
         // Reject all pending requests
-        for (const [requestId, pending] of this.pendingResponses.entries()) {
-            pending.reject(error);
-            this.pendingResponses.delete(requestId);
-        }
+        this.rejectPendingRequests(error);
 
         vscode.window.showErrorMessage(
             `Logger Usage bridge error: ${error.message}`,
@@ -727,7 +1325,7 @@ export class AnalysisService implements vscode.Disposable {
             return;
         }
 
-        if (!this.bridgeProcess) {
+        if (!this.transport) {
             await this.startBridge();
         }
 
@@ -737,36 +1335,10 @@ export class AnalysisService implements vscode.Disposable {
     }
 
     /**
-     * Finds the C# Bridge executable
+     * Whether the bridge is spawned locally (stdio transport), so it needs the .NET SDK
      */
-    private findBridgeExecutable(): string | null {
-        // Determine the executable name based on platform
-        const exeName = process.platform === 'win32'
-            ? 'LoggerUsage.VSCode.Bridge.exe'
-            : 'LoggerUsage.VSCode.Bridge';
-
-        // Try different possible locations
-        const possiblePaths = [
-            // Development: built locally in Debug
-            path.join(this.context.extensionPath, '..', 'LoggerUsage.VSCode.Bridge', 'bin', 'Debug', 'net10.0', exeName),
-            // Development: built locally in Release
-            path.join(this.context.extensionPath, '..', 'LoggerUsage.VSCode.Bridge', 'bin', 'Release', 'net10.0', exeName),
-            // Packaged extension: bridge bundled in extension
-            path.join(this.context.extensionPath, 'bridge', exeName),
-        ];
-
-        for (const execPath of possiblePaths) {
-            if (fs.existsSync(execPath)) {
-                return execPath;
-            }
-        }
-
-        this.outputChannel.appendLine('Bridge executable not found in:');
-        for (const execPath of possiblePaths) {
-            this.outputChannel.appendLine(`  - ${execPath}`);
-        }
-
-        return null;
+    private spawnsBridge(): boolean {
+        return !this.transportFactory && Configuration.getBridgeTransport() === 'stdio';
     }
 
     /**
@@ -839,3 +1411,31 @@ export class AnalysisService implements vscode.Disposable {
     }
 }
 
+/**
+ * Adds up the summaries of several analyses
+ */
+function combineSummaries(summaries: AnalysisSummary[]): AnalysisSummary {
+    const combined: AnalysisSummary = {
+        totalInsights: 0,
+        byMethodType: {},
+        byLogLevel: {},
+        inconsistenciesCount: 0,
+        filesAnalyzed: 0,
+        analysisTimeMs: 0
+    };
+
+    for (const summary of summaries) {
+        combined.totalInsights += summary.totalInsights;
+        combined.inconsistenciesCount += summary.inconsistenciesCount;
+        combined.filesAnalyzed += summary.filesAnalyzed;
+        combined.analysisTimeMs += summary.analysisTimeMs;
+        for (const [methodType, count] of Object.entries(summary.byMethodType)) {
+            combined.byMethodType[methodType] = (combined.byMethodType[methodType] ?? 0) + count;
+        }
+        for (const [logLevel, count] of Object.entries(summary.byLogLevel)) {
+            combined.byLogLevel[logLevel] = (combined.byLogLevel[logLevel] ?? 0) + count;
+        }
+    }
+
+    return combined;
+}
@@ -0,0 +1,222 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { isInDirectory } from './utils/solutionDetector';
+
+/**
+ * Location of the baseline file, relative to each workspace folder
+ */
+export const BASELINE_FILE = '.loggerusage/baseline.json';
+
+/**
+ * A reported diagnostic, identified independently of its line so it survives edits around it
+ */
+export interface BaselineFinding {
+    /** Diagnostic code, e.g. LU002 */
+    code: string;
+    filePath: string;
+    messageTemplate: string;
+}
+
+/**
+ * Findings of one file, template and code accepted into the baseline
+ */
+export interface BaselineEntry {
+    code: string;
+    /** Path relative to the workspace folder, with `/` separators */
+    file: string;
+    messageTemplate: string;
+    /** Number of findings with this key, e.g. the same template logged twice in a file */
+    count: number;
+}
+
+/**
+ * Content of a baseline file
+ */
+export interface BaselineFile {
+    version: 1;
+    createdAt: string;
+    entries: BaselineEntry[];
+}
+
+/**
+ * Baseline entries (or some of the findings they count) that no longer reproduce
+ */
+export interface FixedBaselineEntry {
+    baselinePath: string;
+    entry: BaselineEntry;
+    /** How many of the entry's findings are gone */
+    fixedCount: number;
+    /** Line of the entry in the baseline file (0-based) */
+    line: number;
+}
+
+/**
+ * Baseline entries of one workspace folder with the number of findings not matched yet
+ */
+interface FolderBaseline {
+    folderPath: string;
+    baselinePath: string;
+    entries: BaselineEntry[];
+    remaining: Map<string, number>;
+    /** Lines of the baseline file, to locate entries */
+    lines: string[];
+}
+
+/**
+ * Accepted findings read from the baseline files of the workspace folders. Findings are matched
+ * (and used up) one by one, so a baseline of two findings hides only two of three identical ones.
+ *
+ * A baseline keeps track of matches; load a new one per update.
+ */
+export class Baseline {
+    private constructor(private readonly folders: FolderBaseline[]) {}
+
+    /**
+     * Reads the baseline files of the workspace folders; folders without one have no baseline
+     * @throws Error naming the file when a baseline file is not valid JSON
+     */
+    public static load(folderPaths: string[]): Baseline {
+        const folders: FolderBaseline[] = [];
+
+        for (const folderPath of folderPaths) {
+            const baselinePath = path.join(folderPath, BASELINE_FILE);
+            if (!fs.existsSync(baselinePath)) {
+                continue;
+            }
+
+            let text: string;
+            let content: BaselineFile;
+            try {
+                text = fs.readFileSync(baselinePath, 'utf8');
+                content = JSON.parse(text) as BaselineFile;
+            } catch (error) {
+                throw new Error(`Cannot read baseline ${baselinePath}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+
+            const entries = Array.isArray(content.entries) ? content.entries : [];
+            folders.push({
+                folderPath,
+                baselinePath,
+                entries,
+                remaining: new Map(entries.map(entry => [getEntryKey(entry), entry.count ?? 1])),
+                lines: text.split(/\r?\n/)
+            });
+        }
+
+        return new Baseline(folders);
+    }
+
+    /**
+     * An empty baseline
+     */
+    public static empty(): Baseline {
+        return new Baseline([]);
+    }
+
+    /**
+     * Whether a finding is in the baseline; uses up one of the findings its entry counts
+     */
+    public matches(finding: BaselineFinding): boolean {
+        for (const folder of this.folders) {
+            if (!isInDirectory(finding.filePath, folder.folderPath)) {
+                continue;
+            }
+
+            const key = getEntryKey({ ...finding, file: toBaselinePath(folder.folderPath, finding.filePath) });
+            const remaining = folder.remaining.get(key) ?? 0;
+            if (remaining > 0) {
+                folder.remaining.set(key, remaining - 1);
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * Gets the entries with findings that were not matched, i.e. have been fixed since the baseline was created
+     */
+    public getFixedEntries(): FixedBaselineEntry[] {
+        const fixed: FixedBaselineEntry[] = [];
+
+        for (const folder of this.folders) {
+            for (const entry of folder.entries) {
+                const key = getEntryKey(entry);
+                const fixedCount = folder.remaining.get(key) ?? 0;
+                if (fixedCount > 0) {
+                    fixed.push({ baselinePath: folder.baselinePath, entry, fixedCount, line: findEntryLine(folder.lines, entry) });
+                    // Report duplicate entries once
+                    folder.remaining.set(key, 0);
+                }
+            }
+        }
+
+        return fixed;
+    }
+}
+
+/**
+ * Creates the baseline of a workspace folder from the findings reported in it
+ */
+export function createBaseline(folderPath: string, findings: BaselineFinding[]): BaselineFile {
+    const entries = new Map<string, BaselineEntry>();
+
+    for (const finding of findings) {
+        if (!isInDirectory(finding.filePath, folderPath)) {
+            continue;
+        }
+
+        const entry: BaselineEntry = {
+            code: finding.code,
+            file: toBaselinePath(folderPath, finding.filePath),
+            messageTemplate: finding.messageTemplate,
+            count: 1
+        };
+        const key = getEntryKey(entry);
+        const existing = entries.get(key);
+        if (existing) {
+            existing.count++;
+        } else {
+            entries.set(key, entry);
+        }
+    }
+
+    // Sorted so re-creating the baseline produces small diffs
+    const sorted = [...entries.values()].sort((a, b) =>
+        a.file.localeCompare(b.file) || a.code.localeCompare(b.code) || a.messageTemplate.localeCompare(b.messageTemplate)
+    );
+
+    return { version: 1, createdAt: new Date().toISOString(), entries: sorted };
+}
+
+/**
+ * Writes a baseline file with one entry per line, so entries can be reviewed and located
+ */
+export function writeBaseline(baselinePath: string, baseline: BaselineFile): void {
+    const entries = baseline.entries.map(entry => `    ${JSON.stringify(entry)}`).join(',\n');
+    const content = [
+        '{',
+        `  "version": ${baseline.version},`,
+        `  "createdAt": ${JSON.stringify(baseline.createdAt)},`,
+        `  "entries": [${entries ? `\n${entries}\n  ` : ''}]`,
+        '}',
+        ''
+    ].join('\n');
+
+    fs.mkdirSync(path.dirname(baselinePath), { recursive: true });
+    fs.writeFileSync(baselinePath, content, 'utf8');
+}
+
+function findEntryLine(lines: string[], entry: BaselineEntry): number {
+    const fragments = [JSON.stringify(entry.code), JSON.stringify(entry.file), JSON.stringify(entry.messageTemplate)];
+    const line = lines.findIndex(text => fragments.every(fragment => text.includes(fragment)));
+    return Math.max(0, line);
+}
+
+function getEntryKey(entry: Pick<BaselineEntry, 'code' | 'file' | 'messageTemplate'>): string {
+    return JSON.stringify([entry.code, entry.file, entry.messageTemplate]);
+}
+
+function toBaselinePath(folderPath: string, filePath: string): string {
+    return path.relative(folderPath, filePath).replace(/\\/g, '/');
+}
@@ -0,0 +1,458 @@
+import * as vscode from 'vscode';
+import { LoggingInsight, Location, ParameterInconsistency } from '../models/insightViewModel';
+import { DiagnosticCode } from './problemsProvider';
+import { namesMatch, normalizeName, parsePlaceholders, toPlaceholderName } from './utils/messageTemplate';
+import { findProjectDirectory, isInDirectory } from './utils/solutionDetector';
+
+/**
+ * Source of the diagnostics published by ProblemsProvider
+ */
+const DIAGNOSTIC_SOURCE = 'LoggerUsage';
+
+/**
+ * Fix-all action whose edit is computed in resolveCodeAction, only when the user picks it
+ */
+class FixAllPlaceholdersAction extends vscode.CodeAction {
+    constructor(
+        title: string,
+        public readonly scope: 'file' | 'solution',
+        public readonly document: vscode.TextDocument
+    ) {
+        super(title, vscode.CodeActionKind.QuickFix);
+    }
+}
+
+/**
+ * Quick fixes for Logger Usage diagnostics:
+ * - LU001 (template placeholder matches no argument): rename the placeholder to the argument,
+ *   or to the spelling used most often in the workspace; fix all in file or solution
+ * - LU002 (missing EventId): add the next EventId not used in the project
+ */
+export class LoggingCodeActionProvider implements vscode.CodeActionProvider {
+    public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    /**
+     * @param getInsights Gets the insights of the last analysis
+     */
+    constructor(private readonly getInsights: () => LoggingInsight[]) {}
+
+    public provideCodeActions(
+        document: vscode.TextDocument,
+        _range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        const actions: vscode.CodeAction[] = [];
+        let hasNameMismatch = false;
+
+        for (const diagnostic of context.diagnostics) {
+            if (diagnostic.source !== DIAGNOSTIC_SOURCE) {
+                continue;
+            }
+
+            switch (diagnostic.code) {
+                case DiagnosticCode.ParameterNameMismatch: {
+                    const placeholder = getMismatchedPlaceholder(diagnostic.message);
+                    const insight = placeholder ? this.findInsight(document, diagnostic, 'NameMismatch') : undefined;
+                    if (placeholder && insight) {
+                        hasNameMismatch = true;
+                        actions.push(...this.createPlaceholderFixes(document, diagnostic, insight, placeholder));
+                    }
+                    break;
+                }
+
+                case DiagnosticCode.MissingEventId: {
+                    const insight = this.findInsight(document, diagnostic, 'MissingEventId');
+                    const action = insight ? this.createEventIdFix(document, diagnostic, insight) : null;
+                    if (action) {
+                        actions.push(action);
+                    }
+                    break;
+                }
+            }
+        }
+
+        if (hasNameMismatch) {
+            actions.push(
+                new FixAllPlaceholdersAction('Fix all placeholder name mismatches in file', 'file', document),
+                new FixAllPlaceholdersAction('Fix all placeholder name mismatches in solution', 'solution', document)
+            );
+        }
+
+        return actions;
+    }
+
+    public async resolveCodeAction(action: vscode.CodeAction): Promise<vscode.CodeAction> {
+        if (action instanceof FixAllPlaceholdersAction) {
+            action.edit = await this.createFixAllEdit(action.scope, action.document);
+        }
+
+        return action;
+    }
+
+    // ==================== Private Methods ====================
+
+    /**
+     * Finds the insight a diagnostic was reported for
+     */
+    private findInsight(
+        document: vscode.TextDocument,
+        diagnostic: vscode.Diagnostic,
+        type: ParameterInconsistency['type']
+    ): LoggingInsight | undefined {
+        return this.getInsights().find(insight =>
+            vscode.Uri.file(insight.location.filePath).fsPath === document.uri.fsPath &&
+            (insight.inconsistencies ?? []).some(inconsistency =>
+                inconsistency.type === type &&
+                inconsistency.message === diagnostic.message &&
+                (inconsistency.location ?? insight.location).startLine === diagnostic.range.start.line
+            )
+        );
+    }
+
+    /**
+     * Creates the quick fixes for one mismatched placeholder
+     */
+    private createPlaceholderFixes(
+        document: vscode.TextDocument,
+        diagnostic: vscode.Diagnostic,
+        insight: LoggingInsight,
+        placeholder: string
+    ): vscode.CodeAction[] {
+        const ranges = findPlaceholderRanges(document, insight.location, placeholder);
+        if (ranges.length === 0) {
+            return [];
+        }
+
+        const actions: vscode.CodeAction[] = [];
+        const createAction = (title: string, newName: string, isPreferred: boolean) => {
+            const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+            action.edit = new vscode.WorkspaceEdit();
+            ranges.forEach(range => action.edit!.replace(document.uri, range, newName));
+            action.diagnostics = [diagnostic];
+            action.isPreferred = isPreferred;
+            actions.push(action);
+        };
+
+        const candidates = findArgumentsForPlaceholder(insight, placeholder);
+        for (const argument of candidates) {
+            const newName = toPlaceholderName(argument);
+            createAction(
+                `Rename template placeholder '{${placeholder}}' to '{${newName}}' to match argument '${argument}'`,
+                newName,
+                candidates.length === 1
+            );
+        }
+
+        const commonName = findMostCommonName(placeholder, candidates.length === 1 ? candidates[0] : undefined, this.getInsights());
+        if (commonName) {
+            createAction(
+                `Rename placeholder '{${placeholder}}' to the workspace's most common name '{${commonName}}'`,
+                commonName,
+                false
+            );
+        }
+
+        return actions;
+    }
+
+    /**
+     * Creates the fix adding an EventId to a logging statement, numbered after the highest
+     * EventId of the project and named after the enclosing method
+     */
+    private createEventIdFix(
+        document: vscode.TextDocument,
+        diagnostic: vscode.Diagnostic,
+        insight: LoggingInsight
+    ): vscode.CodeAction | null {
+        const projectDirectory = findProjectDirectory(insight.location.filePath);
+        const projectInsights = this.getInsights().filter(other =>
+            !projectDirectory || isInDirectory(other.location.filePath, projectDirectory)
+        );
+        const id = getNextEventId(projectInsights);
+
+        let title: string;
+        let textEdit: vscode.TextEdit | null;
+        if (insight.methodType === 'LoggerMessageAttribute') {
+            // The source generator names the event after the method
+            title = `Add EventId = ${id}`;
+            textEdit = createLoggerMessageEventIdEdit(document, insight.location, id);
+        } else if (insight.methodType === 'LoggerExtension') {
+            const methodName = findEnclosingMethodName(document, insight.location.startLine);
+            const eventId = methodName
+                ? `new EventId(${id}, "${getUniqueEventName(methodName, projectInsights)}")`
+                : `new EventId(${id})`;
+            title = `Add ${eventId}`;
+            textEdit = createLoggerExtensionEventIdEdit(document, insight.location, eventId);
+        } else {
+            return null;
+        }
+
+        if (!textEdit) {
+            return null;
+        }
+
+        const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+        action.edit = new vscode.WorkspaceEdit();
+        action.edit.set(document.uri, [textEdit]);
+        action.diagnostics = [diagnostic];
+        action.isPreferred = true;
+        return action;
+    }
+
+    /**
+     * Renames every mismatched placeholder in scope that has exactly one matching argument
+     */
+    private async createFixAllEdit(scope: 'file' | 'solution', document: vscode.TextDocument): Promise<vscode.WorkspaceEdit> {
+        const edit = new vscode.WorkspaceEdit();
+        const insights = this.getInsights().filter(insight =>
+            (insight.inconsistencies ?? []).some(i => i.type === 'NameMismatch') &&
+            (scope === 'solution' || vscode.Uri.file(insight.location.filePath).fsPath === document.uri.fsPath)
+        );
+
+        const documents = new Map<string, vscode.TextDocument>([[document.uri.fsPath, document]]);
+        const editedRanges = new Set<string>();
+
+        for (const insight of insights) {
+            const uri = vscode.Uri.file(insight.location.filePath);
+            let target = documents.get(uri.fsPath);
+            if (!target) {
+                try {
+                    target = await vscode.workspace.openTextDocument(uri);
+                } catch {
+                    // Deleted since the analysis
+                    continue;
+                }
+                documents.set(uri.fsPath, target);
+            }
+
+            for (const inconsistency of insight.inconsistencies ?? []) {
+                const placeholder = inconsistency.type === 'NameMismatch' ? getMismatchedPlaceholder(inconsistency.message) : null;
+                const candidates = placeholder ? findArgumentsForPlaceholder(insight, placeholder) : [];
+                if (!placeholder || candidates.length !== 1) {
+                    continue;
+                }
+
+                for (const range of findPlaceholderRanges(target, insight.location, placeholder)) {
+                    const key = `${uri.fsPath}:${range.start.line}:${range.start.character}`;
+                    if (!editedRanges.has(key)) {
+                        editedRanges.add(key);
+                        edit.replace(uri, range, toPlaceholderName(candidates[0]));
+                    }
+                }
+            }
+        }
+
+        return edit;
+    }
+}
+
+/**
+ * Gets the placeholder named by an LU001 message ("Template parameter '{Name}' does not match ...")
+ */
+export function getMismatchedPlaceholder(message: string): string | null {
+    const match = /'\{(.+?)\}'/.exec(message);
+    return match ? match[1] : null;
+}
+
+/**
+ * Finds the arguments a mismatched placeholder may have been meant for: the argument at the same
+ * position among the unmatched ones when placeholders and arguments pair up, otherwise every
+ * argument no placeholder refers to.
+ */
+export function findArgumentsForPlaceholder(insight: LoggingInsight, placeholder: string): string[] {
+    const placeholders = [...new Set(parsePlaceholders(insight.messageTemplate).map(p => p.name))];
+    // Names in angle brackets are references, not argument names
+    const argumentNames = insight.parameters.filter(p => !p.startsWith('<'));
+
+    const unmatchedArguments = argumentNames.filter(a => !placeholders.some(p => namesMatch(p, a)));
+    const unmatchedPlaceholders = placeholders.filter(p => !argumentNames.some(a => namesMatch(p, a)));
+
+    const position = unmatchedPlaceholders.indexOf(placeholder);
+    if (position !== -1 && unmatchedPlaceholders.length === unmatchedArguments.length) {
+        return [unmatchedArguments[position]];
+    }
+
+    return unmatchedArguments;
+}
+
+/**
+ * Finds the spelling of a placeholder used most often across the workspace, considering
+ * placeholders that only differ in case or punctuation from the placeholder or its argument
+ *
+ * @returns The most common spelling, or null if that is the placeholder itself
+ */
+export function findMostCommonName(placeholder: string, argument: string | undefined, insights: LoggingInsight[]): string | null {
+    const keys = new Set([normalizeName(placeholder)]);
+    if (argument) {
+        keys.add(normalizeName(argument));
+    }
+
+    const counts = new Map<string, number>();
+    for (const insight of insights) {
+        for (const { name } of parsePlaceholders(insight.messageTemplate)) {
+            if (keys.has(normalizeName(name))) {
+                counts.set(name, (counts.get(name) ?? 0) + 1);
+            }
+        }
+    }
+
+    let mostCommon: string | null = null;
+    let mostCommonCount = 0;
+    for (const [name, count] of counts) {
+        if (count > mostCommonCount) {
+            mostCommon = name;
+            mostCommonCount = count;
+        }
+    }
+
+    return mostCommon !== placeholder ? mostCommon : null;
+}
+
+/**
+ * Finds the name of a placeholder in the source of a logging statement
+ */
+export function findPlaceholderRanges(document: vscode.TextDocument, location: Location, placeholder: string): vscode.Range[] {
+    const escaped = placeholder.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    // An odd number of braces opens a placeholder; pairs are escaped braces
+    const pattern = new RegExp(`(?<=(?:^|[^{])(?:\\{\\{)*)\\{[@$]?(${escaped})(?=\\s*[,:}])`, 'g');
+    const ranges: vscode.Range[] = [];
+
+    for (const line of getStatementLines(document, location)) {
+        if (ranges.length > 0 && line < location.startLine) {
+            break;
+        }
+
+        const text = document.lineAt(line).text;
+        for (const match of text.matchAll(pattern)) {
+            const start = match.index! + match[0].length - placeholder.length;
+            ranges.push(new vscode.Range(line, start, line, start + placeholder.length));
+        }
+    }
+
+    return ranges;
+}
+
+/**
+ * Gets the document lines of a logging statement, first to last (location lines are 0-based)
+ */
+export function getStatementLines(document: vscode.TextDocument, location: Location): number[] {
+    const last = Math.min(document.lineCount - 1, Math.max(location.endLine, location.startLine));
+
+    const lines: number[] = [];
+    for (let line = location.startLine; line <= last; line++) {
+        lines.push(line);
+    }
+    return lines;
+}
+
+/**
+ * Gets the EventId following the highest one in use
+ */
+export function getNextEventId(insights: LoggingInsight[]): number {
+    const ids = insights
+        .map(insight => insight.eventId?.id)
+        .filter((id): id is number => typeof id === 'number');
+
+    return ids.length > 0 ? Math.max(...ids) + 1 : 1;
+}
+
+/**
+ * Gets an event name not used yet, numbering repeated names (`SaveOrder`, `SaveOrder2`, ...)
+ */
+export function getUniqueEventName(name: string, insights: LoggingInsight[]): string {
+    const usedNames = new Set(insights.map(insight => insight.eventId?.name).filter(n => !!n));
+
+    let candidate = name;
+    for (let suffix = 2; usedNames.has(candidate); suffix++) {
+        candidate = `${name}${suffix}`;
+    }
+    return candidate;
+}
+
+/**
+ * Finds the name of the method declared closest above a line
+ */
+export function findEnclosingMethodName(document: vscode.TextDocument, line: number): string | null {
+    const declaration = /^\s*(?:(?:public|private|protected|internal|static|async|override|virtual|sealed|partial|extern|unsafe)\s+)+(?:[\w<>[\],.?\s]*?\s)?(\w+)\s*(?:<[^>()]*>)?\s*\(/;
+
+    for (let current = Math.min(line, document.lineCount - 1); current >= 0; current--) {
+        const match = declaration.exec(document.lineAt(current).text);
+        if (match) {
+            return match[1];
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Creates the insertion of an EventId as first argument of a `Log{Level}(...)` call,
+ * or after the level of a `Log(LogLevel, ...)` call
+ */
+export function createLoggerExtensionEventIdEdit(
+    document: vscode.TextDocument,
+    location: Location,
+    eventId: string
+): vscode.TextEdit | null {
+    const call = /\.Log(?:Trace|Debug|Information|Warning|Error|Critical)\s*\(|\.Log\s*\(\s*[\w.]+\s*,\s*/;
+
+    for (const line of getStatementLines(document, location)) {
+        const match = call.exec(document.lineAt(line).text);
+        if (match) {
+            return vscode.TextEdit.insert(new vscode.Position(line, match.index + match[0].length), `${eventId}, `);
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Creates the insertion of `EventId = id` into a `[LoggerMessage]` attribute. Named arguments
+ * must follow positional ones, so after positional arguments it is appended instead.
+ */
+export function createLoggerMessageEventIdEdit(
+    document: vscode.TextDocument,
+    location: Location,
+    id: number
+): vscode.TextEdit | null {
+    const attribute = /(?<=[[,]\s*)LoggerMessage(?:Attribute)?\b(\s*\()?/;
+    const lines = getStatementLines(document, location);
+
+    for (const line of lines) {
+        const text = document.lineAt(line).text;
+        const match = attribute.exec(text);
+        if (!match) {
+            continue;
+        }
+
+        const end = match.index + match[0].length;
+        if (!match[1]) {
+            // [LoggerMessage] without arguments
+            return vscode.TextEdit.insert(new vscode.Position(line, end), `(EventId = ${id})`);
+        }
+
+        // The first argument may be on the next line
+        let firstArgument = text.substring(end).trim();
+        if (!firstArgument && line + 1 < document.lineCount) {
+            firstArgument = document.lineAt(line + 1).text.trim();
+        }
+
+        if (firstArgument.startsWith(')')) {
+            return vscode.TextEdit.insert(new vscode.Position(line, end), `EventId = ${id}`);
+        }
+        if (/^\w+\s*=(?!=)/.test(firstArgument)) {
+            return vscode.TextEdit.insert(new vscode.Position(line, end), `EventId = ${id}, `);
+        }
+
+        // Positional arguments: append before the closing parenthesis of the attribute
+        for (let current = line; current < document.lineCount && current <= Math.max(line, location.endLine); current++) {
+            const closing = document.lineAt(current).text.search(/\)\s*\]/);
+            if (closing !== -1 && (current > line || closing >= end)) {
+                return vscode.TextEdit.insert(new vscode.Position(current, closing), `, EventId = ${id}`);
+            }
+        }
+        return null;
+    }
+
+    return null;
+}
@@ -0,0 +1,86 @@
+import * as vscode from 'vscode';
+import { LoggingInsight } from '../models/insightViewModel';
+import { toRange, toVscodeLocation } from './utils/insightLocation';
+
+/**
+ * Shows above `[LoggerMessage]` methods and `LoggerMessage.Define` calls how often they are
+ * invoked, with their EventId and level. Clicking the lens peeks the call sites.
+ */
+export class LoggingCodeLensProvider implements vscode.CodeLensProvider, vscode.Disposable {
+    private readonly _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+
+    /**
+     * Event fired when the insights behind the lenses change
+     */
+    public readonly onDidChangeCodeLenses: vscode.Event<void> = this._onDidChangeCodeLenses.event;
+
+    constructor(private readonly getInsights: () => LoggingInsight[]) {}
+
+    /**
+     * Re-renders the lenses from the current insights
+     */
+    public refresh(): void {
+        this._onDidChangeCodeLenses.fire();
+    }
+
+    /**
+     * Provides a lens for each LoggerMessage declaration in the document
+     */
+    public provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+        const fsPath = document.uri.fsPath;
+
+        return this.getInsights()
+            .filter(insight =>
+                (insight.methodType === 'LoggerMessageAttribute' || insight.methodType === 'LoggerMessageDefine') &&
+                vscode.Uri.file(insight.location.filePath).fsPath === fsPath &&
+                insight.location.startLine < document.lineCount
+            )
+            .map(insight => this.createCodeLens(document, insight));
+    }
+
+    /**
+     * Disposes the event emitter
+     */
+    public dispose(): void {
+        this._onDidChangeCodeLenses.dispose();
+    }
+
+    // ==================== Private Methods ====================
+
+    private createCodeLens(document: vscode.TextDocument, insight: LoggingInsight): vscode.CodeLens {
+        const range = toRange(insight.location);
+        const title = formatCodeLensTitle(insight);
+        const invocations = insight.invocations ?? [];
+
+        if (invocations.length === 0) {
+            // A command without id renders as plain text
+            return new vscode.CodeLens(range, { title, command: '' });
+        }
+
+        return new vscode.CodeLens(range, {
+            title,
+            tooltip: 'Show call sites',
+            command: 'editor.action.peekLocations',
+            arguments: [document.uri, range.start, invocations.map(i => toVscodeLocation(i.location)), 'peek']
+        });
+    }
+}
+
+/**
+ * Formats the lens of a LoggerMessage declaration, e.g. `3 invocations · EventId 1001 · Warning`.
+ * The count is left out when the bridge does not report call sites, as for `LoggerMessage.Define`.
+ */
+export function formatCodeLensTitle(insight: LoggingInsight): string {
+    const parts: string[] = [];
+
+    if (insight.invocations) {
+        const count = insight.invocations.length;
+        parts.push(`${count} ${count === 1 ? 'invocation' : 'invocations'}`);
+    }
+
+    const eventId = insight.eventId?.id;
+    parts.push(eventId === null || eventId === undefined ? 'No EventId' : `EventId ${eventId}`);
+    parts.push(insight.logLevel ?? 'Dynamic level');
+
+    return parts.join(' · ');
+}
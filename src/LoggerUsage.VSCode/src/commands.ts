@@ -1,20 +1,52 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import { AnalysisService } from './analysisService';
+import { AnalysisService, BridgeStatus } from './analysisService';
+import { BASELINE_FILE, createBaseline, writeBaseline } from './baseline';
 import { Configuration } from './configuration';
-import { LoggingInsight } from '../models/insightViewModel';
+import { LoggingInsight, LogHitCounts } from '../models/insightViewModel';
+import { AnalysisPartialResult } from '../models/ipcMessages';
+import { ExtensionToWebviewMessage } from '../models/webviewMessages';
+import { InsightCache } from './insightCache';
+import { getHitStatus, getLogMatchKey, LogDataset, matchLogDataset, readLogDataset } from './logImport';
+import { findLogLineSources } from './logLineSource';
+import { findEventIdUsages } from './referenceProvider';
+import { showInReferencesView } from './referencesView';
 import { getSolutionState } from './state/SolutionState';
-import { SolutionInfo } from './utils/solutionDetector';
+import { findInsightAtLine, toRange, toVscodeLocation } from './utils/insightLocation';
+import { findSourceFiles, SolutionInfo } from './utils/solutionDetector';
 
 /**
  * Command handler implementations for Logger Usage extension
  */
 export class Commands {
     private currentInsights: LoggingInsight[] = [];
+    // Files re-analyzed while a workspace analysis is running. Their results are newer
+    // than what the workspace analysis reports for them, so they win when it completes.
+    private filesAnalyzedDuringWorkspaceAnalysis: Map<string, LoggingInsight[]> | null = null;
     private insightsPanel: vscode.WebviewPanel | null = null;
     private treeViewProvider: any = null; // Will be properly typed when implemented
     private problemsProvider: any = null; // Will be properly typed when implemented
+    private insightCache: InsightCache | null = null;
+    private logDatasets: LogDataset[] = [];
+    private logDataset: LogDataset | null = null;
+    private logHits: LogHitCounts | null = null;
+    /** Match key of the insights the hit counts were matched against, see getLogMatchKey */
+    private logHitsKey: string | null = null;
+    private readonly _onDidChangeInsights = new vscode.EventEmitter<LoggingInsight[]>();
+
+    /**
+     * Event fired after the current insights changed and the providers were updated
+     */
+    public readonly onDidChangeInsights: vscode.Event<LoggingInsight[]> = this._onDidChangeInsights.event;
+
+    private readonly _onDidChangeLogHits = new vscode.EventEmitter<LogHitCounts | null>();
+
+    /**
+     * Event fired after the hit counts from imported log files changed: another dataset was
+     * imported or selected, or the insights changed
+     */
+    public readonly onDidChangeLogHits: vscode.Event<LogHitCounts | null> = this._onDidChangeLogHits.event;
 
     constructor(
         private readonly analysisService: AnalysisService,
@@ -42,6 +74,13 @@ export class Commands {
         this.problemsProvider = provider;
     }
 
+    /**
+     * Sets the insight cache used to persist results between sessions (called from extension.ts)
+     */
+    public setInsightCache(cache: InsightCache | null): void {
+        this.insightCache = cache;
+    }
+
     /**
      * Gets the current insights
      */
@@ -49,6 +88,13 @@ export class Commands {
         return this.currentInsights;
     }
 
+    /**
+     * Gets the hit counts from the imported log files, or null when none are imported
+     */
+    public getLogHits(): LogHitCounts | null {
+        return this.logHits;
+    }
+
     /**
      * Command: loggerUsage.analyze
      * Triggers full workspace analysis
@@ -79,6 +125,8 @@ export class Commands {
             }
 
             this.outputChannel.appendLine(`Starting analysis of: ${solutionPath}`);
+            this.filesAnalyzedDuringWorkspaceAnalysis = new Map();
+            const analyzedFiles = new Set<string>();
 
             // Run analysis with progress notification
             await vscode.window.withProgress({
@@ -98,17 +146,30 @@ export class Commands {
                             increment: progressInfo.percentage
                         });
                     },
-                    token
+                    token,
+                    (partial) => {
+                        partial.analyzedFiles.forEach(f => analyzedFiles.add(f));
+                        this.applyPartialResult(partial);
+                    }
                 );
 
-                // Convert result to insights
-                this.currentInsights = this.convertToInsights(result.result.insights);
+                // Convert result to insights, keeping fresher results of files re-analyzed meanwhile
+                this.currentInsights = this.mergeFilesAnalyzedDuringWorkspaceAnalysis(
+                    this.convertToInsights(result.result.insights)
+                );
 
                 this.outputChannel.appendLine(`Analysis complete. Found ${this.currentInsights.length} logging statements.`);
 
                 // Update providers
                 this.updateProviders();
 
+                // Persist for the next session; files re-analyzed meanwhile are part of the result too
+                progress.report({ message: 'Saving results...' });
+                for (const filePath of this.filesAnalyzedDuringWorkspaceAnalysis?.keys() ?? []) {
+                    analyzedFiles.add(filePath);
+                }
+                await this.updateCache(cache => cache.save(solutionPath, this.currentInsights, analyzedFiles));
+
                 // Show success message
                 vscode.window.showInformationMessage(
                     `Analysis complete: ${this.currentInsights.length} logging statements found.`
@@ -116,8 +177,17 @@ export class Commands {
             });
 
         } catch (error) {
+            if (error instanceof vscode.CancellationError) {
+                // User cancelled - the bridge has been told to stop, nothing to report.
+                // Projects streamed before the cancellation stay in the current insights.
+                this.outputChannel.appendLine('Analysis cancelled.');
+                return;
+            }
+
             this.outputChannel.appendLine(`Analysis failed: ${error}`);
             vscode.window.showErrorMessage(`Analysis failed: ${error instanceof Error ? error.message : String(error)}`);
+        } finally {
+            this.filesAnalyzedDuringWorkspaceAnalysis = null;
         }
     }
 
@@ -296,20 +366,10 @@ export class Commands {
             const doc = await vscode.workspace.openTextDocument(uri);
             const editor = await vscode.window.showTextDocument(doc);
 
-            // Set cursor position and reveal (convert from 1-based to 0-based, ensure non-negative)
-            const position = new vscode.Position(
-                Math.max(0, insight.location.startLine - 1),
-                Math.max(0, insight.location.startColumn - 1)
-            );
-            const range = new vscode.Range(
-                position,
-                new vscode.Position(
-                    Math.max(0, insight.location.endLine - 1),
-                    Math.max(0, insight.location.endColumn - 1)
-                )
-            );
+            // Set cursor position and reveal
+            const range = toRange(insight.location);
 
-            editor.selection = new vscode.Selection(position, position);
+            editor.selection = new vscode.Selection(range.start, range.start);
             editor.revealRange(range, vscode.TextEditorRevealType.InCenter);
 
         } catch (error) {
@@ -317,6 +377,208 @@ export class Commands {
         }
     }
 
+    /**
+     * Command: loggerUsage.showEventIdUsages
+     * Lists every statement logging the EventId of an insight in the References view
+     */
+    public async showEventIdUsages(insightId: string): Promise<void> {
+        const insight = this.currentInsights.find(i => i.id === insightId);
+        const eventId = insight?.eventId?.id;
+
+        if (!insight || eventId === null || eventId === undefined) {
+            vscode.window.showErrorMessage(`Insight not found: ${insightId}`);
+            return;
+        }
+
+        await this.showEventIdUsagesOf(eventId, toVscodeLocation(insight.location));
+    }
+
+    /**
+     * Command: loggerUsage.findEventIdUsages
+     * Lists the statements logging an EventId in the References view: the EventId of the statement
+     * at the cursor, or one picked from the EventIds used in the solution
+     */
+    public async findEventIdUsages(): Promise<void> {
+        if (this.currentInsights.length === 0) {
+            vscode.window.showWarningMessage('No analysis results. Run "Logger Usage: Analyze Workspace" first.');
+            return;
+        }
+
+        const editor = vscode.window.activeTextEditor;
+        const insightAtCursor = editor
+            ? findInsightAtLine(this.currentInsights, editor.document.uri.fsPath, editor.selection.active.line)
+            : undefined;
+
+        let eventId = insightAtCursor?.eventId?.id ?? null;
+        if (eventId === null) {
+            eventId = await this.pickEventId();
+            if (eventId === null) {
+                return;
+            }
+        }
+
+        const origin = insightAtCursor?.eventId?.id === eventId ? insightAtCursor : findEventIdUsages(this.currentInsights, eventId)[0];
+        await this.showEventIdUsagesOf(eventId, toVscodeLocation(origin.location));
+    }
+
+    /**
+     * Command: loggerUsage.findLogLineSource
+     * Finds the statements whose message template could have rendered a pasted log line, lists
+     * them with the values of their placeholders and opens the chosen one
+     */
+    public async findLogLineSource(): Promise<void> {
+        if (this.currentInsights.length === 0) {
+            vscode.window.showWarningMessage('No analysis results. Run "Logger Usage: Analyze Workspace" first.');
+            return;
+        }
+
+        const editor = vscode.window.activeTextEditor;
+        const selectedText = editor && !editor.selection.isEmpty ? editor.document.getText(editor.selection) : '';
+        const line = await vscode.window.showInputBox({
+            title: 'Find Source of Log Line',
+            prompt: 'Paste a log line as it was written, e.g. "Order 12345 failed after 3 retries"',
+            value: selectedText.split(/\r?\n/)[0].trim(),
+            ignoreFocusOut: true
+        });
+
+        if (!line?.trim()) {
+            return;
+        }
+
+        const sources = findLogLineSources(this.currentInsights, line);
+        if (sources.length === 0) {
+            vscode.window.showInformationMessage(`No message template matches "${line.trim()}".`);
+            return;
+        }
+
+        const items = sources.map(source => ({
+            label: source.insight.messageTemplate,
+            description: `${vscode.workspace.asRelativePath(source.insight.location.filePath)}:${source.insight.location.startLine + 1}`,
+            detail: [
+                source.exact ? 'Whole line' : `${Math.round(source.coverage * 100)}% of line`,
+                ...source.values.map(v => `${v.name || '{}'} = ${v.value}`)
+            ].join(' · '),
+            source
+        }));
+
+        const picked = await vscode.window.showQuickPick(items, {
+            placeHolder: `${sources.length} ${sources.length === 1 ? 'statement' : 'statements'} may have logged this line`,
+            matchOnDescription: true,
+            matchOnDetail: true
+        });
+
+        if (picked) {
+            const location = toVscodeLocation(picked.source.insight.location);
+            await vscode.window.showTextDocument(location.uri, { selection: location.range });
+        }
+    }
+
+    /**
+     * Command: loggerUsage.importLogs
+     * Reads JSON log files and shows how many of their entries each statement wrote in the tree
+     * view, insights panel and editors. The files become the active dataset; datasets imported
+     * before can be selected again with loggerUsage.selectLogDataset
+     */
+    public async importLogs(): Promise<void> {
+        const uris = await vscode.window.showOpenDialog({
+            canSelectMany: true,
+            title: 'Import Log Files',
+            openLabel: 'Import',
+            filters: {
+                'JSON Logs': ['json', 'jsonl', 'ndjson', 'clef', 'log', 'txt'],
+                'All Files': ['*']
+            }
+        });
+
+        if (!uris || uris.length === 0) {
+            return;
+        }
+
+        try {
+            const dataset = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Importing log files'
+            }, () => readLogDataset(uris.map(uri => uri.fsPath)));
+
+            if (dataset.entryCount === 0) {
+                vscode.window.showWarningMessage(`No JSON log entries found in ${dataset.name}.`);
+                return;
+            }
+
+            // Importing the same files again replaces their dataset
+            const key = dataset.files.join('|');
+            this.logDatasets = [...this.logDatasets.filter(d => d.files.join('|') !== key), dataset];
+            this.logDataset = dataset;
+            this.updateLogHits();
+
+            const hits = this.logHits!;
+            const statuses = Object.keys(hits.counts).map(id => getHitStatus(hits, id));
+            let message = `Imported ${dataset.entryCount.toLocaleString()} log entries from ${dataset.name}: ` +
+                `${hits.matchedEntries.toLocaleString()} matched a logging statement, ` +
+                `${statuses.filter(s => s === 'dead').length} statements never fired and ${statuses.filter(s => s === 'hot').length} are hot.`;
+            if (dataset.invalidLines > 0) {
+                message += ` ${dataset.invalidLines.toLocaleString()} lines were not JSON log entries.`;
+            }
+            if (this.currentInsights.length === 0) {
+                message += ' Run "Logger Usage: Analyze Workspace" to match them to logging statements.';
+            }
+            vscode.window.showInformationMessage(message);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to import log files: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Command: loggerUsage.clearImportedLogs
+     * Forgets all imported log files and hides their hit counts
+     */
+    public async clearImportedLogs(): Promise<void> {
+        this.logDatasets = [];
+        this.logDataset = null;
+        this.updateLogHits();
+    }
+
+    /**
+     * Command: loggerUsage.selectLogDataset
+     * Chooses which of the imported log datasets the hit counts and volumes are shown for
+     */
+    public async selectLogDataset(): Promise<void> {
+        if (this.logDatasets.length === 0) {
+            vscode.window.showInformationMessage('No log files imported. Run "Logger Usage: Import Log Files" first.');
+            return;
+        }
+
+        const items = this.logDatasets.map(dataset => ({
+            label: dataset.name,
+            description: `${dataset.entryCount.toLocaleString()} entries${dataset === this.logDataset ? ' · active' : ''}`,
+            detail: dataset.files.map(file => vscode.workspace.asRelativePath(file)).join(', '),
+            dataset
+        }));
+
+        const picked = await vscode.window.showQuickPick(items, {
+            placeHolder: 'Select the log dataset to show hit counts and volumes for',
+            matchOnDetail: true
+        });
+
+        if (picked && picked.dataset !== this.logDataset) {
+            this.logDataset = picked.dataset;
+            this.updateLogHits();
+        }
+    }
+
+    /**
+     * Command: loggerUsage.revealInInsightsPanel
+     * Opens the insights panel and highlights an insight
+     */
+    public async revealInInsightsPanel(insightId: string): Promise<void> {
+        await this.showInsightsPanel();
+
+        if (this.insightsPanel) {
+            const message: ExtensionToWebviewMessage = { command: 'revealInsight', insightId };
+            this.insightsPanel.webview.postMessage(message);
+        }
+    }
+
     /**
      * Command: loggerUsage.refreshTreeView
      * Triggers tree view refresh
@@ -330,6 +592,131 @@ export class Commands {
         }
     }
 
+    /**
+     * Command: loggerUsage.showBridgeStatus
+     * Shows health information of the analysis bridge process
+     */
+    public async showBridgeStatus(): Promise<void> {
+        const status = await this.analysisService.refreshBridgeStatus();
+        const details = this.formatBridgeStatus(status);
+
+        this.outputChannel.appendLine('\n=== Bridge Status ===');
+        details.forEach(line => this.outputChannel.appendLine(line));
+        this.outputChannel.appendLine('=====================\n');
+
+        const choice = await vscode.window.showInformationMessage(
+            status.running ? 'Logger Usage bridge is running' : 'Logger Usage bridge is not running',
+            { modal: true, detail: details.join('\n') },
+            'Restart Bridge',
+            'Show Logs'
+        );
+
+        if (choice === 'Restart Bridge') {
+            try {
+                await this.analysisService.restartBridge('requested from bridge status');
+                vscode.window.showInformationMessage('Logger Usage bridge restarted successfully');
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to restart bridge: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        } else if (choice === 'Show Logs') {
+            this.outputChannel.show();
+        }
+    }
+
+    /**
+     * Command: loggerUsage.recordBridgeSession
+     * Starts recording the bridge traffic to a JSONL file, or stops a running recording
+     */
+    public async recordBridgeSession(): Promise<void> {
+        if (this.analysisService.isRecording()) {
+            const recording = await this.analysisService.stopRecording();
+            if (!recording) {
+                return;
+            }
+
+            const choice = await vscode.window.showInformationMessage(
+                `Recorded ${recording.count} bridge messages to ${path.basename(recording.filePath)}`,
+                'Open File'
+            );
+
+            if (choice === 'Open File') {
+                const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(recording.filePath));
+                await vscode.window.showTextDocument(doc);
+            }
+            return;
+        }
+
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+        const saveUri = await vscode.window.showSaveDialog({
+            defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder, `logger-usage-bridge-${timestamp}.jsonl`) : undefined,
+            filters: {
+                'Bridge Session': ['jsonl'],
+                'All Files': ['*']
+            },
+            saveLabel: 'Start Recording'
+        });
+
+        if (!saveUri) {
+            return;
+        }
+
+        try {
+            this.analysisService.startRecording(saveUri.fsPath, error => {
+                vscode.window.showErrorMessage(`Recording bridge session stopped: ${error.message}`);
+            });
+            vscode.window.showInformationMessage(
+                'Recording bridge session. Reproduce the problem, then run "Logger Usage: Record Bridge Session" again to stop.'
+            );
+        } catch (error) {
+            vscode.window.showErrorMessage(`Recording failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Command: loggerUsage.createBaseline
+     * Accepts the currently reported findings into the workspace baseline, so only new ones are shown
+     */
+    public async createBaseline(): Promise<void> {
+        if (this.currentInsights.length === 0 || !this.problemsProvider || typeof this.problemsProvider.getFindings !== 'function') {
+            vscode.window.showWarningMessage('No analysis results to create a baseline from. Run "Logger Usage: Analyze Workspace" first.');
+            return;
+        }
+
+        const solutionPath = getSolutionState().getActiveSolutionPath();
+        const workspaceFolder = (solutionPath ? vscode.workspace.getWorkspaceFolder(vscode.Uri.file(solutionPath)) : undefined)
+            ?? vscode.workspace.workspaceFolders?.[0];
+        if (!workspaceFolder) {
+            vscode.window.showErrorMessage('Open a workspace folder to create a baseline.');
+            return;
+        }
+
+        // Re-publish first, so findings already in the old baseline are part of the new one
+        this.problemsProvider.updateInsights(this.currentInsights);
+
+        const baselinePath = path.join(workspaceFolder.uri.fsPath, BASELINE_FILE);
+        try {
+            const baseline = createBaseline(workspaceFolder.uri.fsPath, this.problemsProvider.getFindings());
+            writeBaseline(baselinePath, baseline);
+            this.problemsProvider.updateInsights(this.currentInsights);
+
+            const findingCount = baseline.entries.reduce((sum, entry) => sum + entry.count, 0);
+            this.outputChannel.appendLine(`Baseline with ${findingCount} findings written to ${baselinePath}`);
+
+            const choice = await vscode.window.showInformationMessage(
+                `Baselined ${findingCount} findings in ${BASELINE_FILE}. Commit it to hide them for everyone.`,
+                'Open File'
+            );
+
+            if (choice === 'Open File') {
+                const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(baselinePath));
+                await vscode.window.showTextDocument(doc);
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Creating the baseline failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
     /**
      * Command: loggerUsage.analyzeFile
      * Analyzes a single file (incremental)
@@ -359,6 +746,8 @@ export class Commands {
             const newInsights = this.convertToInsights(result.result.insights);
 
             this.currentInsights = [...otherInsights, ...newInsights];
+            this.filesAnalyzedDuringWorkspaceAnalysis?.set(fileUri.fsPath, newInsights);
+            await this.updateCache((cache, solution) => cache.updateFiles(solution, new Map([[fileUri.fsPath, newInsights]]), []));
 
             this.outputChannel.appendLine(`File analysis complete. Found ${newInsights.length} logging statements in file.`);
 
@@ -366,11 +755,130 @@ export class Commands {
             this.updateProviders();
 
         } catch (error) {
+            if (error instanceof vscode.CancellationError) {
+                // Dropped from the queue because a queued workspace analysis covers the file
+                this.outputChannel.appendLine(`File analysis skipped, workspace analysis pending: ${fileUri.fsPath}`);
+                return;
+            }
+
             this.outputChannel.appendLine(`File analysis failed: ${error}`);
             // Don't show error to user for incremental analysis (less disruptive)
         }
     }
 
+    /**
+     * Shows the cached insights of the active solution from the previous session,
+     * then re-analyzes the files that changed since they were cached and the files
+     * the cache does not know
+     */
+    public async restoreFromCache(): Promise<void> {
+        const solutionPath = getSolutionState().getActiveSolutionPath();
+        if (!this.insightCache || !solutionPath || !Configuration.getCacheInsights()) {
+            return;
+        }
+
+        try {
+            const cached = await this.insightCache.load(solutionPath);
+            if (!cached) {
+                this.outputChannel.appendLine(`No cached insights for: ${solutionPath}`);
+                return;
+            }
+
+            this.currentInsights = Object.values(cached.files).flatMap(f => f.insights);
+            this.updateProviders();
+
+            this.outputChannel.appendLine(
+                `Restored ${this.currentInsights.length} logging statements from cache (analyzed ${new Date(cached.savedAt).toLocaleString()})`
+            );
+
+            const sourceFiles = await findSourceFiles(solutionPath, Configuration.getExcludePatterns());
+            const stale = await this.insightCache.findStaleFiles(cached, sourceFiles);
+            if (stale.changed.length === 0 && stale.added.length === 0 && stale.deleted.length === 0) {
+                return;
+            }
+
+            this.outputChannel.appendLine(
+                `${stale.changed.length} file(s) changed, ${stale.added.length} added and ${stale.deleted.length} deleted since the cached analysis, re-analyzing them`
+            );
+            await this.analyzeFiles(
+                [...stale.changed, ...stale.added].map(f => vscode.Uri.file(f)),
+                stale.deleted.map(f => vscode.Uri.file(f))
+            );
+        } catch (error) {
+            this.outputChannel.appendLine(`Failed to restore cached insights: ${error}`);
+        }
+    }
+
+    /**
+     * Re-analyzes a batch of changed files in one bridge request and drops insights of deleted files
+     */
+    public async analyzeFiles(changedUris: vscode.Uri[], deletedUris: vscode.Uri[] = []): Promise<void> {
+        // Deleted files have no insights left, no need to wait for the bridge
+        for (const uri of deletedUris) {
+            await this.removeFileInsights(uri);
+        }
+
+        if (changedUris.length === 0) {
+            return;
+        }
+
+        const solutionState = getSolutionState();
+        const solutionPath = solutionState.getActiveSolutionPath();
+
+        if (!solutionPath) {
+            // No active solution, trigger full analysis
+            await this.analyze();
+            return;
+        }
+
+        const filePaths = changedUris.map(uri => uri.fsPath);
+
+        try {
+            this.outputChannel.appendLine(`Analyzing ${filePaths.length} changed file(s)`);
+
+            // Deleted files go along so the bridge compiles the remaining files without them
+            const result = await this.analysisService.analyzeFiles(
+                filePaths,
+                deletedUris.map(uri => uri.fsPath),
+                solutionPath
+            );
+
+            // Update only insights from the changed files
+            const files = result.result.files ?? {};
+            const changedFiles = new Set(filePaths);
+            const newInsights: LoggingInsight[] = [];
+            const insightsByFile = new Map<string, LoggingInsight[]>();
+            for (const filePath of filePaths) {
+                const fileInsights = this.convertToInsights(files[filePath] ?? []);
+                newInsights.push(...fileInsights);
+                insightsByFile.set(filePath, fileInsights);
+                this.filesAnalyzedDuringWorkspaceAnalysis?.set(filePath, fileInsights);
+            }
+
+            this.currentInsights = [
+                ...this.currentInsights.filter(i => !changedFiles.has(i.location.filePath)),
+                ...newInsights
+            ];
+
+            await this.updateCache((cache, solution) => cache.updateFiles(solution, insightsByFile, []));
+
+            this.outputChannel.appendLine(`Batch analysis complete. Found ${newInsights.length} logging statements in ${filePaths.length} file(s).`);
+
+            // Update providers
+            this.updateProviders();
+
+        } catch (error) {
+            if (error instanceof vscode.CancellationError) {
+                // Dropped from the queue because a queued workspace analysis covers the files
+                this.outputChannel.appendLine(`Batch analysis skipped, workspace analysis pending: ${filePaths.length} file(s)`);
+                return;
+            }
+
+            this.outputChannel.appendLine(`Batch analysis failed: ${error}`);
+            // Don't show error to user for incremental analysis (less disruptive)
+        }
+    }
+
     /**
      * Removes insights for a deleted file
      */
@@ -385,6 +893,8 @@ export class Commands {
 
         const insightsRemoved = insightsBeforeRemoval - this.currentInsights.length;
 
+        await this.updateCache((cache, solution) => cache.updateFiles(solution, new Map(), [filePath]));
+
         if (insightsRemoved > 0) {
             this.outputChannel.appendLine(`Removed ${insightsRemoved} insights from deleted file: ${filePath}`);
 
@@ -400,6 +910,60 @@ export class Commands {
 
     // ==================== Private Helper Methods ====================
 
+    /**
+     * Lists the statements logging an EventId in the References view
+     */
+    private async showEventIdUsagesOf(eventId: number, origin: vscode.Location): Promise<void> {
+        const items = findEventIdUsages(this.currentInsights, eventId).map(insight => ({
+            location: toVscodeLocation(insight.location),
+            label: insight.messageTemplate || insight.methodType
+        }));
+
+        await showInReferencesView(`EventId ${eventId}`, origin, items);
+    }
+
+    /**
+     * Lets the user pick one of the EventIds used in the solution
+     * @returns The EventId, or null if cancelled
+     */
+    private async pickEventId(): Promise<number | null> {
+        const usages = new Map<number, { count: number; names: Set<string> }>();
+        for (const insight of this.currentInsights) {
+            const id = insight.eventId?.id;
+            if (id === null || id === undefined) {
+                continue;
+            }
+
+            const usage = usages.get(id) ?? { count: 0, names: new Set<string>() };
+            usage.count++;
+            if (insight.eventId?.name) {
+                usage.names.add(insight.eventId.name);
+            }
+            usages.set(id, usage);
+        }
+
+        if (usages.size === 0) {
+            vscode.window.showInformationMessage('No EventIds are used in the analyzed solution.');
+            return null;
+        }
+
+        const items = [...usages.entries()]
+            .sort(([a], [b]) => a - b)
+            .map(([id, usage]) => ({
+                label: String(id),
+                description: [...usage.names].join(', '),
+                detail: `${usage.count} ${usage.count === 1 ? 'usage' : 'usages'}`,
+                eventId: id
+            }));
+
+        const picked = await vscode.window.showQuickPick(items, {
+            placeHolder: 'Select an EventId to find its usages',
+            matchOnDescription: true
+        });
+
+        return picked?.eventId ?? null;
+    }
+
     /**
      * Finds or prompts user to select a solution file
      */
@@ -438,6 +1002,49 @@ export class Commands {
         }));
     }
 
+    /**
+     * Shows the insights of a project streamed by a running workspace analysis,
+     * replacing the previous insights of every file the project contains
+     */
+    private applyPartialResult(partial: AnalysisPartialResult): void {
+        const projectInsights = this.convertToInsights(partial.insights);
+        this.currentInsights = replaceProjectInsights(
+            this.currentInsights,
+            projectInsights,
+            partial.analyzedFiles,
+            this.filesAnalyzedDuringWorkspaceAnalysis
+        );
+
+        this.outputChannel.appendLine(
+            `Analyzed project ${partial.projectName} (${partial.projectsCompleted}/${partial.totalProjects}): ${projectInsights.length} logging statements.`
+        );
+
+        this.updateProviders();
+    }
+
+    /**
+     * Replaces workspace analysis results for files that were re-analyzed while it ran
+     */
+    private mergeFilesAnalyzedDuringWorkspaceAnalysis(insights: LoggingInsight[]): LoggingInsight[] {
+        return mergeFresherInsights(insights, this.filesAnalyzedDuringWorkspaceAnalysis);
+    }
+
+    /**
+     * Runs a cache update for the active solution; cache failures never fail an analysis
+     */
+    private async updateCache(update: (cache: InsightCache, solutionPath: string) => Promise<void>): Promise<void> {
+        const solutionPath = getSolutionState().getActiveSolutionPath();
+        if (!this.insightCache || !solutionPath || !Configuration.getCacheInsights()) {
+            return;
+        }
+
+        try {
+            await update(this.insightCache, solutionPath);
+        } catch (error) {
+            this.outputChannel.appendLine(`Failed to update insight cache: ${error}`);
+        }
+    }
+
     /**
      * Updates all providers with current insights
      */
@@ -459,6 +1066,73 @@ export class Commands {
                 insights: this.currentInsights
             });
         }
+
+        // Re-match the imported logs when the statements they are matched against changed
+        if (this.logDataset && getLogMatchKey(this.currentInsights) !== this.logHitsKey) {
+            this.updateLogHits();
+        }
+
+        // Update editor features (code lenses, ...)
+        this._onDidChangeInsights.fire(this.currentInsights);
+    }
+
+    /**
+     * Matches the imported logs against the current insights and shows the hit counts
+     */
+    private updateLogHits(): void {
+        this.logHits = this.logDataset ? matchLogDataset(this.logDataset, this.currentInsights) : null;
+        this.logHitsKey = this.logDataset ? getLogMatchKey(this.currentInsights) : null;
+
+        if (this.treeViewProvider && typeof this.treeViewProvider.updateLogHits === 'function') {
+            this.treeViewProvider.updateLogHits(this.logHits);
+        }
+
+        if (this.insightsPanel) {
+            const message: ExtensionToWebviewMessage = { command: 'updateLogHits', hits: this.logHits };
+            this.insightsPanel.webview.postMessage(message);
+        }
+
+        this._onDidChangeLogHits.fire(this.logHits);
+    }
+
+    /**
+     * Formats the bridge status as lines of text
+     */
+    private formatBridgeStatus(status: BridgeStatus): string[] {
+        const toMb = (bytes: number) => `${Math.round(bytes / (1024 * 1024))} MB`;
+        const lines: string[] = [];
+
+        if (status.running && status.startedAt !== null) {
+            const uptimeMinutes = Math.floor((Date.now() - status.startedAt) / 60000);
+            lines.push(`Process: ${status.processId ?? 'unknown'}, up ${Math.floor(uptimeMinutes / 60)}h ${uptimeMinutes % 60}m`);
+        } else {
+            lines.push('Process: not running (starts with the next analysis)');
+        }
+
+        if (status.transport) {
+            lines.push(`Bridge: ${status.transport}`);
+        }
+
+        if (status.protocolVersion !== null) {
+            lines.push(`Protocol: version ${status.protocolVersion} (${status.capabilities.join(', ') || 'no optional features'})`);
+        }
+
+        const limit = status.maxMemoryMb > 0 ? `limit ${status.maxMemoryMb} MB` : 'no limit';
+        lines.push(status.stats
+            ? `Memory: ${toMb(status.stats.workingSetBytes)} working set, ${toMb(status.stats.managedHeapBytes)} managed heap (${limit})`
+            : `Memory: unknown (${limit})`);
+
+        lines.push(status.lastLatencyMs !== null && status.lastHeartbeatAt !== null
+            ? `Heartbeat: ${status.lastLatencyMs} ms at ${new Date(status.lastHeartbeatAt).toLocaleTimeString()}, ${status.missedHeartbeats} missed`
+            : 'Heartbeat: none yet');
+
+        lines.push(`Requests: ${status.pendingRequests} pending, ${status.stats?.activeRequests ?? 0} active in bridge`);
+        lines.push(`Crashes: ${status.crashCount}, restarts: ${status.restartCount}`);
+        lines.push(status.lastError
+            ? `Last error: ${status.lastError.message} (${new Date(status.lastError.timestamp).toLocaleString()})`
+            : 'Last error: none');
+
+        return lines;
     }
 
     /**
@@ -604,3 +1278,49 @@ export class Commands {
         }, {} as Record<string, T[]>);
     }
 }
+
+/**
+ * Replaces the insights of every file of a project streamed by a workspace analysis with the
+ * project's insights. Files re-analyzed while the workspace analysis runs keep their insights.
+ *
+ * @param analyzedFiles - Files of the project, including those without logging statements
+ * @param fresher - Insights of the files re-analyzed while the workspace analysis runs
+ */
+export function replaceProjectInsights(
+    current: LoggingInsight[],
+    projectInsights: LoggingInsight[],
+    analyzedFiles: string[],
+    fresher: ReadonlyMap<string, LoggingInsight[]> | null
+): LoggingInsight[] {
+    const incoming = projectInsights.filter(i => !fresher?.has(i.location.filePath));
+
+    const replacedFiles = new Set(analyzedFiles.filter(f => !fresher?.has(f)));
+    for (const insight of incoming) {
+        replacedFiles.add(insight.location.filePath);
+    }
+
+    return [
+        ...current.filter(i => !replacedFiles.has(i.location.filePath)),
+        ...incoming
+    ];
+}
+
+/**
+ * Replaces the insights of a finished workspace analysis for files re-analyzed while it ran
+ *
+ * @param fresher - Insights of the files re-analyzed while the workspace analysis ran
+ */
+export function mergeFresherInsights(
+    insights: LoggingInsight[],
+    fresher: ReadonlyMap<string, LoggingInsight[]> | null
+): LoggingInsight[] {
+    if (!fresher || fresher.size === 0) {
+        return insights;
+    }
+
+    const merged = insights.filter(i => !fresher.has(i.location.filePath));
+    for (const fileInsights of fresher.values()) {
+        merged.push(...fileInsights);
+    }
+    return merged;
+}
@@ -1,4 +1,8 @@
 import * as vscode from 'vscode';
+import { DiagnosticLevel, DiagnosticOverride } from './diagnosticPolicy';
+import { EventIdRange } from './eventIdAnalysis';
+import { PlaceholderCasing } from './templateRules';
+import { BridgeTransportKind } from './transport/bridgeTransport';
 
 /**
  * Configuration manager for Logger Usage extension settings
@@ -13,6 +17,13 @@ export class Configuration {
         return this.getConfig<boolean>('autoAnalyzeOnSave', true);
     }
 
+    /**
+     * Gets whether analysis results are cached in workspace storage between sessions
+     */
+    public static getCacheInsights(): boolean {
+        return this.getConfig<boolean>('cacheInsights', true);
+    }
+
     /**
      * Gets file exclude patterns for analysis
      */
@@ -34,6 +45,48 @@ export class Configuration {
         return this.getConfig<number>('performanceThresholds.analysisTimeoutMs', 300000);
     }
 
+    /**
+     * Gets the interval between bridge heartbeats in milliseconds (0 disables health monitoring)
+     */
+    public static getBridgeHeartbeatIntervalMs(): number {
+        return this.getConfig<number>('bridge.heartbeatIntervalMs', 30000);
+    }
+
+    /**
+     * Gets the bridge memory ceiling in MB above which an idle bridge is restarted (0 = no limit)
+     */
+    public static getBridgeMaxMemoryMb(): number {
+        return this.getConfig<number>('bridge.maxMemoryMb', 4096);
+    }
+
+    /**
+     * Gets how the extension reaches the bridge (spawned over stdio, attached over a pipe, faked or replayed)
+     */
+    public static getBridgeTransport(): BridgeTransportKind {
+        return this.getConfig<BridgeTransportKind>('bridge.transport', 'stdio');
+    }
+
+    /**
+     * Gets the pipe name of a bridge started with --pipe, used by the pipe transport
+     */
+    public static getBridgePipeName(): string {
+        return this.getConfig<string>('bridge.pipeName', 'logger-usage-bridge');
+    }
+
+    /**
+     * Gets the JSON file with responses replayed by the fake transport ('' = empty results)
+     */
+    public static getBridgeFakeResponsesPath(): string {
+        return this.getConfig<string>('bridge.fakeResponsesPath', '');
+    }
+
+    /**
+     * Gets the recorded bridge session (JSONL) served by the replay transport
+     */
+    public static getBridgeReplaySessionPath(): string {
+        return this.getConfig<string>('bridge.replaySessionPath', '');
+    }
+
     /**
      * Gets whether problems integration is enabled
      */
@@ -41,6 +94,41 @@ export class Configuration {
         return this.getConfig<boolean>('enableProblemsIntegration', true);
     }
 
+    /**
+     * Gets whether the resolved log level and EventId are shown after logging statements
+     */
+    public static getInlineDecorationsEnabled(): boolean {
+        return this.getConfig<boolean>('inlineDecorations.enabled', true);
+    }
+
+    /**
+     * Gets the level each diagnostic code (LU001, LU002, ...) is reported with
+     */
+    public static getDiagnosticLevels(): Record<string, DiagnosticLevel> {
+        return this.getConfig<Record<string, DiagnosticLevel>>('diagnostics', {});
+    }
+
+    /**
+     * Gets diagnostic levels for files matching globs, overriding getDiagnosticLevels
+     */
+    public static getDiagnosticOverrides(): DiagnosticOverride[] {
+        return this.getConfig<DiagnosticOverride[]>('diagnosticOverrides', []);
+    }
+
+    /**
+     * Gets the casing template placeholders should follow
+     */
+    public static getPlaceholderCasing(): PlaceholderCasing {
+        return this.getConfig<PlaceholderCasing>('placeholderCasing', 'PascalCase');
+    }
+
+    /**
+     * Gets the EventId range allowed per project, keyed by project name (.csproj file name without extension)
+     */
+    public static getEventIdRanges(): Record<string, EventIdRange> {
+        return this.getConfig<Record<string, EventIdRange>>('eventIdRanges', {});
+    }
+
     /**
      * Gets default log levels to filter
      */
@@ -100,10 +188,22 @@ export class Configuration {
         const config = vscode.workspace.getConfiguration(this.SECTION);
         const keys = [
             'autoAnalyzeOnSave',
+            'cacheInsights',
             'excludePatterns',
             'performanceThresholds.maxFilesPerAnalysis',
             'performanceThresholds.analysisTimeoutMs',
+            'bridge.transport',
+            'bridge.pipeName',
+            'bridge.fakeResponsesPath',
+            'bridge.replaySessionPath',
+            'bridge.heartbeatIntervalMs',
+            'bridge.maxMemoryMb',
             'enableProblemsIntegration',
+            'inlineDecorations.enabled',
+            'diagnostics',
+            'diagnosticOverrides',
+            'eventIdRanges',
+            'placeholderCasing',
             'filterDefaults.logLevels',
             'filterDefaults.showInconsistenciesOnly'
         ];
@@ -0,0 +1,238 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { LoggingInsight } from '../models/insightViewModel';
+import { DiagnosticLevel } from './diagnosticPolicy';
+import { TemplateRule } from './templateRules';
+import { matchesGlob } from './utils/glob';
+import { namesMatch } from './utils/messageTemplate';
+import { isInDirectory } from './utils/solutionDetector';
+
+/**
+ * Location of the custom rules file, relative to each workspace folder
+ */
+export const CUSTOM_RULES_FILE = '.loggerusage/rules.json';
+
+/**
+ * A regular expression in a rules file: the pattern alone, or with flags such as `i`
+ */
+export type RulePattern = string | { pattern: string; flags?: string };
+
+/**
+ * Predicate over a logging statement; a statement matches when it satisfies every field given
+ */
+export interface RuleCondition {
+    /** Globs relative to the workspace folder, any of which the file must match */
+    files?: string | string[];
+    /** Any of these method types */
+    methodType?: LoggingInsight['methodType'] | LoggingInsight['methodType'][];
+    /** Any of these log levels */
+    logLevel?: string | string[];
+    /** This log level or a more severe one, e.g. `Warning` also matches `Error` and `Critical` */
+    minLogLevel?: string;
+    /** Regular expression the message template must match */
+    messageTemplate?: RulePattern;
+    /** Parameters that must all be present */
+    parameters?: string[];
+    /** Tags that must all be present */
+    tags?: string[];
+    /** An EventId within these bounds; `{}` matches any EventId */
+    eventId?: { min?: number; max?: number };
+    /** Condition the statement must not match */
+    not?: RuleCondition;
+}
+
+/**
+ * One rule of a custom rules file
+ */
+export interface CustomRuleDefinition {
+    /** User-defined diagnostic code, e.g. ACME001 */
+    code: string;
+    /** Diagnostic message */
+    message: string;
+    /** Severity unless configured in loggerUsage.diagnostics; defaults to warning */
+    severity?: Exclude<DiagnosticLevel, 'off'>;
+    /** Statements the rule applies to; all statements when omitted */
+    when?: RuleCondition;
+    /** Condition the statements must satisfy; when omitted, every statement matching `when` is reported */
+    require?: RuleCondition;
+}
+
+/**
+ * Rules read from the rules files of the workspace folders
+ */
+export interface CustomRuleSet {
+    rules: TemplateRule[];
+    /** Rules files or rules that could not be loaded, with the reason */
+    errors: string[];
+}
+
+/**
+ * Log levels from least to most severe
+ */
+const LOG_LEVELS = ['Trace', 'Debug', 'Information', 'Warning', 'Error', 'Critical'];
+
+const SEVERITIES: Exclude<DiagnosticLevel, 'off'>[] = ['error', 'warning', 'info', 'hint'];
+
+type StatementPredicate = (insight: LoggingInsight) => boolean;
+
+/**
+ * Loads the rules files of the workspace folders. Invalid files and rules are skipped and
+ * reported in `errors`, so one broken rule does not disable the others.
+ */
+export function loadCustomRules(folderPaths: string[]): CustomRuleSet {
+    const ruleSet: CustomRuleSet = { rules: [], errors: [] };
+
+    for (const folderPath of folderPaths) {
+        const rulesPath = path.join(folderPath, CUSTOM_RULES_FILE);
+        let definitions: CustomRuleDefinition[];
+        try {
+            definitions = readCustomRules(rulesPath);
+        } catch (error) {
+            ruleSet.errors.push(`Cannot read rules ${rulesPath}: ${error instanceof Error ? error.message : String(error)}`);
+            continue;
+        }
+
+        for (const definition of definitions) {
+            try {
+                ruleSet.rules.push(createCustomRule(definition, folderPath));
+            } catch (error) {
+                ruleSet.errors.push(`Ignoring rule ${definition?.code ?? '(no code)'} in ${rulesPath}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+    }
+
+    return ruleSet;
+}
+
+/**
+ * Reads the rule definitions of a rules file; a missing file has none
+ */
+export function readCustomRules(filePath: string): CustomRuleDefinition[] {
+    if (!fs.existsSync(filePath)) {
+        return [];
+    }
+
+    const content = JSON.parse(fs.readFileSync(filePath, 'utf8')) as { rules?: CustomRuleDefinition[] };
+    return Array.isArray(content.rules) ? content.rules : [];
+}
+
+/**
+ * Creates a rule checking the statements of files in a workspace folder
+ * @throws Error when the definition is incomplete or a condition is invalid
+ */
+export function createCustomRule(definition: CustomRuleDefinition, folderPath: string): TemplateRule {
+    if (!definition || typeof definition.code !== 'string' || !definition.code) {
+        throw new Error('"code" is required');
+    }
+    if (/^LU\d+$/i.test(definition.code)) {
+        throw new Error(`"${definition.code}" is reserved for built-in diagnostics`);
+    }
+    if (typeof definition.message !== 'string' || !definition.message) {
+        throw new Error('"message" is required');
+    }
+    if (definition.severity !== undefined && !SEVERITIES.includes(definition.severity)) {
+        throw new Error(`"severity" must be one of ${SEVERITIES.join(', ')}`);
+    }
+
+    const applies = compileCondition(definition.when ?? {}, folderPath);
+    const satisfies = definition.require ? compileCondition(definition.require, folderPath) : () => false;
+
+    return {
+        code: definition.code,
+        name: definition.code,
+        defaultLevel: definition.severity ?? 'warning',
+        check: insight => isInDirectory(insight.location.filePath, folderPath) && applies(insight) && !satisfies(insight)
+            ? [definition.message]
+            : []
+    };
+}
+
+/**
+ * Turns a condition into a predicate, validating it once rather than per statement
+ */
+function compileCondition(condition: RuleCondition, folderPath: string): StatementPredicate {
+    if (typeof condition !== 'object' || condition === null || Array.isArray(condition)) {
+        throw new Error('Conditions must be objects');
+    }
+
+    const predicates: StatementPredicate[] = [];
+
+    for (const [key, value] of Object.entries(condition)) {
+        switch (key as keyof RuleCondition) {
+            case 'files': {
+                const globs = toArray(value as string | string[]);
+                predicates.push(insight =>
+                    globs.some(glob => matchesGlob(glob, path.relative(folderPath, insight.location.filePath)))
+                );
+                break;
+            }
+            case 'methodType': {
+                const methodTypes = toArray(value as string | string[]);
+                predicates.push(insight => methodTypes.includes(insight.methodType));
+                break;
+            }
+            case 'logLevel': {
+                const levels = toArray(value as string | string[]);
+                predicates.push(insight => insight.logLevel !== null && levels.includes(insight.logLevel));
+                break;
+            }
+            case 'minLogLevel': {
+                const minimum = LOG_LEVELS.indexOf(value as string);
+                if (minimum < 0) {
+                    throw new Error(`"minLogLevel" must be one of ${LOG_LEVELS.join(', ')}`);
+                }
+                predicates.push(insight => LOG_LEVELS.indexOf(insight.logLevel ?? '') >= minimum);
+                break;
+            }
+            case 'messageTemplate': {
+                const regex = toRegExp(value as RulePattern);
+                predicates.push(insight => regex.test(insight.messageTemplate));
+                break;
+            }
+            case 'parameters': {
+                const names = toArray(value as string[]);
+                predicates.push(insight => names.every(name => insight.parameters.some(p => namesMatch(name, p))));
+                break;
+            }
+            case 'tags': {
+                const tags = toArray(value as string[]);
+                predicates.push(insight => tags.every(tag => insight.tags.includes(tag)));
+                break;
+            }
+            case 'eventId': {
+                const { min = -Infinity, max = Infinity } = (value ?? {}) as NonNullable<RuleCondition['eventId']>;
+                predicates.push(insight => {
+                    const id = insight.eventId?.id;
+                    return id !== null && id !== undefined && id >= min && id <= max;
+                });
+                break;
+            }
+            case 'not': {
+                const negated = compileCondition(value as RuleCondition, folderPath);
+                predicates.push(insight => !negated(insight));
+                break;
+            }
+            default:
+                throw new Error(`Unknown condition "${key}"`);
+        }
+    }
+
+    return insight => predicates.every(predicate => predicate(insight));
+}
+
+function toArray<T>(value: T | T[]): T[] {
+    return Array.isArray(value) ? value : [value];
+}
+
+function toRegExp(pattern: RulePattern): RegExp {
+    const { source, flags } = typeof pattern === 'string'
+        ? { source: pattern, flags: '' }
+        : { source: pattern?.pattern, flags: pattern?.flags ?? '' };
+
+    if (typeof source !== 'string') {
+        throw new Error('"messageTemplate" must be a regular expression or { "pattern", "flags" }');
+    }
+
+    // Rules test one template at a time; a global regex would carry lastIndex between them
+    return new RegExp(source, flags.replace(/[gy]/g, ''));
+}
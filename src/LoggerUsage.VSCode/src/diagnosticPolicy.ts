@@ -0,0 +1,213 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Location } from '../models/insightViewModel';
+import { Configuration } from './configuration';
+import { matchesGlob } from './utils/glob';
+import { isInDirectory } from './utils/solutionDetector';
+import { SourceTextCache } from './utils/sourceText';
+
+/**
+ * Severity a diagnostic code is reported with; `off` hides it
+ */
+export type DiagnosticLevel = 'off' | 'hint' | 'info' | 'warning' | 'error';
+
+/**
+ * Diagnostic levels for files matching a glob, taking precedence over `loggerUsage.diagnostics`
+ */
+export interface DiagnosticOverride {
+    /** Glob relative to the workspace folder, e.g. `tests/**` */
+    files: string;
+    /** Level per diagnostic code */
+    diagnostics: Record<string, DiagnosticLevel>;
+}
+
+/**
+ * One entry of a workspace suppressions file (`.loggerusage/suppressions.json`)
+ */
+export interface Suppression {
+    /** Diagnostic code(s) suppressed; all codes when omitted */
+    code?: string | string[];
+    /** Glob relative to the workspace folder; all files when omitted */
+    files?: string;
+    /** Only statements logging exactly this message template */
+    messageTemplate?: string;
+    /** Why the diagnostic is acceptable, for reviewers */
+    justification?: string;
+}
+
+/**
+ * Location of the workspace suppressions file, relative to each workspace folder
+ */
+export const SUPPRESSIONS_FILE = '.loggerusage/suppressions.json';
+
+/**
+ * A suppression read from the suppressions file of a workspace folder
+ */
+interface FolderSuppression extends Suppression {
+    folderPath: string;
+}
+
+const INLINE_SUPPRESSION = /\/\/\s*loggerusage-disable-(next-line|line)\b([^\r\n]*)/i;
+
+/**
+ * Decides which diagnostics are reported and with which severity: levels per code from
+ * `loggerUsage.diagnostics`, per-glob `loggerUsage.diagnosticOverrides`, inline
+ * `// loggerusage-disable-next-line LU002` comments and the workspace suppressions file.
+ *
+ * Source files are read through a SourceTextCache; create a new policy per update.
+ */
+export class DiagnosticPolicy {
+    constructor(
+        private readonly levels: Record<string, DiagnosticLevel> = {},
+        private readonly overrides: DiagnosticOverride[] = [],
+        private readonly suppressions: FolderSuppression[] = [],
+        private readonly folderPaths: string[] = [],
+        private readonly sources: SourceTextCache = new SourceTextCache()
+    ) {}
+
+    /**
+     * Creates the policy from the settings and the suppressions files of the workspace folders
+     *
+     * @param onError - Called for each suppressions file that cannot be read; its suppressions are ignored
+     */
+    public static fromWorkspace(sources?: SourceTextCache, onError?: (message: string) => void): DiagnosticPolicy {
+        const folderPaths = (vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri.fsPath);
+        const suppressions: FolderSuppression[] = [];
+
+        for (const folderPath of folderPaths) {
+            try {
+                suppressions.push(...readSuppressions(path.join(folderPath, SUPPRESSIONS_FILE))
+                    .map(suppression => ({ ...suppression, folderPath })));
+            } catch (error) {
+                onError?.(`Cannot read suppressions ${path.join(folderPath, SUPPRESSIONS_FILE)}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+
+        return new DiagnosticPolicy(
+            Configuration.getDiagnosticLevels(),
+            Configuration.getDiagnosticOverrides(),
+            suppressions,
+            folderPaths,
+            sources
+        );
+    }
+
+    /**
+     * Gets the configured level of a diagnostic code in a file; the last matching override wins
+     *
+     * @returns The level, or undefined to keep the severity the diagnostic was created with
+     */
+    public getLevel(code: string, filePath: string): DiagnosticLevel | undefined {
+        let level = this.levels[code];
+
+        for (const override of this.overrides) {
+            const overrideLevel = override.diagnostics?.[code];
+            if (overrideLevel && this.matchesFiles(override.files, filePath)) {
+                level = overrideLevel;
+            }
+        }
+
+        return level;
+    }
+
+    /**
+     * Whether a diagnostic of a logging statement is suppressed by a comment or the suppressions file
+     */
+    public isSuppressed(code: string, location: Location, messageTemplate: string): boolean {
+        return this.isSuppressedByFile(code, location.filePath, messageTemplate) ||
+            this.isSuppressedInline(code, location);
+    }
+
+    // ==================== Private Methods ====================
+
+    private isSuppressedByFile(code: string, filePath: string, messageTemplate: string): boolean {
+        return this.suppressions.some(suppression => {
+            const codes = typeof suppression.code === 'string' ? [suppression.code] : suppression.code;
+            if (codes && !codes.includes(code)) {
+                return false;
+            }
+            if (suppression.messageTemplate !== undefined && suppression.messageTemplate !== messageTemplate) {
+                return false;
+            }
+            if (!isInDirectory(filePath, suppression.folderPath)) {
+                return false;
+            }
+            return !suppression.files || matchesGlob(suppression.files, path.relative(suppression.folderPath, filePath));
+        });
+    }
+
+    private isSuppressedInline(code: string, location: Location): boolean {
+        const lines = this.sources.getLines(location.filePath);
+        if (!lines) {
+            return false;
+        }
+
+        // Statement lines are 0-based; the comment goes on the line above or at the end of the first line
+        const previous = parseInlineSuppression(lines[location.startLine - 1]);
+        const current = parseInlineSuppression(lines[location.startLine]);
+
+        return (previous?.scope === 'next-line' && appliesTo(previous.codes, code)) ||
+            (current?.scope === 'line' && appliesTo(current.codes, code));
+    }
+
+    private matchesFiles(pattern: string, filePath: string): boolean {
+        if (!pattern) {
+            return false;
+        }
+
+        const folderPath = this.folderPaths.find(folder => isInDirectory(filePath, folder));
+        const relativePath = folderPath ? path.relative(folderPath, filePath) : filePath;
+        return matchesGlob(pattern, relativePath) || matchesGlob(pattern, filePath);
+    }
+}
+
+/**
+ * Parses a `// loggerusage-disable-next-line LU001, LU002` or `// loggerusage-disable-line` comment
+ *
+ * @returns The scope and codes of the suppression (empty = all codes), or null if the line has none
+ */
+export function parseInlineSuppression(line: string | undefined): { scope: 'next-line' | 'line'; codes: string[] } | null {
+    const match = line ? INLINE_SUPPRESSION.exec(line) : null;
+    if (!match) {
+        return null;
+    }
+
+    return {
+        scope: match[1].toLowerCase() as 'next-line' | 'line',
+        codes: match[2].split(/[\s,]+/).filter(code => /^LU\d+$/i.test(code)).map(code => code.toUpperCase())
+    };
+}
+
+/**
+ * Reads a suppressions file; a missing file has no suppressions
+ * @throws Error when the file is not valid JSON
+ */
+export function readSuppressions(filePath: string): Suppression[] {
+    if (!fs.existsSync(filePath)) {
+        return [];
+    }
+
+    const content = JSON.parse(fs.readFileSync(filePath, 'utf8')) as { suppressions?: Suppression[] };
+    return Array.isArray(content.suppressions) ? content.suppressions : [];
+}
+
+/**
+ * Maps a configured level to a diagnostic severity
+ */
+export function toDiagnosticSeverity(level: Exclude<DiagnosticLevel, 'off'>): vscode.DiagnosticSeverity {
+    switch (level) {
+        case 'error':
+            return vscode.DiagnosticSeverity.Error;
+        case 'warning':
+            return vscode.DiagnosticSeverity.Warning;
+        case 'info':
+            return vscode.DiagnosticSeverity.Information;
+        case 'hint':
+            return vscode.DiagnosticSeverity.Hint;
+    }
+}
+
+function appliesTo(codes: string[], code: string): boolean {
+    return codes.length === 0 || codes.includes(code);
+}
@@ -0,0 +1,118 @@
+import * as path from 'path';
+import { LoggingInsight } from '../models/insightViewModel';
+import { findProjectFile } from './utils/solutionDetector';
+
+/**
+ * Range of EventIds a project may use (inclusive)
+ */
+export interface EventIdRange {
+    min: number;
+    max: number;
+}
+
+/**
+ * Kinds of EventId problems that only show when comparing insights with each other
+ */
+export type EventIdIssueType = 'DuplicateEventId' | 'EventIdNameConflict' | 'EventIdOutOfRange';
+
+/**
+ * An EventId problem of one logging statement
+ */
+export interface EventIdIssue {
+    type: EventIdIssueType;
+    insight: LoggingInsight;
+    message: string;
+    /** The other statements involved, e.g. those using the same id for another message */
+    related: LoggingInsight[];
+}
+
+/**
+ * Finds EventIds used for different message templates or under different names across the
+ * solution, and EventIds outside the range configured for their project
+ *
+ * @param insights - All insights of the solution
+ * @param getRange - Gets the allowed range for a source file, if any
+ */
+export function analyzeEventIds(
+    insights: LoggingInsight[],
+    getRange: (filePath: string) => EventIdRange | undefined = () => undefined
+): EventIdIssue[] {
+    const issues: EventIdIssue[] = [];
+    const insightsById = new Map<number, LoggingInsight[]>();
+
+    for (const insight of insights) {
+        const id = insight.eventId?.id;
+        if (typeof id !== 'number') {
+            continue;
+        }
+
+        const sameId = insightsById.get(id) ?? [];
+        sameId.push(insight);
+        insightsById.set(id, sameId);
+
+        const range = getRange(insight.location.filePath);
+        if (range && (id < range.min || id > range.max)) {
+            issues.push({
+                type: 'EventIdOutOfRange',
+                insight,
+                message: `EventId ${id} is outside the range ${range.min}-${range.max} configured for this project`,
+                related: []
+            });
+        }
+    }
+
+    for (const [id, sameId] of insightsById) {
+        for (const insight of sameId) {
+            const otherTemplates = sameId.filter(other => other.messageTemplate !== insight.messageTemplate);
+            if (otherTemplates.length > 0) {
+                const templateCount = new Set(sameId.map(other => other.messageTemplate)).size;
+                issues.push({
+                    type: 'DuplicateEventId',
+                    insight,
+                    message: `EventId ${id} is used for ${templateCount} different message templates`,
+                    related: otherTemplates
+                });
+            }
+
+            const name = insight.eventId?.name;
+            const otherNames = name
+                ? sameId.filter(other => other.eventId?.name && other.eventId.name !== name)
+                : [];
+            if (otherNames.length > 0) {
+                const names = [...new Set(otherNames.map(other => other.eventId!.name))].map(n => `'${n}'`).join(', ');
+                issues.push({
+                    type: 'EventIdNameConflict',
+                    insight,
+                    message: `EventId ${id} is named '${name}' here but ${names} elsewhere`,
+                    related: otherNames
+                });
+            }
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Creates a lookup of the EventId range for source files, from ranges keyed by project name
+ * (the .csproj file name without extension)
+ */
+export function createProjectRangeLookup(ranges: Record<string, EventIdRange>): (filePath: string) => EventIdRange | undefined {
+    if (Object.keys(ranges).length === 0) {
+        return () => undefined;
+    }
+
+    // Source files of a directory belong to the same project
+    const projectByDirectory = new Map<string, string | null>();
+
+    return (filePath: string) => {
+        const directory = path.dirname(filePath);
+        let projectFile = projectByDirectory.get(directory);
+        if (projectFile === undefined) {
+            projectFile = findProjectFile(filePath);
+            projectByDirectory.set(directory, projectFile);
+        }
+
+        return projectFile ? ranges[path.basename(projectFile, '.csproj')] : undefined;
+    };
+}
@@ -0,0 +1,109 @@
+import * as vscode from 'vscode';
+import { LoggingInsight } from '../models/insightViewModel';
+import { findInsightAtLine, toRange } from './utils/insightLocation';
+
+/**
+ * Commands the hover card links to
+ */
+export const HOVER_COMMANDS = ['loggerUsage.showEventIdUsages', 'loggerUsage.revealInInsightsPanel'];
+
+const METHOD_TYPE_LABELS: Record<LoggingInsight['methodType'], string> = {
+    LoggerExtension: 'Logger extension method',
+    LoggerMessageAttribute: '[LoggerMessage] method',
+    LoggerMessageDefine: 'LoggerMessage.Define',
+    BeginScope: 'BeginScope'
+};
+
+/**
+ * Shows what the analysis knows about a logging statement when hovering it
+ */
+export class LoggingHoverProvider implements vscode.HoverProvider {
+    constructor(private readonly getInsights: () => LoggingInsight[]) {}
+
+    /**
+     * Provides a card for the logging statement at the position, if any
+     */
+    public provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+        const insights = this.getInsights();
+        const insight = findInsightAtLine(insights, document.uri.fsPath, position.line);
+        if (!insight) {
+            return undefined;
+        }
+
+        const eventId = insight.eventId?.id;
+        const eventIdUsages = eventId === null || eventId === undefined
+            ? 0
+            : insights.filter(i => i.eventId?.id === eventId).length;
+
+        const markdown = new vscode.MarkdownString(renderInsightHover(insight, eventIdUsages));
+        markdown.isTrusted = { enabledCommands: HOVER_COMMANDS };
+        markdown.supportThemeIcons = true;
+
+        return new vscode.Hover(markdown, toRange(insight.location));
+    }
+}
+
+/**
+ * Renders the hover card of a logging statement as Markdown
+ * @param eventIdUsages Number of statements in the solution logging the statement's EventId
+ */
+export function renderInsightHover(insight: LoggingInsight, eventIdUsages: number): string {
+    const lines: string[] = [`**Logger Usage** · ${METHOD_TYPE_LABELS[insight.methodType] ?? insight.methodType}`, ''];
+
+    if (insight.messageTemplate) {
+        lines.push('```text', insight.messageTemplate, '```', '');
+    }
+
+    lines.push('| | |', '|---|---|');
+    lines.push(`| Level | ${escapeMarkdown(insight.logLevel ?? 'Dynamic')} |`);
+    lines.push(`| EventId | ${formatEventId(insight)} |`);
+    if (insight.parameters.length > 0) {
+        const parameters = insight.parameters.map((name, index) => {
+            const type = insight.parameterTypes?.[index];
+            return type ? `\`${name}\`: ${escapeMarkdown(type)}` : `\`${name}\``;
+        });
+        lines.push(`| Parameters | ${parameters.join(', ')} |`);
+    }
+    if (insight.dataClassifications.length > 0) {
+        const classifications = insight.dataClassifications.map(c =>
+            `\`${c.parameterName}\`: ${escapeMarkdown(c.classificationType)}`
+        );
+        lines.push(`| Data classifications | ${classifications.join(', ')} |`);
+    }
+    lines.push('');
+
+    if (insight.inconsistencies && insight.inconsistencies.length > 0) {
+        lines.push('**Inconsistencies**', '');
+        for (const inconsistency of insight.inconsistencies) {
+            const icon = inconsistency.severity === 'Error' ? '$(error)' : '$(warning)';
+            lines.push(`- ${icon} ${escapeMarkdown(inconsistency.message)}`);
+        }
+        lines.push('');
+    }
+
+    const links: string[] = [];
+    if (eventIdUsages > 0) {
+        links.push(`[Show all usages of EventId ${insight.eventId!.id}](${createCommandUri('loggerUsage.showEventIdUsages', insight.id)}) (${eventIdUsages})`);
+    }
+    links.push(`[Open in Insights Panel](${createCommandUri('loggerUsage.revealInInsightsPanel', insight.id)})`);
+    lines.push(links.join(' · '));
+
+    return lines.join('\n');
+}
+
+function formatEventId(insight: LoggingInsight): string {
+    const { id, name } = insight.eventId ?? { id: null, name: null };
+    if (id === null && !name) {
+        return 'None';
+    }
+
+    return [id ?? 'Dynamic', name ? `(${escapeMarkdown(name)})` : ''].join(' ').trim();
+}
+
+function createCommandUri(command: string, ...args: unknown[]): string {
+    return `command:${command}?${encodeURIComponent(JSON.stringify(args))}`;
+}
+
+function escapeMarkdown(text: string): string {
+    return text.replace(/[\\`*_{}[\]<>|]/g, '\\$&');
+}
@@ -0,0 +1,113 @@
+import * as vscode from 'vscode';
+import { LoggingInsight } from '../models/insightViewModel';
+import { Configuration } from './configuration';
+
+/**
+ * Colour of the decorations per log level; statements whose level is only known at runtime use `Dynamic`
+ */
+const LEVEL_COLORS: Record<string, string> = {
+    Trace: 'descriptionForeground',
+    Debug: 'descriptionForeground',
+    Information: 'editorInfo.foreground',
+    Warning: 'editorWarning.foreground',
+    Error: 'editorError.foreground',
+    Critical: 'editorError.foreground',
+    Dynamic: 'editorCodeLens.foreground'
+};
+
+/**
+ * Shows the resolved log level and EventId after each logging statement in the visible editors,
+ * coloured by level (`loggerUsage.inlineDecorations.enabled`)
+ */
+export class InlineDecorations implements vscode.Disposable {
+    private readonly decorationTypes = new Map<string, vscode.TextEditorDecorationType>();
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly getInsights: () => LoggingInsight[]) {
+        for (const [level, color] of Object.entries(LEVEL_COLORS)) {
+            this.decorationTypes.set(level, vscode.window.createTextEditorDecorationType({
+                after: {
+                    color: new vscode.ThemeColor(color),
+                    fontStyle: 'italic',
+                    fontWeight: level === 'Critical' ? 'bold' : undefined,
+                    margin: '0 0 0 2em'
+                },
+                rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed
+            }));
+        }
+
+        this.disposables.push(
+            vscode.window.onDidChangeVisibleTextEditors(editors => editors.forEach(editor => this.update(editor)))
+        );
+    }
+
+    /**
+     * Re-renders the decorations of the visible editors from the current insights
+     */
+    public refresh(): void {
+        vscode.window.visibleTextEditors.forEach(editor => this.update(editor));
+    }
+
+    /**
+     * Removes the decorations and stops listening to editor changes
+     */
+    public dispose(): void {
+        this.decorationTypes.forEach(type => type.dispose());
+        this.decorationTypes.clear();
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables.length = 0;
+    }
+
+    // ==================== Private Methods ====================
+
+    private update(editor: vscode.TextEditor): void {
+        const decorations = new Map<string, vscode.DecorationOptions[]>();
+
+        if (Configuration.getInlineDecorationsEnabled() && editor.document.languageId === 'csharp') {
+            const document = editor.document;
+            const fsPath = document.uri.fsPath;
+
+            for (const insight of this.getInsights()) {
+                const text = formatInlineDecoration(insight);
+                if (!text || vscode.Uri.file(insight.location.filePath).fsPath !== fsPath || insight.location.startLine >= document.lineCount) {
+                    continue;
+                }
+
+                const line = document.lineAt(Math.min(Math.max(insight.location.startLine, insight.location.endLine), document.lineCount - 1));
+                const level = insight.logLevel && LEVEL_COLORS[insight.logLevel] ? insight.logLevel : 'Dynamic';
+                const options = decorations.get(level) ?? [];
+                options.push({
+                    range: new vscode.Range(line.range.end, line.range.end),
+                    renderOptions: { after: { contentText: text } }
+                });
+                decorations.set(level, options);
+            }
+        }
+
+        // Types without statements are set too, clearing decorations of removed statements
+        for (const [level, type] of this.decorationTypes) {
+            editor.setDecorations(type, decorations.get(level) ?? []);
+        }
+    }
+}
+
+/**
+ * Formats the decoration of a logging statement, e.g. `Warning · EventId 1001 (OrderCreated)`
+ * @returns null for statements without level, such as `BeginScope`
+ */
+export function formatInlineDecoration(insight: LoggingInsight): string | null {
+    if (insight.methodType === 'BeginScope') {
+        return null;
+    }
+
+    const parts = [insight.logLevel ?? 'Dynamic level'];
+
+    const { id, name } = insight.eventId ?? { id: null, name: null };
+    if (id !== null) {
+        parts.push(name ? `EventId ${id} (${name})` : `EventId ${id}`);
+    } else if (name) {
+        parts.push(`EventId ${name}`);
+    }
+
+    return parts.join(' · ');
+}
@@ -0,0 +1,217 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { LoggingInsight } from '../models/insightViewModel';
+
+/**
+ * Version of the cache file layout; caches written with another version are ignored
+ */
+const CACHE_VERSION = 1;
+
+/**
+ * Insights of one file, with the hash of the file content they were computed from
+ */
+export interface CachedFile {
+    hash: string;
+    insights: LoggingInsight[];
+}
+
+/**
+ * Last analysis of a solution as persisted in workspace storage
+ */
+export interface CachedAnalysis {
+    version: number;
+    solutionPath: string;
+    savedAt: number;
+    /** Every analyzed file, including files without logging calls */
+    files: Record<string, CachedFile>;
+}
+
+/**
+ * Files whose insights are outdated in or missing from the cache
+ */
+export interface StaleFiles {
+    changed: string[];
+    deleted: string[];
+    /** Source files not in the cache: created since the analysis, or analyzed without recording them */
+    added: string[];
+}
+
+/**
+ * Persists analysis results per solution in the extension's workspace storage,
+ * so insights survive a restart and only changed files need re-analysis.
+ */
+export class InsightCache {
+    // Cached analyses loaded or written during this session, by solution path
+    private readonly analyses: Map<string, CachedAnalysis> = new Map();
+    // Writes are chained so concurrent updates of a solution never interleave
+    private pendingWrite: Promise<void> = Promise.resolve();
+
+    constructor(private readonly storageUri: vscode.Uri | undefined) {}
+
+    /**
+     * Loads the cached analysis of a solution, or null if there is none (or it is unreadable)
+     */
+    public async load(solutionPath: string): Promise<CachedAnalysis | null> {
+        const cacheFile = this.getCacheFile(solutionPath);
+        if (!cacheFile) {
+            return null;
+        }
+
+        try {
+            const content = await fs.promises.readFile(cacheFile, 'utf8');
+            const analysis = JSON.parse(content) as CachedAnalysis;
+            if (analysis.version !== CACHE_VERSION || analysis.solutionPath !== solutionPath) {
+                return null;
+            }
+
+            this.analyses.set(solutionPath, analysis);
+            return analysis;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Replaces the cached analysis of a solution with the result of a full analysis
+     * @param analyzedFiles Every file the analysis covered, including files without insights
+     */
+    public async save(solutionPath: string, insights: LoggingInsight[], analyzedFiles: Iterable<string>): Promise<void> {
+        const files: Record<string, CachedFile> = {};
+        for (const [filePath, fileInsights] of groupByFile(insights, analyzedFiles)) {
+            const hash = await hashFile(filePath);
+            if (hash) {
+                files[filePath] = { hash, insights: fileInsights };
+            }
+        }
+
+        const analysis: CachedAnalysis = {
+            version: CACHE_VERSION,
+            solutionPath,
+            savedAt: Date.now(),
+            files
+        };
+
+        this.analyses.set(solutionPath, analysis);
+        await this.write(analysis);
+    }
+
+    /**
+     * Updates files of an existing cached analysis after incremental analysis.
+     * Without a cached full analysis there is nothing to update.
+     */
+    public async updateFiles(solutionPath: string, insights: Map<string, LoggingInsight[]>, deletedFiles: string[]): Promise<void> {
+        const analysis = this.analyses.get(solutionPath) ?? await this.load(solutionPath);
+        if (!analysis) {
+            return;
+        }
+
+        for (const [filePath, fileInsights] of insights) {
+            const hash = await hashFile(filePath);
+            if (hash) {
+                analysis.files[filePath] = { hash, insights: fileInsights };
+            } else {
+                delete analysis.files[filePath];
+            }
+        }
+
+        for (const filePath of deletedFiles) {
+            delete analysis.files[filePath];
+        }
+
+        analysis.savedAt = Date.now();
+        await this.write(analysis);
+    }
+
+    /**
+     * Finds cached files that were modified or deleted since they were analyzed,
+     * and source files the cache does not know
+     * @param sourceFiles Current source files of the solution
+     */
+    public async findStaleFiles(analysis: CachedAnalysis, sourceFiles: string[] = []): Promise<StaleFiles> {
+        const stale: StaleFiles = { changed: [], deleted: [], added: [] };
+
+        for (const [filePath, cached] of Object.entries(analysis.files)) {
+            const hash = await hashFile(filePath);
+            if (!hash) {
+                stale.deleted.push(filePath);
+            } else if (hash !== cached.hash) {
+                stale.changed.push(filePath);
+            }
+        }
+
+        // Paths from the bridge and from VS Code may differ in drive letter case
+        const cachedFiles = new Set(Object.keys(analysis.files).map(f => vscode.Uri.file(f).fsPath));
+        stale.added = sourceFiles.filter(f => !cachedFiles.has(vscode.Uri.file(f).fsPath));
+
+        return stale;
+    }
+
+    // ==================== Private Methods ====================
+
+    /**
+     * Gets the cache file of a solution, or null without workspace storage (no folder open)
+     */
+    private getCacheFile(solutionPath: string): string | null {
+        if (!this.storageUri) {
+            return null;
+        }
+
+        const key = crypto.createHash('sha256').update(solutionPath).digest('hex').substring(0, 16);
+        return path.join(this.storageUri.fsPath, `insights-${key}.json`);
+    }
+
+    /**
+     * Writes a cached analysis, replacing the previous file atomically
+     */
+    private write(analysis: CachedAnalysis): Promise<void> {
+        const cacheFile = this.getCacheFile(analysis.solutionPath);
+        if (!cacheFile) {
+            return Promise.resolve();
+        }
+
+        const write = async () => {
+            await fs.promises.mkdir(path.dirname(cacheFile), { recursive: true });
+            const tempFile = `${cacheFile}.tmp`;
+            await fs.promises.writeFile(tempFile, JSON.stringify(analysis), 'utf8');
+            await fs.promises.rename(tempFile, cacheFile);
+        };
+
+        this.pendingWrite = this.pendingWrite.catch(() => undefined).then(write);
+        return this.pendingWrite;
+    }
+}
+
+/**
+ * Computes the content hash of a file, or null if it cannot be read (e.g. deleted)
+ */
+export async function hashFile(filePath: string): Promise<string | null> {
+    try {
+        const content = await fs.promises.readFile(filePath);
+        return crypto.createHash('sha256').update(content).digest('hex');
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Groups insights by file, including analyzed files that have no insights
+ */
+function groupByFile(insights: LoggingInsight[], analyzedFiles: Iterable<string>): Map<string, LoggingInsight[]> {
+    const files = new Map<string, LoggingInsight[]>();
+    for (const filePath of analyzedFiles) {
+        files.set(filePath, []);
+    }
+
+    for (const insight of insights) {
+        const fileInsights = files.get(insight.location.filePath);
+        if (fileInsights) {
+            fileInsights.push(insight);
+        } else {
+            files.set(insight.location.filePath, [insight]);
+        }
+    }
+
+    return files;
+}
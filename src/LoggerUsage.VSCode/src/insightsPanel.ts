@@ -1,6 +1,6 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
-import { LoggingInsight } from '../models/insightViewModel';
+import { LoggingInsight, LogHitCounts } from '../models/insightViewModel';
 import { FilterState, DEFAULT_FILTER_STATE } from '../models/filterState';
 import { ExtensionToWebviewMessage, WebviewToExtensionMessage } from '../models/webviewMessages';
 import { AnalysisSummary } from '../models/ipcMessages';
@@ -121,6 +121,18 @@ export class InsightsPanel implements vscode.Disposable {
         this.panel.webview.postMessage(message);
     }
 
+    /**
+     * Updates the hit counts from imported log files shown next to the insights (null when none are imported)
+     */
+    public updateLogHits(hits: LogHitCounts | null): void {
+        const message: ExtensionToWebviewMessage = {
+            command: 'updateLogHits',
+            hits: hits
+        };
+
+        this.panel.webview.postMessage(message);
+    }
+
     /**
      * Updates the filter state
      */
@@ -407,6 +419,11 @@ export class InsightsPanel implements vscode.Disposable {
             cursor: pointer;
         }
 
+        .insights-table tr.revealed {
+            background-color: var(--vscode-list-activeSelectionBackground);
+            color: var(--vscode-list-activeSelectionForeground);
+        }
+
         .badge {
             display: inline-block;
             padding: 2px 6px;
@@ -425,6 +442,20 @@ export class InsightsPanel implements vscode.Disposable {
             color: var(--vscode-editor-background);
         }
 
+        .badge-dead {
+            background-color: var(--vscode-disabledForeground);
+            color: var(--vscode-editor-background);
+        }
+
+        .badge-hot {
+            background-color: var(--vscode-charts-orange);
+            color: var(--vscode-editor-background);
+        }
+
+        .insights-table td.hits {
+            text-align: right;
+        }
+
         .summary {
             display: grid;
             grid-template-columns: repeat(auto-fit, minmax(200px, 1fr));
@@ -500,6 +531,8 @@ export class InsightsPanel implements vscode.Disposable {
 
         let currentInsights = [];
         let currentSummary = null;
+        let revealedInsightId = null;
+        let currentLogHits = null;
 
         // Handle messages from extension
         window.addEventListener('message', event => {
@@ -513,10 +546,22 @@ export class InsightsPanel implements vscode.Disposable {
                     renderSummary();
                     break;
 
+                case 'updateLogHits':
+                    currentLogHits = message.hits;
+                    renderInsights();
+                    renderSummary();
+                    break;
+
                 case 'updateFilters':
                     // Update filter UI
                     break;
 
+                case 'revealInsight':
+                    revealedInsightId = message.insightId;
+                    renderInsights();
+                    revealInsight();
+                    break;
+
                 case 'updateTheme':
                     // Theme changed
                     document.body.className = 'theme-' + message.theme;
@@ -594,6 +639,24 @@ export class InsightsPanel implements vscode.Disposable {
                     <div class="value">\${currentSummary.inconsistenciesCount || 0}</div>
                 </div>
             \`;
+
+            if (currentLogHits) {
+                const counts = Object.values(currentLogHits.counts);
+                summaryEl.innerHTML += \`
+                    <div class="summary-card" title="\${escapeHtml(currentLogHits.dataset)}: \${currentLogHits.unmatchedEntries.toLocaleString()} entries matched no statement">
+                        <h3>Log Entries Matched</h3>
+                        <div class="value">\${currentLogHits.matchedEntries.toLocaleString()}</div>
+                    </div>
+                    <div class="summary-card">
+                        <h3>Never Fired</h3>
+                        <div class="value">\${counts.filter(c => c === 0).length}</div>
+                    </div>
+                    <div class="summary-card">
+                        <h3>Hot Statements</h3>
+                        <div class="value">\${counts.filter(c => c >= currentLogHits.hotThreshold).length}</div>
+                    </div>
+                \`;
+            }
         }
 
         function renderInsights() {
@@ -612,6 +675,9 @@ export class InsightsPanel implements vscode.Disposable {
             let html = '<table class="insights-table"><thead><tr>';
             html += '<th>File</th><th>Line</th><th>Method Type</th>';
             html += '<th>Log Level</th><th>Message</th><th>Status</th>';
+            if (currentLogHits) {
+                html += '<th>Hits</th>';
+            }
             html += '</tr></thead><tbody>';
 
             for (const insight of currentInsights) {
@@ -619,14 +685,19 @@ export class InsightsPanel implements vscode.Disposable {
                 const inconsistencyBadge = insight.hasInconsistencies
                     ? '<span class="badge badge-inconsistency">!</span>'
                     : '';
+                const revealedClass = insight.id === revealedInsightId ? ' class="revealed"' : '';
 
-                html += \`<tr onclick="navigateToInsight('\${insight.id}')">\`;
+                html += \`<tr\${revealedClass} data-insight-id="\${escapeHtml(insight.id)}" onclick="navigateToInsight('\${insight.id}')">\`;
                 html += \`<td>\${fileName}</td>\`;
                 html += \`<td>\${insight.location.startLine}</td>\`;
                 html += \`<td><span class="badge badge-method-type">\${insight.methodType}</span></td>\`;
                 html += \`<td>\${insight.logLevel || 'N/A'}</td>\`;
                 html += \`<td>\${escapeHtml(insight.messageTemplate)}</td>\`;
-                html += \`<td>\${inconsistencyBadge}</td>\`;
+                html += \`<td>\${inconsistencyBadge}\${renderHitBadge(insight)}</td>\`;
+                if (currentLogHits) {
+                    const hits = currentLogHits.counts[insight.id];
+                    html += \`<td class="hits">\${hits === undefined ? '' : hits.toLocaleString()}</td>\`;
+                }
                 html += '</tr>';
             }
 
@@ -634,6 +705,25 @@ export class InsightsPanel implements vscode.Disposable {
             contentEl.innerHTML = html;
         }
 
+        function renderHitBadge(insight) {
+            const hits = currentLogHits ? currentLogHits.counts[insight.id] : undefined;
+            if (hits === 0) {
+                return ' <span class="badge badge-dead" title="Never fired in the imported logs">dead</span>';
+            }
+            if (hits !== undefined && hits >= currentLogHits.hotThreshold) {
+                return ' <span class="badge badge-hot" title="Wrote a large share of the imported log entries">hot</span>';
+            }
+            return '';
+        }
+
+        function revealInsight() {
+            const row = Array.from(document.querySelectorAll('tr[data-insight-id]'))
+                .find(r => r.dataset.insightId === revealedInsightId);
+            if (row) {
+                row.scrollIntoView({ block: 'center' });
+            }
+        }
+
         function navigateToInsight(insightId) {
             vscode.postMessage({ command: 'navigateToInsight', insightId: insightId });
         }
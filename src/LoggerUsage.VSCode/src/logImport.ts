@@ -0,0 +1,278 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { LoggingInsight, LogHitCounts } from '../models/insightViewModel';
+import { findLogLineSources, TemplateMatcher } from './logLineSource';
+
+/**
+ * Share of the matched entries from which a statement is reported as hot
+ */
+export const HOT_SHARE = 0.1;
+
+/**
+ * What identifies the statement that wrote a log entry
+ */
+export interface LogEntry {
+    /** Null when missing or 0, the default of `Microsoft.Extensions.Logging` */
+    eventId: number | null;
+    template: string | null;
+    /** Rendered message */
+    message: string | null;
+    /** Milliseconds since the epoch */
+    timestamp: number | null;
+}
+
+/**
+ * Entries with the same EventId and template (or rendered message, when they have no template)
+ */
+export interface LogEntryGroup {
+    eventId: number | null;
+    template: string | null;
+    /** Only kept for entries without a template */
+    message: string | null;
+    count: number;
+}
+
+/**
+ * Log entries imported from files, grouped by what identifies their statement
+ */
+export interface LogDataset {
+    name: string;
+    files: string[];
+    groups: Map<string, LogEntryGroup>;
+    entryCount: number;
+    /** Lines that are not JSON log entries */
+    invalidLines: number;
+    /** Timestamps of the first and last entries, in milliseconds since the epoch */
+    start: number | null;
+    end: number | null;
+}
+
+/**
+ * Reads JSON log files: one entry per line, as written by the `Microsoft.Extensions.Logging`
+ * JSON console formatter, in Serilog compact format (CLEF) or by Serilog's JSON formatter
+ */
+export async function readLogDataset(filePaths: string[]): Promise<LogDataset> {
+    const name = filePaths.length === 1
+        ? path.basename(filePaths[0])
+        : `${path.basename(filePaths[0])} (+${filePaths.length - 1} more)`;
+    const dataset = createLogDataset(name, filePaths);
+
+    for (const filePath of filePaths) {
+        const lines = readline.createInterface({ input: fs.createReadStream(filePath, 'utf-8'), crlfDelay: Infinity });
+        for await (const line of lines) {
+            addLogLine(dataset, line);
+        }
+    }
+
+    return dataset;
+}
+
+/**
+ * Creates a dataset without entries
+ */
+export function createLogDataset(name: string, files: string[]): LogDataset {
+    return { name, files, groups: new Map(), entryCount: 0, invalidLines: 0, start: null, end: null };
+}
+
+/**
+ * Adds a line of a log file to a dataset. Blank lines are skipped; lines that are not JSON
+ * log entries are counted as invalid.
+ */
+export function addLogLine(dataset: LogDataset, line: string): void {
+    const text = line.trim();
+    if (!text) {
+        return;
+    }
+
+    let entry: LogEntry | null = null;
+    if (text.startsWith('{')) {
+        try {
+            entry = parseLogEntry(JSON.parse(text));
+        } catch {
+            entry = null;
+        }
+    }
+
+    if (!entry) {
+        dataset.invalidLines++;
+        return;
+    }
+
+    const message = entry.template === null ? entry.message : null;
+    const key = JSON.stringify([entry.eventId, entry.template, message]);
+    const group = dataset.groups.get(key) ?? { eventId: entry.eventId, template: entry.template, message, count: 0 };
+    group.count++;
+    dataset.groups.set(key, group);
+    dataset.entryCount++;
+
+    if (entry.timestamp !== null) {
+        dataset.start = dataset.start === null ? entry.timestamp : Math.min(dataset.start, entry.timestamp);
+        dataset.end = dataset.end === null ? entry.timestamp : Math.max(dataset.end, entry.timestamp);
+    }
+}
+
+/**
+ * Reads what identifies the statement that wrote a parsed JSON log entry
+ *
+ * @returns The entry, or null when the value has neither EventId, template nor message
+ */
+export function parseLogEntry(value: unknown): LogEntry | null {
+    if (!isRecord(value)) {
+        return null;
+    }
+
+    // JSON console formatter: State; Serilog JSON formatter: Properties; CLEF: the entry itself
+    const properties = isRecord(value.State) ? value.State : isRecord(value.Properties) ? value.Properties : value;
+
+    const template = firstString(value['@mt'], value.MessageTemplate, properties['{OriginalFormat}']);
+    const message = firstString(value['@m'], value.RenderedMessage, value.Message);
+    const eventId = toEventId(value.EventId ?? properties.EventId);
+    const timestamp = Date.parse(firstString(value['@t'], value.Timestamp) ?? '');
+
+    if (template === null && message === null && eventId === null) {
+        return null;
+    }
+
+    return { eventId, template, message, timestamp: Number.isNaN(timestamp) ? null : timestamp };
+}
+
+/**
+ * Counts the entries of a dataset written by each statement. An entry is matched by its
+ * template, narrowed down by its EventId; without a known template, by its EventId, narrowed
+ * down by its rendered message; and without either, by its rendered message. Statements that
+ * cannot be told apart (same template and EventId) are each credited with the entries.
+ * Scopes are not counted, as they do not write entries.
+ */
+export function matchLogDataset(dataset: LogDataset, insights: LoggingInsight[]): LogHitCounts {
+    const statements = insights.filter(insight => insight.methodType !== 'BeginScope');
+    const byTemplate = groupBy(statements, insight => insight.messageTemplate || null);
+    const byEventId = groupBy(statements, insight => insight.eventId?.id ?? null);
+    const matcher = new TemplateMatcher();
+
+    const counts: Record<string, number> = {};
+    for (const insight of statements) {
+        counts[insight.id] = 0;
+    }
+
+    let matchedEntries = 0;
+    for (const group of dataset.groups.values()) {
+        const candidates = findCandidates(group, statements, byTemplate, byEventId, matcher);
+        if (candidates.length === 0) {
+            continue;
+        }
+
+        for (const insight of candidates) {
+            counts[insight.id] += group.count;
+        }
+        matchedEntries += group.count;
+    }
+
+    return {
+        dataset: dataset.name,
+        counts,
+        hotThreshold: Math.max(1, Math.ceil(matchedEntries * HOT_SHARE)),
+        matchedEntries,
+        unmatchedEntries: dataset.entryCount - matchedEntries,
+        start: dataset.start,
+        end: dataset.end
+    };
+}
+
+/**
+ * Gets what matching a dataset depends on in the insights: statements matched with the same key
+ * get the same hit counts
+ */
+export function getLogMatchKey(insights: LoggingInsight[]): string {
+    return JSON.stringify(insights
+        .filter(insight => insight.methodType !== 'BeginScope')
+        .map(insight => [insight.id, insight.messageTemplate, insight.eventId?.id ?? null]));
+}
+
+/**
+ * Whether a statement never wrote an entry of the dataset (dead) or wrote a large share of
+ * them (hot)
+ *
+ * @returns Undefined for statements that are not counted (scopes) or neither dead nor hot
+ */
+export function getHitStatus(hits: LogHitCounts, insightId: string): 'dead' | 'hot' | undefined {
+    const count = hits.counts[insightId];
+    if (count === undefined) {
+        return undefined;
+    }
+    if (count === 0) {
+        return 'dead';
+    }
+    return count >= hits.hotThreshold ? 'hot' : undefined;
+}
+
+function findCandidates(
+    group: LogEntryGroup,
+    statements: LoggingInsight[],
+    byTemplate: Map<string, LoggingInsight[]>,
+    byEventId: Map<number, LoggingInsight[]>,
+    matcher: TemplateMatcher
+): LoggingInsight[] {
+    const sameEventId = (insight: LoggingInsight) => insight.eventId?.id === group.eventId;
+
+    if (group.template !== null && byTemplate.has(group.template)) {
+        const candidates = byTemplate.get(group.template)!;
+        return narrow(candidates, group.eventId !== null ? sameEventId : null);
+    }
+
+    if (group.eventId !== null && byEventId.has(group.eventId)) {
+        const candidates = byEventId.get(group.eventId)!;
+        const message = group.message;
+        return narrow(candidates, message !== null ? insight => matcher.match(insight.messageTemplate, message)?.exact === true : null);
+    }
+
+    if (group.message !== null) {
+        return findLogLineSources(statements, group.message, matcher)
+            .filter(source => source.exact)
+            .map(source => source.insight);
+    }
+
+    return [];
+}
+
+/**
+ * Keeps the candidates passing the test, or all of them when none does
+ */
+function narrow(candidates: LoggingInsight[], test: ((insight: LoggingInsight) => boolean) | null): LoggingInsight[] {
+    if (!test) {
+        return candidates;
+    }
+
+    const narrowed = candidates.filter(test);
+    return narrowed.length > 0 ? narrowed : candidates;
+}
+
+function groupBy<K>(insights: LoggingInsight[], getKey: (insight: LoggingInsight) => K | null): Map<K, LoggingInsight[]> {
+    const groups = new Map<K, LoggingInsight[]>();
+    for (const insight of insights) {
+        const key = getKey(insight);
+        if (key === null) {
+            continue;
+        }
+        if (!groups.has(key)) {
+            groups.set(key, []);
+        }
+        groups.get(key)!.push(insight);
+    }
+    return groups;
+}
+
+function toEventId(value: unknown): number | null {
+    const id = isRecord(value) ? value.Id : value;
+    const number = typeof id === 'string' ? Number(id) : id;
+    return typeof number === 'number' && Number.isInteger(number) && number !== 0 ? number : null;
+}
+
+function firstString(...values: unknown[]): string | null {
+    const value = values.find(v => typeof v === 'string' && v !== '');
+    return typeof value === 'string' ? value : null;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,160 @@
+import { LoggingInsight } from '../models/insightViewModel';
+import { splitTemplate } from './utils/messageTemplate';
+
+/**
+ * Value a placeholder was rendered as in a log line
+ */
+export interface PlaceholderValue {
+    name: string;
+    value: string;
+}
+
+/**
+ * How a message template matches a rendered log line
+ */
+export interface TemplateMatch {
+    /** Whether the template matches the whole line, rather than part of it */
+    exact: boolean;
+    /** Share of the line (0-1) made of the template's literal text */
+    coverage: number;
+    values: PlaceholderValue[];
+}
+
+/**
+ * A statement that may have written a log line
+ */
+export interface LogLineSource extends TemplateMatch {
+    insight: LoggingInsight;
+}
+
+/**
+ * A message template compiled to regular expressions matching its rendered lines
+ */
+interface CompiledTemplate {
+    names: string[];
+    /** Matches whole lines */
+    exact: RegExp;
+    /** Matches lines with a prefix (timestamp, level, category) or suffix around the message */
+    partial: RegExp;
+    literalLength: number;
+}
+
+/**
+ * Matches log lines against message templates, compiling each template once. Share one matcher
+ * across the lines of a match, e.g. all entries of an imported dataset.
+ */
+export class TemplateMatcher {
+    private readonly compiled = new Map<string, CompiledTemplate | null>();
+
+    /**
+     * Matches a rendered log line against a message template, as {@link matchTemplate} does
+     */
+    public match(template: string, line: string): TemplateMatch | null {
+        let compiled = this.compiled.get(template);
+        if (compiled === undefined) {
+            compiled = compileTemplate(template);
+            this.compiled.set(template, compiled);
+        }
+
+        return matchCompiledTemplate(compiled, line);
+    }
+}
+
+/**
+ * Finds the statements whose message template could have rendered a log line, best candidates
+ * first: templates matching the whole line, then those covering more of it with literal text
+ *
+ * @param matcher - Matcher to reuse the compiled templates of, when matching several lines
+ */
+export function findLogLineSources(insights: LoggingInsight[], line: string, matcher: TemplateMatcher = new TemplateMatcher()): LogLineSource[] {
+    const sources: LogLineSource[] = [];
+
+    for (const insight of insights) {
+        const template = insight.messageTemplate;
+        if (!template) {
+            continue;
+        }
+
+        const match = matcher.match(template, line);
+        if (match) {
+            sources.push({ insight, ...match });
+        }
+    }
+
+    return sources.sort((a, b) =>
+        Number(b.exact) - Number(a.exact) ||
+        b.coverage - a.coverage ||
+        b.insight.messageTemplate.length - a.insight.messageTemplate.length
+    );
+}
+
+/**
+ * Matches a rendered log line against a message template. Placeholders, including their
+ * alignment and format (`{Elapsed,8:0.00}`), match any text; whitespace matches any whitespace
+ * and letters match regardless of case.
+ *
+ * @returns The match, or null when the template cannot have rendered the line or has no literal
+ * text to tell it apart from other templates
+ */
+export function matchTemplate(template: string, line: string): TemplateMatch | null {
+    return matchCompiledTemplate(compileTemplate(template), line);
+}
+
+function matchCompiledTemplate(compiled: CompiledTemplate | null, line: string): TemplateMatch | null {
+    if (!compiled) {
+        return null;
+    }
+
+    const text = line.trim().replace(/\s+/g, ' ');
+    const exactMatch = compiled.exact.exec(text);
+    const match = exactMatch ?? compiled.partial.exec(text);
+    if (!match) {
+        return null;
+    }
+
+    return {
+        exact: exactMatch !== null,
+        coverage: Math.min(1, compiled.literalLength / text.length),
+        values: compiled.names.map((name, index) => ({ name, value: match[index + 1].trim() }))
+    };
+}
+
+function compileTemplate(template: string): CompiledTemplate | null {
+    const segments = splitTemplate(template);
+    if (!segments.some(segment => segment.kind === 'text' && /[\p{L}\p{N}]/u.test(segment.text))) {
+        return null;
+    }
+
+    const names: string[] = [];
+    const exact: string[] = [];
+    const partial: string[] = [];
+    let literalLength = 0;
+
+    segments.forEach((segment, index) => {
+        if (segment.kind === 'text') {
+            const text = segment.text.replace(/\s+/g, ' ');
+            const pattern = escapeRegExp(text).replace(/ /g, '\\s+');
+            exact.push(pattern);
+            partial.push(pattern);
+            literalLength += text.length;
+            return;
+        }
+
+        // A trailing placeholder of a partial match has no text after it to stop at: take one word
+        const last = index === segments.length - 1;
+        names.push(segment.name);
+        exact.push(last ? '(.*)' : '(.*?)');
+        partial.push(last ? '(\\S*)' : '(.*?)');
+    });
+
+    return {
+        names,
+        exact: new RegExp(`^\\s*${exact.join('')}\\s*$`, 'i'),
+        partial: new RegExp(partial.join(''), 'i'),
+        literalLength
+    };
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
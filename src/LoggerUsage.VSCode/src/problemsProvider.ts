@@ -1,13 +1,25 @@
 import * as vscode from 'vscode';
 import { LoggingInsight, ParameterInconsistency } from '../models/insightViewModel';
+import { Baseline, BaselineFinding, FixedBaselineEntry } from './baseline';
+import { Configuration } from './configuration';
+import { DiagnosticPolicy, toDiagnosticSeverity } from './diagnosticPolicy';
+import { EventIdIssue, EventIdIssueType, analyzeEventIds, createProjectRangeLookup } from './eventIdAnalysis';
+import { BUILT_IN_TEMPLATE_RULES, TemplateRule, TemplateRuleContext, TemplateRuleFinding, runTemplateRules } from './templateRules';
+import { loadCustomRules } from './customRules';
+import { SourceTextCache } from './utils/sourceText';
 
 /**
  * Diagnostic codes for different inconsistency types
  */
-enum DiagnosticCode {
+export enum DiagnosticCode {
     ParameterNameMismatch = 'LU001',
     MissingEventId = 'LU002',
     SensitiveDataInLog = 'LU003',
+    DuplicateEventId = 'LU004',
+    EventIdNameConflict = 'LU005',
+    EventIdOutOfRange = 'LU006',
+    // LU007-LU012: template rules, see BUILT_IN_TEMPLATE_RULES
+    FixedBaselineEntry = 'LU900',
     UnknownInconsistency = 'LU999'
 }
 
@@ -17,24 +29,62 @@ enum DiagnosticCode {
 export class ProblemsProvider implements vscode.Disposable {
     private readonly diagnosticCollection: vscode.DiagnosticCollection;
     private readonly diagnosticSource = 'LoggerUsage';
+    private policy = new DiagnosticPolicy();
+    private baseline = Baseline.empty();
+    private findings: BaselineFinding[] = [];
+    /** Source of the statements, kept across updates so streamed results and saves do not read every file again */
+    private readonly sources = new SourceTextCache();
+    private ruleContext: TemplateRuleContext = this.createRuleContext(this.sources);
+    private rules: TemplateRule[] = BUILT_IN_TEMPLATE_RULES;
+    /** Errors last shown per settings file kind, so they are not shown again on every update */
+    private readonly shownErrors = new Map<string, string>();
+    private readonly disposables: vscode.Disposable[] = [];
 
     constructor() {
         this.diagnosticCollection = vscode.languages.createDiagnosticCollection('loggerUsage');
+
+        // Edited, closed and changed files are read again on the next update
+        const invalidate = (uri: vscode.Uri) => this.sources.invalidate(uri.fsPath);
+        const sourceWatcher = vscode.workspace.createFileSystemWatcher('**/*.cs');
+        this.disposables.push(
+            sourceWatcher,
+            sourceWatcher.onDidChange(invalidate),
+            sourceWatcher.onDidCreate(invalidate),
+            sourceWatcher.onDidDelete(invalidate),
+            vscode.workspace.onDidChangeTextDocument(event => invalidate(event.document.uri)),
+            vscode.workspace.onDidCloseTextDocument(document => invalidate(document.uri))
+        );
     }
 
     /**
      * Updates diagnostics based on current insights
      */
     public updateInsights(insights: LoggingInsight[]): void {
+        this.prepareUpdate();
+
         // Group insights by file
         const diagnosticsByFile = this.groupDiagnosticsByFile(insights);
 
+        // EventId problems only show when comparing insights with each other
+        const getRange = createProjectRangeLookup(Configuration.getEventIdRanges());
+        for (const issue of analyzeEventIds(insights, getRange)) {
+            const diagnostic = this.applyPolicy(this.createEventIdDiagnostic(issue), issue.insight);
+            if (diagnostic) {
+                this.getFileDiagnostics(diagnosticsByFile, issue.insight.location.filePath).push(diagnostic);
+            }
+        }
+
+        // Baseline entries that no longer reproduce are flagged in the baseline file
+        for (const fixed of this.baseline.getFixedEntries()) {
+            this.getFileDiagnostics(diagnosticsByFile, fixed.baselinePath).push(this.createFixedBaselineDiagnostic(fixed));
+        }
+
         // Clear all existing diagnostics
         this.diagnosticCollection.clear();
 
         // Set diagnostics for each file
-        for (const [uri, diagnostics] of diagnosticsByFile) {
-            this.diagnosticCollection.set(uri, diagnostics);
+        for (const [filePath, diagnostics] of diagnosticsByFile) {
+            this.diagnosticCollection.set(vscode.Uri.file(filePath), diagnostics);
         }
     }
 
@@ -43,11 +93,20 @@ export class ProblemsProvider implements vscode.Disposable {
      */
     public updateFile(filePath: string, insights: LoggingInsight[]): void {
         const uri = vscode.Uri.file(filePath);
+        this.prepareUpdate();
         const diagnostics = this.createDiagnosticsForInsights(insights);
 
         this.diagnosticCollection.set(uri, diagnostics);
     }
 
+    /**
+     * Gets the findings of the last update that passed the severity settings and suppressions,
+     * including those hidden by the baseline
+     */
+    public getFindings(): BaselineFinding[] {
+        return this.findings;
+    }
+
     /**
      * Clears diagnostics for a specific file
      */
@@ -64,38 +123,45 @@ export class ProblemsProvider implements vscode.Disposable {
     }
 
     /**
-     * Disposes of the diagnostic collection
+     * Disposes of the diagnostic collection and stops watching source files
      */
     public dispose(): void {
         this.diagnosticCollection.dispose();
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables.length = 0;
     }
 
     // ==================== Private Methods ====================
 
     /**
-     * Groups diagnostics by file URI
+     * Groups diagnostics by file path
      */
-    private groupDiagnosticsByFile(insights: LoggingInsight[]): Map<vscode.Uri, vscode.Diagnostic[]> {
-        const diagnosticsByFile = new Map<vscode.Uri, vscode.Diagnostic[]>();
-
-        // Only process insights with inconsistencies
-        const insightsWithIssues = insights.filter(i => i.hasInconsistencies && i.inconsistencies);
-
-        for (const insight of insightsWithIssues) {
-            const uri = vscode.Uri.file(insight.location.filePath);
+    private groupDiagnosticsByFile(insights: LoggingInsight[]): Map<string, vscode.Diagnostic[]> {
+        const diagnosticsByFile = new Map<string, vscode.Diagnostic[]>();
 
-            if (!diagnosticsByFile.has(uri)) {
-                diagnosticsByFile.set(uri, []);
-            }
-
-            const diagnostics = diagnosticsByFile.get(uri)!;
+        for (const insight of insights) {
             const newDiagnostics = this.createDiagnosticsForInsight(insight);
-            diagnostics.push(...newDiagnostics);
+            if (newDiagnostics.length > 0) {
+                this.getFileDiagnostics(diagnosticsByFile, insight.location.filePath).push(...newDiagnostics);
+            }
         }
 
         return diagnosticsByFile;
     }
 
+    /**
+     * Gets the diagnostics collected for a file, adding an empty list on first use
+     */
+    private getFileDiagnostics(diagnosticsByFile: Map<string, vscode.Diagnostic[]>, filePath: string): vscode.Diagnostic[] {
+        let diagnostics = diagnosticsByFile.get(filePath);
+        if (!diagnostics) {
+            diagnostics = [];
+            diagnosticsByFile.set(filePath, diagnostics);
+        }
+
+        return diagnostics;
+    }
+
     /**
      * Creates diagnostics for multiple insights
      */
@@ -103,9 +169,7 @@ export class ProblemsProvider implements vscode.Disposable {
         const diagnostics: vscode.Diagnostic[] = [];
 
         for (const insight of insights) {
-            if (insight.hasInconsistencies && insight.inconsistencies) {
-                diagnostics.push(...this.createDiagnosticsForInsight(insight));
-            }
+            diagnostics.push(...this.createDiagnosticsForInsight(insight));
         }
 
         return diagnostics;
@@ -115,29 +179,146 @@ export class ProblemsProvider implements vscode.Disposable {
      * Creates diagnostics for a single insight
      */
     private createDiagnosticsForInsight(insight: LoggingInsight): vscode.Diagnostic[] {
-        if (!insight.inconsistencies || insight.inconsistencies.length === 0) {
-            return [];
-        }
-
         const diagnostics: vscode.Diagnostic[] = [];
 
-        for (const inconsistency of insight.inconsistencies) {
-            const diagnostic = this.createDiagnostic(insight, inconsistency);
-            diagnostics.push(diagnostic);
+        for (const inconsistency of insight.inconsistencies ?? []) {
+            const diagnostic = this.applyPolicy(this.createDiagnostic(insight, inconsistency), insight);
+            if (diagnostic) {
+                diagnostics.push(diagnostic);
+            }
+        }
+
+        for (const finding of runTemplateRules(insight, this.ruleContext, this.rules)) {
+            const diagnostic = this.applyPolicy(this.createRuleDiagnostic(insight, finding), insight);
+            if (diagnostic) {
+                diagnostics.push(diagnostic);
+            }
         }
 
         return diagnostics;
     }
 
     /**
-     * Safely creates a VS Code Position from location data (converts from 1-based to 0-based)
+     * Reloads settings, suppressions, custom rules and the baseline before diagnostics are created
+     */
+    private prepareUpdate(): void {
+        this.policy = this.loadPolicy(this.sources);
+        this.baseline = this.loadBaseline();
+        this.ruleContext = this.createRuleContext(this.sources);
+        this.rules = [...BUILT_IN_TEMPLATE_RULES, ...this.loadCustomRules()];
+        this.findings = [];
+    }
+
+    /**
+     * Creates what template rules can look at besides the insight
+     */
+    private createRuleContext(sources: SourceTextCache): TemplateRuleContext {
+        return {
+            getStatementText: location => sources.getStatementText(location),
+            placeholderCasing: Configuration.getPlaceholderCasing()
+        };
+    }
+
+    /**
+     * Applies the configured level of the diagnostic's code and drops suppressed and baselined diagnostics
+     *
+     * @returns The diagnostic, or null if it is turned off, suppressed or in the baseline
+     */
+    private applyPolicy(diagnostic: vscode.Diagnostic, insight: LoggingInsight): vscode.Diagnostic | null {
+        const code = String(diagnostic.code);
+        const level = this.policy.getLevel(code, insight.location.filePath);
+
+        if (level === 'off' || this.policy.isSuppressed(code, insight.location, insight.messageTemplate)) {
+            return null;
+        }
+        if (level) {
+            diagnostic.severity = toDiagnosticSeverity(level);
+        }
+
+        const finding = { code, filePath: insight.location.filePath, messageTemplate: insight.messageTemplate };
+        this.findings.push(finding);
+        if (this.baseline.matches(finding)) {
+            return null;
+        }
+
+        return diagnostic;
+    }
+
+    /**
+     * Loads the custom rules files of the workspace folders; invalid rules are skipped with a warning
+     */
+    private loadCustomRules(): TemplateRule[] {
+        const { rules, errors } = loadCustomRules((vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri.fsPath));
+
+        this.showErrors('rules', errors);
+
+        return rules;
+    }
+
+    /**
+     * Loads the severity settings and the suppressions files; an unreadable suppressions file suppresses nothing
+     */
+    private loadPolicy(sources: SourceTextCache): DiagnosticPolicy {
+        const errors: string[] = [];
+        const policy = DiagnosticPolicy.fromWorkspace(sources, error => errors.push(error));
+        this.showErrors('suppressions', errors);
+
+        return policy;
+    }
+
+    /**
+     * Shows the errors of reading a kind of settings file, unless they were already shown on the last update
+     */
+    private showErrors(kind: string, errors: string[]): void {
+        const shownErrors = errors.join('\n');
+        if (shownErrors && shownErrors !== this.shownErrors.get(kind)) {
+            vscode.window.showWarningMessage(errors.join(' '));
+        }
+        this.shownErrors.set(kind, shownErrors);
+    }
+
+    /**
+     * Loads the baseline files of the workspace folders; an unreadable baseline hides nothing
+     */
+    private loadBaseline(): Baseline {
+        try {
+            const baseline = Baseline.load((vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri.fsPath));
+            this.showErrors('baseline', []);
+            return baseline;
+        } catch (error) {
+            this.showErrors('baseline', [error instanceof Error ? error.message : String(error)]);
+            return Baseline.empty();
+        }
+    }
+
+    /**
+     * Creates a diagnostic on a baseline entry whose findings are gone
+     */
+    private createFixedBaselineDiagnostic(fixed: FixedBaselineEntry): vscode.Diagnostic {
+        const { entry, fixedCount } = fixed;
+        const what = fixedCount === entry.count ? 'no longer reproduces' : `has ${fixedCount} of ${entry.count} findings fixed`;
+        const diagnostic = new vscode.Diagnostic(
+            new vscode.Range(fixed.line, 0, fixed.line, Number.MAX_SAFE_INTEGER),
+            `Baseline entry ${what} (${entry.code} in ${entry.file}). Run "Logger Usage: Create Baseline" to update the baseline.`,
+            vscode.DiagnosticSeverity.Hint
+        );
+
+        diagnostic.source = this.diagnosticSource;
+        diagnostic.code = DiagnosticCode.FixedBaselineEntry;
+        diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
+
+        return diagnostic;
+    }
+
+    /**
+     * Safely creates a VS Code Position from location data (0-based, as reported by Roslyn)
      */
     private createPosition(line: number, column: number): vscode.Position {
-        return new vscode.Position(Math.max(0, line - 1), Math.max(0, column - 1));
+        return new vscode.Position(Math.max(0, line), Math.max(0, column));
     }
 
     /**
-     * Safely creates a VS Code Range from location data (converts from 1-based to 0-based)
+     * Safely creates a VS Code Range from location data (0-based, as reported by Roslyn)
      */
     private createRange(location: { startLine: number; startColumn: number; endLine: number; endColumn: number }): vscode.Range {
         return new vscode.Range(
@@ -178,6 +359,60 @@ export class ProblemsProvider implements vscode.Disposable {
         return diagnostic;
     }
 
+    /**
+     * Creates a diagnostic for an EventId problem, linking the other statements involved
+     */
+    private createEventIdDiagnostic(issue: EventIdIssue): vscode.Diagnostic {
+        const diagnostic = new vscode.Diagnostic(
+            this.createRange(issue.insight.location),
+            issue.message,
+            vscode.DiagnosticSeverity.Warning
+        );
+
+        diagnostic.source = this.diagnosticSource;
+        diagnostic.code = this.getEventIdDiagnosticCode(issue.type);
+        diagnostic.relatedInformation = issue.related.map(other =>
+            new vscode.DiagnosticRelatedInformation(
+                new vscode.Location(vscode.Uri.file(other.location.filePath), this.createRange(other.location)),
+                other.eventId?.name
+                    ? `EventId ${other.eventId.id} ('${other.eventId.name}'): "${other.messageTemplate}"`
+                    : `EventId ${other.eventId?.id}: "${other.messageTemplate}"`
+            )
+        );
+
+        return diagnostic;
+    }
+
+    /**
+     * Creates a diagnostic for a problem found by a template rule
+     */
+    private createRuleDiagnostic(insight: LoggingInsight, finding: TemplateRuleFinding): vscode.Diagnostic {
+        const diagnostic = new vscode.Diagnostic(
+            this.createRange(insight.location),
+            finding.message,
+            toDiagnosticSeverity(finding.rule.defaultLevel)
+        );
+
+        diagnostic.source = this.diagnosticSource;
+        diagnostic.code = finding.rule.code;
+
+        return diagnostic;
+    }
+
+    /**
+     * Gets diagnostic code for EventId problem type
+     */
+    private getEventIdDiagnosticCode(type: EventIdIssueType): string {
+        switch (type) {
+            case 'DuplicateEventId':
+                return DiagnosticCode.DuplicateEventId;
+            case 'EventIdNameConflict':
+                return DiagnosticCode.EventIdNameConflict;
+            case 'EventIdOutOfRange':
+                return DiagnosticCode.EventIdOutOfRange;
+        }
+    }
+
     /**
      * Maps inconsistency severity to VS Code diagnostic severity
      */
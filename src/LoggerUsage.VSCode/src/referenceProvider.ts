@@ -0,0 +1,109 @@
+import * as vscode from 'vscode';
+import { Invocation, Location, LoggingInsight } from '../models/insightViewModel';
+import { findInsightAtLine, toVscodeLocation } from './utils/insightLocation';
+
+/**
+ * What a line of a document is about: a logging statement, or a call of a `[LoggerMessage]` method
+ */
+export interface LoggingTarget {
+    /** The statement, or the declaration of the called method */
+    insight: LoggingInsight;
+    /** The call, when the line calls a `[LoggerMessage]` method */
+    invocation?: Invocation;
+}
+
+/**
+ * A location related to a logging statement, with the insight logged there if any
+ */
+export interface LoggingReference {
+    location: Location;
+    /** Undefined for calls of `[LoggerMessage]` methods */
+    insight?: LoggingInsight;
+}
+
+/**
+ * Finds statements related to the logging statement under the cursor: the same EventId, the same
+ * message template or the same `[LoggerMessage]` method (declaration and calls)
+ */
+export class LoggingReferenceProvider implements vscode.ReferenceProvider, vscode.DefinitionProvider {
+    constructor(private readonly getInsights: () => LoggingInsight[]) {}
+
+    /**
+     * Provides the statements related to the one at the position
+     */
+    public provideReferences(document: vscode.TextDocument, position: vscode.Position): vscode.Location[] {
+        const insights = this.getInsights();
+        const target = findTargetAtLine(insights, document.uri.fsPath, position.line);
+
+        return target ? findReferences(insights, target).map(reference => toVscodeLocation(reference.location)) : [];
+    }
+
+    /**
+     * Provides the declaration of the `[LoggerMessage]` method called at the position
+     */
+    public provideDefinition(document: vscode.TextDocument, position: vscode.Position): vscode.Location[] {
+        const target = findTargetAtLine(this.getInsights(), document.uri.fsPath, position.line);
+
+        return target?.invocation ? [toVscodeLocation(target.insight.location)] : [];
+    }
+}
+
+/**
+ * Finds what a line of a file is about, preferring the logging statement on the line
+ */
+export function findTargetAtLine(insights: LoggingInsight[], filePath: string, line: number): LoggingTarget | undefined {
+    const insight = findInsightAtLine(insights, filePath, line);
+    if (insight) {
+        return { insight };
+    }
+
+    const fsPath = vscode.Uri.file(filePath).fsPath;
+    for (const declaration of insights) {
+        const invocation = declaration.invocations?.find(i =>
+            line >= i.location.startLine &&
+            line <= Math.max(i.location.startLine, i.location.endLine) &&
+            vscode.Uri.file(i.location.filePath).fsPath === fsPath
+        );
+        if (invocation) {
+            return { insight: declaration, invocation };
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Finds the statements logging the same EventId or message template as the target, and the
+ * declaration and calls of its `[LoggerMessage]` method; each location once, the target's included
+ */
+export function findReferences(insights: LoggingInsight[], target: LoggingTarget): LoggingReference[] {
+    const references = new Map<string, LoggingReference>();
+    const add = (reference: LoggingReference) => {
+        const key = `${vscode.Uri.file(reference.location.filePath).fsPath}:${reference.location.startLine}`;
+        if (!references.has(key)) {
+            references.set(key, reference);
+        }
+    };
+
+    add({ location: target.insight.location, insight: target.insight });
+    target.insight.invocations?.forEach(invocation => add({ location: invocation.location }));
+
+    const eventId = target.insight.eventId?.id;
+    const template = target.insight.messageTemplate;
+    for (const insight of insights) {
+        const sameEventId = eventId !== null && eventId !== undefined && insight.eventId?.id === eventId;
+        const sameTemplate = template !== '' && insight.messageTemplate === template;
+        if (sameEventId || sameTemplate) {
+            add({ location: insight.location, insight });
+        }
+    }
+
+    return [...references.values()];
+}
+
+/**
+ * Finds the statements logging an EventId
+ */
+export function findEventIdUsages(insights: LoggingInsight[], eventId: number): LoggingInsight[] {
+    return insights.filter(insight => insight.eventId?.id === eventId);
+}
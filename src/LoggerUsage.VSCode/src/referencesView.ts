@@ -0,0 +1,109 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+/**
+ * A location listed in the References view
+ */
+export interface ReferenceItem {
+    location: vscode.Location;
+    /** Shown instead of the source line, e.g. the message template */
+    label: string;
+}
+
+/**
+ * The part of the API of the built-in References view (vscode.references-view) used here
+ */
+interface SymbolTree {
+    setInput(input: SymbolTreeInput): void;
+}
+
+interface SymbolTreeInput {
+    readonly contextValue: string;
+    readonly title: string;
+    readonly location: vscode.Location;
+    resolve(): SymbolTreeModel;
+    with(location: vscode.Location): SymbolTreeInput;
+}
+
+interface SymbolTreeModel {
+    provider: vscode.TreeDataProvider<ReferenceNode>;
+    message: string | undefined;
+}
+
+type ReferenceNode = { uri: vscode.Uri; items: ReferenceItem[] } | ReferenceItem;
+
+/**
+ * Lists locations in the References view, grouped by file. Falls back to the peek view when the
+ * built-in References view extension is disabled.
+ *
+ * @param origin Location the search started from
+ */
+export async function showInReferencesView(title: string, origin: vscode.Location, items: ReferenceItem[]): Promise<void> {
+    const extension = vscode.extensions.getExtension<SymbolTree>('vscode.references-view');
+    const symbolTree = extension ? await extension.activate() : undefined;
+
+    if (!symbolTree || typeof symbolTree.setInput !== 'function') {
+        await vscode.commands.executeCommand('editor.action.showReferences', origin.uri, origin.range.start, items.map(i => i.location));
+        return;
+    }
+
+    symbolTree.setInput(createInput(title, origin, items));
+}
+
+function createInput(title: string, origin: vscode.Location, items: ReferenceItem[]): SymbolTreeInput {
+    return {
+        contextValue: 'loggerUsage.references',
+        title,
+        location: origin,
+        resolve: () => ({
+            provider: new ReferencesTreeProvider(items),
+            message: items.length === 0
+                ? 'No results.'
+                : `${items.length} ${items.length === 1 ? 'result' : 'results'} in ${new Set(items.map(i => i.location.uri.fsPath)).size} files`
+        }),
+        with: location => createInput(title, location, items)
+    };
+}
+
+/**
+ * Tree of files and the references in them
+ */
+class ReferencesTreeProvider implements vscode.TreeDataProvider<ReferenceNode> {
+    private readonly files: { uri: vscode.Uri; items: ReferenceItem[] }[];
+
+    constructor(items: ReferenceItem[]) {
+        const byFile = new Map<string, { uri: vscode.Uri; items: ReferenceItem[] }>();
+        for (const item of items) {
+            const key = item.location.uri.fsPath;
+            if (!byFile.has(key)) {
+                byFile.set(key, { uri: item.location.uri, items: [] });
+            }
+            byFile.get(key)!.items.push(item);
+        }
+        this.files = [...byFile.values()];
+    }
+
+    public getTreeItem(node: ReferenceNode): vscode.TreeItem {
+        if ('uri' in node) {
+            const item = new vscode.TreeItem(node.uri, vscode.TreeItemCollapsibleState.Expanded);
+            item.description = `${vscode.workspace.asRelativePath(path.dirname(node.uri.fsPath))} · ${node.items.length}`;
+            return item;
+        }
+
+        const item = new vscode.TreeItem(node.label, vscode.TreeItemCollapsibleState.None);
+        item.description = `line ${node.location.range.start.line + 1}`;
+        item.command = {
+            command: 'vscode.open',
+            title: 'Open',
+            arguments: [node.location.uri, { selection: node.location.range }]
+        };
+        return item;
+    }
+
+    public getChildren(node?: ReferenceNode): ReferenceNode[] {
+        if (!node) {
+            return this.files;
+        }
+        return 'uri' in node ? node.items : [];
+    }
+}
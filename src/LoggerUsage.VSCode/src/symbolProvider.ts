@@ -0,0 +1,148 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { LoggingInsight } from '../models/insightViewModel';
+import { toVscodeLocation } from './utils/insightLocation';
+
+/**
+ * A searchable name of a logging statement
+ */
+export interface LoggingSymbol {
+    name: string;
+    kind: 'template' | 'eventId' | 'method';
+    insight: LoggingInsight;
+}
+
+/**
+ * A symbol matching a query, with how well it matches
+ */
+export interface LoggingSymbolMatch {
+    symbol: LoggingSymbol;
+    score: number;
+}
+
+/**
+ * Most symbols returned per query
+ */
+const MAX_RESULTS = 500;
+
+const SYMBOL_KINDS: Record<LoggingSymbol['kind'], vscode.SymbolKind> = {
+    template: vscode.SymbolKind.String,
+    eventId: vscode.SymbolKind.Constant,
+    method: vscode.SymbolKind.Method
+};
+
+/**
+ * Finds message templates, EventId names and `[LoggerMessage]` methods with Go to Symbol in
+ * Workspace (`Ctrl+T`), so part of a log line leads to the statement logging it
+ */
+export class LoggingWorkspaceSymbolProvider implements vscode.WorkspaceSymbolProvider {
+    constructor(private readonly getInsights: () => LoggingInsight[]) {}
+
+    /**
+     * Provides the logging symbols matching the query, best matches first
+     */
+    public provideWorkspaceSymbols(query: string): vscode.SymbolInformation[] {
+        return searchLoggingSymbols(this.getInsights(), query).map(({ symbol }) => new vscode.SymbolInformation(
+            symbol.name,
+            SYMBOL_KINDS[symbol.kind],
+            getContainerName(symbol),
+            toVscodeLocation(symbol.insight.location)
+        ));
+    }
+}
+
+/**
+ * Gets the searchable names of the statements: their message templates, EventId names and
+ * the names of `[LoggerMessage]` methods
+ */
+export function getLoggingSymbols(insights: LoggingInsight[]): LoggingSymbol[] {
+    const symbols: LoggingSymbol[] = [];
+
+    for (const insight of insights) {
+        if (insight.messageTemplate) {
+            symbols.push({ name: insight.messageTemplate, kind: 'template', insight });
+        }
+        if (insight.eventId?.name) {
+            symbols.push({ name: insight.eventId.name, kind: 'eventId', insight });
+        }
+        if (insight.methodType === 'LoggerMessageAttribute' && insight.methodName) {
+            symbols.push({ name: insight.methodName, kind: 'method', insight });
+        }
+    }
+
+    return symbols;
+}
+
+/**
+ * Finds the symbols matching a query, best matches first
+ */
+export function searchLoggingSymbols(insights: LoggingInsight[], query: string, maxResults: number = MAX_RESULTS): LoggingSymbolMatch[] {
+    const matches: LoggingSymbolMatch[] = [];
+
+    for (const symbol of getLoggingSymbols(insights)) {
+        const score = scoreMatch(query, symbol.name);
+        if (score > 0) {
+            matches.push({ symbol, score });
+        }
+    }
+
+    return matches
+        .sort((a, b) => b.score - a.score || a.symbol.name.length - b.symbol.name.length)
+        .slice(0, maxResults);
+}
+
+/**
+ * Scores how well a text matches a query, ignoring case: exact matches score highest, then
+ * prefixes, whole words, substrings, all words in any order and finally the query's characters in order
+ *
+ * @returns The score, 0 when the text does not match
+ */
+export function scoreMatch(query: string, text: string): number {
+    const normalizedQuery = query.trim().toLowerCase();
+    const normalizedText = text.toLowerCase();
+
+    if (!normalizedQuery) {
+        return 1;
+    }
+    if (normalizedText === normalizedQuery) {
+        return 100;
+    }
+    if (normalizedText.startsWith(normalizedQuery)) {
+        return 90;
+    }
+
+    const index = normalizedText.indexOf(normalizedQuery);
+    if (index >= 0) {
+        return /\w/.test(normalizedText.charAt(index - 1)) ? 60 : 75;
+    }
+
+    const words = normalizedQuery.split(/\s+/);
+    if (words.length > 1 && words.every(word => normalizedText.includes(word))) {
+        return 40;
+    }
+
+    let position = 0;
+    for (const char of normalizedQuery.replace(/\s+/g, '')) {
+        position = normalizedText.indexOf(char, position);
+        if (position < 0) {
+            return 0;
+        }
+        position++;
+    }
+    return 10;
+}
+
+function getContainerName(symbol: LoggingSymbol): string {
+    const { insight } = symbol;
+    const parts: string[] = [];
+
+    if (symbol.kind !== 'template' && insight.messageTemplate) {
+        parts.push(insight.messageTemplate);
+    }
+    if (insight.eventId?.id !== null && insight.eventId?.id !== undefined) {
+        parts.push(`EventId ${insight.eventId.id}`);
+    }
+    parts.push(path.basename(insight.location.filePath));
+
+    return parts.join(' · ');
+}
@@ -0,0 +1,288 @@
+import { LoggingInsight, Location } from '../models/insightViewModel';
+import { DiagnosticLevel } from './diagnosticPolicy';
+import { parsePlaceholders } from './utils/messageTemplate';
+
+/**
+ * Casing convention for template placeholders
+ */
+export type PlaceholderCasing = 'PascalCase' | 'camelCase';
+
+/**
+ * What rules can look at besides the insight
+ */
+export interface TemplateRuleContext {
+    /** Source of a statement, for checks the analysis results cannot answer; null if unreadable */
+    getStatementText(location: Location): string | null;
+    placeholderCasing: PlaceholderCasing;
+}
+
+/**
+ * A check of a single logging statement, reported under its own diagnostic code
+ */
+export interface TemplateRule {
+    /** Diagnostic code, e.g. LU007 */
+    code: string;
+    /** Short name shown in documentation and logs */
+    name: string;
+    /** Severity unless configured in loggerUsage.diagnostics */
+    defaultLevel: Exclude<DiagnosticLevel, 'off'>;
+    /**
+     * Checks a statement
+     * @returns One message per problem found
+     */
+    check(insight: LoggingInsight, context: TemplateRuleContext): string[];
+}
+
+/**
+ * A problem a rule found in a statement
+ */
+export interface TemplateRuleFinding {
+    rule: TemplateRule;
+    message: string;
+}
+
+/**
+ * Built-in message template rules
+ */
+export const BUILT_IN_TEMPLATE_RULES: TemplateRule[] = [
+    {
+        code: 'LU007',
+        name: 'template-interpolation',
+        defaultLevel: 'warning',
+        check: (insight, context) => {
+            // The analysis only extracts constant templates, so only statements without one need a look
+            if ((insight.methodType !== 'LoggerExtension' && insight.methodType !== 'BeginScope') || insight.messageTemplate) {
+                return [];
+            }
+
+            const call = getCallText(context.getStatementText(insight.location));
+            if (!call) {
+                return [];
+            }
+
+            if (/\$@?"|@\$"/.test(call)) {
+                return ['String interpolation used as message template. Use placeholders so values are logged as structured properties.'];
+            }
+
+            // Literals concatenated with each other are still a constant template
+            const withoutLiteralJoins = call.replace(/"\s*\+\s*(?=@?")/g, '"');
+            if (/"\s*\+|\+\s*@?"/.test(withoutLiteralJoins)) {
+                return ['String concatenation used as message template. Use placeholders so values are logged as structured properties.'];
+            }
+
+            return [];
+        }
+    },
+    {
+        code: 'LU008',
+        name: 'placeholder-casing',
+        defaultLevel: 'info',
+        check: (insight, context) => {
+            const messages: string[] = [];
+            const reported = new Set<string>();
+
+            for (const { name } of parsePlaceholders(insight.messageTemplate)) {
+                // Positional holes ({0}) have no casing
+                if (reported.has(name) || !/^[A-Za-z]/.test(name)) {
+                    continue;
+                }
+
+                const expected = context.placeholderCasing === 'PascalCase'
+                    ? name.charAt(0).toUpperCase() + name.substring(1)
+                    : name.charAt(0).toLowerCase() + name.substring(1);
+                if (expected !== name) {
+                    reported.add(name);
+                    messages.push(`Placeholder '{${name}}' should be ${context.placeholderCasing}: '{${expected}}'`);
+                }
+            }
+
+            return messages;
+        }
+    },
+    {
+        code: 'LU009',
+        name: 'duplicate-placeholder',
+        defaultLevel: 'warning',
+        check: insight => {
+            const seen = new Set<string>();
+            const duplicates = new Set<string>();
+
+            for (const { name } of parsePlaceholders(insight.messageTemplate)) {
+                const key = name.toLowerCase();
+                if (seen.has(key)) {
+                    duplicates.add(name);
+                }
+                seen.add(key);
+            }
+
+            return [...duplicates].map(name =>
+                `Placeholder '{${name}}' appears more than once. Each placeholder takes its own argument; use distinct names.`
+            );
+        }
+    },
+    {
+        code: 'LU010',
+        name: 'template-trailing-period',
+        defaultLevel: 'info',
+        check: insight => {
+            const template = insight.messageTemplate.trimEnd();
+            return template.endsWith('.') && !template.endsWith('..')
+                ? ['Message template ends with a period. Log messages are conventionally not sentences.']
+                : [];
+        }
+    },
+    {
+        code: 'LU011',
+        name: 'exception-as-placeholder',
+        defaultLevel: 'warning',
+        check: insight => {
+            const names = new Set<string>();
+
+            insight.parameterTypes?.forEach((type, index) => {
+                if (type && /Exception\??$/.test(type) && insight.parameters[index]) {
+                    names.add(insight.parameters[index]);
+                }
+            });
+            // Older bridges do not report types
+            if (!insight.parameterTypes) {
+                parsePlaceholders(insight.messageTemplate)
+                    .filter(p => /^(ex|exc|exception)$/i.test(p.name))
+                    .forEach(p => names.add(p.name));
+            }
+
+            return [...names].map(name =>
+                `Exception logged as placeholder '{${name}}'. Pass it as the exception argument so its stack trace is kept.`
+            );
+        }
+    },
+    {
+        code: 'LU012',
+        name: 'error-without-exception',
+        defaultLevel: 'info',
+        check: (insight, context) => {
+            if (insight.logLevel !== 'Error' && insight.logLevel !== 'Critical') {
+                return [];
+            }
+
+            const text = context.getStatementText(insight.location);
+            const hasException = insight.methodType === 'LoggerExtension'
+                ? callPassesException(text)
+                : insight.methodType === 'LoggerMessageAttribute'
+                    ? declarationTakesException(text)
+                    : null;
+
+            return hasException === false
+                ? [`${insight.logLevel} logged without an exception. Pass the exception, if there is one, so its stack trace is logged.`]
+                : [];
+        }
+    }
+];
+
+/**
+ * Runs rules over a statement
+ */
+export function runTemplateRules(
+    insight: LoggingInsight,
+    context: TemplateRuleContext,
+    rules: TemplateRule[] = BUILT_IN_TEMPLATE_RULES
+): TemplateRuleFinding[] {
+    const findings: TemplateRuleFinding[] = [];
+
+    for (const rule of rules) {
+        for (const message of rule.check(insight, context)) {
+            findings.push({ rule, message });
+        }
+    }
+
+    return findings;
+}
+
+/**
+ * Gets the text from the opening parenthesis of a `Log*(...)` or `BeginScope(...)` call
+ */
+function getCallText(text: string | null): string | null {
+    const match = text ? /\.(?:Log\w*|BeginScope)\s*(?:<[^>]*>)?\s*\(/.exec(text) : null;
+    return match ? text!.substring(match.index + match[0].length) : null;
+}
+
+/**
+ * Whether a logger extension call passes an exception: any argument before the message
+ * template that is not the EventId or LogLevel
+ *
+ * @returns null when the call cannot be understood, e.g. the template is not a literal
+ */
+function callPassesException(text: string | null): boolean | null {
+    const call = getCallText(text);
+    if (call === null) {
+        return null;
+    }
+
+    for (const argument of splitArguments(call)) {
+        if (/^[$@]*"/.test(argument)) {
+            return false;
+        }
+        if (!/EventId|^LogLevel\./.test(argument)) {
+            return true;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Whether a [LoggerMessage] method declares an exception parameter
+ */
+function declarationTakesException(text: string | null): boolean | null {
+    if (!text) {
+        return null;
+    }
+
+    // Skip the attribute, whose message may mention exceptions
+    const declaration = text.substring(text.lastIndexOf(']') + 1);
+    return /\b[\w.]*Exception\??\s+@?\w+\s*[,)=]/.test(declaration);
+}
+
+/**
+ * Splits the arguments of a call at top-level commas, up to the closing parenthesis
+ */
+function splitArguments(call: string): string[] {
+    const args: string[] = [];
+    let depth = 0;
+    let inString = false;
+    let current = '';
+
+    for (let index = 0; index < call.length; index++) {
+        const char = call[index];
+
+        if (inString) {
+            if (char === '\\') {
+                current += char + (call[index + 1] ?? '');
+                index++;
+                continue;
+            }
+            if (char === '"') {
+                inString = false;
+            }
+        } else if (char === '"') {
+            inString = true;
+        } else if (char === '(' || char === '[' || char === '{') {
+            depth++;
+        } else if (char === ')' || char === ']' || char === '}') {
+            if (depth === 0) {
+                break;
+            }
+            depth--;
+        } else if (char === ',' && depth === 0) {
+            args.push(current.trim());
+            current = '';
+            continue;
+        }
+
+        current += char;
+    }
+
+    if (current.trim()) {
+        args.push(current.trim());
+    }
+    return args;
+}
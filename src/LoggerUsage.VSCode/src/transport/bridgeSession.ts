@@ -0,0 +1,101 @@
+import * as fs from 'fs';
+import { AnalysisResponse, BridgeRequest } from '../../models/ipcMessages';
+
+/**
+ * One line of a bridge session recording (JSONL)
+ */
+export type BridgeSessionEntry =
+    | { timestamp: number; direction: 'request'; message: BridgeRequest }
+    | { timestamp: number; direction: 'response'; message: AnalysisResponse };
+
+/**
+ * Appends every request and response exchanged with the bridge to a JSONL file,
+ * so misbehaving analyses can be attached to bug reports and replayed.
+ */
+export class BridgeSessionRecorder {
+    private readonly stream: fs.WriteStream;
+    private entryCount: number = 0;
+    private failed: boolean = false;
+
+    /**
+     * @param onError Called once when the file cannot be written; nothing is recorded afterwards
+     */
+    constructor(public readonly filePath: string, onError: (error: Error) => void) {
+        this.stream = fs.createWriteStream(filePath, { flags: 'w', encoding: 'utf8' });
+        this.stream.on('error', error => {
+            if (!this.failed) {
+                this.failed = true;
+                onError(error);
+            }
+        });
+    }
+
+    /**
+     * Number of messages recorded so far
+     */
+    public get count(): number {
+        return this.entryCount;
+    }
+
+    /**
+     * Records a request sent to the bridge
+     */
+    public recordRequest(message: BridgeRequest): void {
+        this.write({ timestamp: Date.now(), direction: 'request', message });
+    }
+
+    /**
+     * Records a response received from the bridge
+     */
+    public recordResponse(message: AnalysisResponse): void {
+        this.write({ timestamp: Date.now(), direction: 'response', message });
+    }
+
+    /**
+     * Stops recording; resolves once everything is on disk
+     */
+    public close(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.stream.once('error', reject);
+            this.stream.end(() => resolve());
+        });
+    }
+
+    // ==================== Private Methods ====================
+
+    private write(entry: BridgeSessionEntry): void {
+        if (this.failed) {
+            return;
+        }
+
+        this.entryCount++;
+        this.stream.write(JSON.stringify(entry) + '\n');
+    }
+}
+
+/**
+ * Reads a session recording; lines that are not valid JSON are skipped
+ */
+export function readBridgeSession(filePath: string): BridgeSessionEntry[] {
+    let content: string;
+    try {
+        content = fs.readFileSync(filePath, 'utf8');
+    } catch (error) {
+        throw new Error(`Cannot read bridge session from ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const entries: BridgeSessionEntry[] = [];
+    for (const line of content.split('\n')) {
+        if (!line.trim()) {
+            continue;
+        }
+
+        try {
+            entries.push(JSON.parse(line) as BridgeSessionEntry);
+        } catch {
+            // Truncated last line of a recording that was still being written
+        }
+    }
+
+    return entries;
+}
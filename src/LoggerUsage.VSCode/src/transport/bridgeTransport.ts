@@ -0,0 +1,91 @@
+import * as vscode from 'vscode';
+import { Configuration } from '../configuration';
+import { readBridgeSession } from './bridgeSession';
+import { FakeBridgeTransport, readBridgeFixtures } from './fakeTransport';
+import { PipeBridgeTransport } from './pipeTransport';
+import { ReplayBridgeTransport } from './replayTransport';
+import { StdioBridgeTransport, findBridgeExecutable } from './stdioTransport';
+
+/**
+ * How the extension reaches the bridge:
+ * - `stdio`: spawns the bundled bridge and talks over its stdin/stdout
+ * - `pipe`: attaches to a bridge started with `--pipe <name>`, e.g. under a debugger
+ * - `fake`: answers in memory from recorded responses, without .NET
+ * - `replay`: serves a session recorded with Logger Usage: Record Bridge Session
+ */
+export type BridgeTransportKind = 'stdio' | 'pipe' | 'fake' | 'replay';
+
+/**
+ * Callbacks through which a transport reports what the bridge does
+ */
+export interface BridgeTransportHandlers {
+    /** Bridge output (JSON lines) in chunks as it arrives */
+    onData(data: string): void;
+    /** Diagnostic output of the bridge (stderr) */
+    onLog(message: string): void;
+    /** The connection ended; code and signal are set when a bridge process exited */
+    onClose(code: number | null, signal: string | null): void;
+    onError(error: Error): void;
+}
+
+/**
+ * One connection to a bridge. A new transport is created for every (re)start.
+ */
+export interface BridgeTransport {
+    /** Where the bridge is, for logs and the bridge status (executable path, pipe path, ...) */
+    readonly description: string;
+    /** Whether the bridge lives and dies with this connection, so it is sent `shutdown` when stopped */
+    readonly ownsBridge: boolean;
+    /** Process id of the bridge, when the transport knows it */
+    readonly processId: number | null;
+
+    /**
+     * Starts or attaches to the bridge; resolves once requests can be sent
+     */
+    connect(handlers: BridgeTransportHandlers): Promise<void>;
+
+    /**
+     * Sends one JSON line to the bridge
+     * @throws Error when the connection is not open
+     */
+    send(line: string): void;
+
+    /**
+     * Ends the connection, giving an owned bridge a moment to exit after `shutdown`
+     */
+    close(): void;
+
+    /**
+     * Ends the connection immediately, e.g. when the bridge hangs
+     */
+    kill(): void;
+}
+
+/**
+ * Creates the transport selected by `loggerUsage.bridge.transport`
+ */
+export function createBridgeTransport(extensionPath: string, outputChannel: vscode.OutputChannel): BridgeTransport {
+    switch (Configuration.getBridgeTransport()) {
+        case 'pipe':
+            return new PipeBridgeTransport(Configuration.getBridgePipeName());
+
+        case 'fake':
+            return new FakeBridgeTransport(readBridgeFixtures(Configuration.getBridgeFakeResponsesPath()));
+
+        case 'replay': {
+            const sessionPath = Configuration.getBridgeReplaySessionPath();
+            if (!sessionPath) {
+                throw new Error('No session to replay. Set loggerUsage.bridge.replaySessionPath to a recorded bridge session.');
+            }
+            return new ReplayBridgeTransport(readBridgeSession(sessionPath), sessionPath);
+        }
+
+        default: {
+            const executablePath = findBridgeExecutable(extensionPath, outputChannel);
+            if (!executablePath) {
+                throw new Error('C# Bridge executable not found. Please ensure the extension is properly installed.');
+            }
+            return new StdioBridgeTransport(executablePath);
+        }
+    }
+}
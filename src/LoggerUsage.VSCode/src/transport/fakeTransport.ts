@@ -0,0 +1,172 @@
+import * as fs from 'fs';
+import {
+    AnalysisResponse,
+    BridgeCapability,
+    BridgeRequest,
+    CancelRequest,
+    ShutdownRequest,
+    PROTOCOL_VERSION
+} from '../../models/ipcMessages';
+import { BridgeTransport, BridgeTransportHandlers } from './bridgeTransport';
+
+/**
+ * Recorded bridge output to replay, per analysis command. Every request of a command
+ * replays the same responses with the request's id; commands without fixtures succeed
+ * with no insights.
+ */
+export type BridgeFixtures = Partial<Record<'analyze' | 'analyzeFile' | 'analyzeFiles', AnalysisResponse[]>>;
+
+/**
+ * Requests the fake bridge answers with messages
+ */
+export type AnsweredRequest = Exclude<BridgeRequest, CancelRequest | ShutdownRequest>;
+
+/**
+ * Capabilities the fake bridge advertises
+ */
+const FAKE_CAPABILITIES: BridgeCapability[] = ['cancel', 'streamResults', 'analyzeFiles', 'stats'];
+
+/**
+ * In-memory bridge that answers from fixtures, so the extension runs without .NET.
+ * Answers arrive asynchronously, one message per tick, like output of a real bridge.
+ */
+export class FakeBridgeTransport implements BridgeTransport {
+    public readonly description: string = 'in-memory fake bridge';
+    public readonly ownsBridge = true;
+    public readonly processId = null;
+
+    /** Every request received, for assertions in tests */
+    public readonly requests: BridgeRequest[] = [];
+
+    private handlers: BridgeTransportHandlers | null = null;
+    private readonly cancelledRequests = new Set<string>();
+    private readonly startedAt = Date.now();
+
+    constructor(private readonly fixtures: BridgeFixtures = {}) {}
+
+    public async connect(handlers: BridgeTransportHandlers): Promise<void> {
+        this.handlers = handlers;
+    }
+
+    public send(line: string): void {
+        if (!this.handlers) {
+            throw new Error('Fake bridge not connected');
+        }
+
+        const request = JSON.parse(line) as BridgeRequest;
+        this.requests.push(request);
+
+        switch (request.command) {
+            case 'cancel':
+                this.cancelledRequests.add(request.requestId);
+                break;
+
+            case 'shutdown':
+                this.close();
+                break;
+
+            default: {
+                const messages = this.respondTo(request).map(message => ({ ...message, id: request.id } as AnalysisResponse));
+                this.reply(messages, request.id);
+                break;
+            }
+        }
+    }
+
+    public close(): void {
+        const handlers = this.handlers;
+        this.handlers = null;
+        setImmediate(() => handlers?.onClose(0, null));
+    }
+
+    public kill(): void {
+        const handlers = this.handlers;
+        this.handlers = null;
+        setImmediate(() => handlers?.onClose(null, 'SIGTERM'));
+    }
+
+    /**
+     * Gets the messages answering a request; the caller stamps them with the request id
+     */
+    protected respondTo(request: AnsweredRequest): AnalysisResponse[] {
+        switch (request.command) {
+            case 'ping':
+                return [{
+                    status: 'ready',
+                    id: request.id,
+                    version: 'fake',
+                    protocolVersion: PROTOCOL_VERSION,
+                    capabilities: FAKE_CAPABILITIES
+                }];
+
+            case 'stats':
+                return [{
+                    status: 'stats',
+                    id: request.id,
+                    processId: 0,
+                    uptimeMs: Date.now() - this.startedAt,
+                    workingSetBytes: 0,
+                    managedHeapBytes: 0,
+                    activeRequests: 0
+                }];
+
+            default:
+                return this.fixtures[request.command] ?? [{
+                    status: 'success',
+                    id: request.id,
+                    result: {
+                        insights: [],
+                        summary: {
+                            totalInsights: 0,
+                            byMethodType: {},
+                            byLogLevel: {},
+                            inconsistenciesCount: 0,
+                            filesAnalyzed: 0,
+                            analysisTimeMs: 0
+                        }
+                    }
+                }];
+        }
+    }
+
+    // ==================== Private Methods ====================
+
+    /**
+     * Sends messages one per tick; a cancelled request answers `cancelled` instead of the rest
+     */
+    private reply(messages: AnalysisResponse[], requestId: string): void {
+        const [message, ...rest] = messages;
+        if (!message) {
+            return;
+        }
+
+        setImmediate(() => {
+            if (!this.handlers) {
+                return;
+            }
+
+            if (this.cancelledRequests.delete(requestId)) {
+                this.handlers.onData(JSON.stringify({ status: 'cancelled', id: requestId }) + '\n');
+                return;
+            }
+
+            this.handlers.onData(JSON.stringify(message) + '\n');
+            this.reply(rest, requestId);
+        });
+    }
+}
+
+/**
+ * Reads fixtures for the fake bridge from a JSON file; no path means no fixtures
+ */
+export function readBridgeFixtures(filePath: string): BridgeFixtures {
+    if (!filePath) {
+        return {};
+    }
+
+    try {
+        return JSON.parse(fs.readFileSync(filePath, 'utf8')) as BridgeFixtures;
+    } catch (error) {
+        throw new Error(`Cannot read fake bridge responses from ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
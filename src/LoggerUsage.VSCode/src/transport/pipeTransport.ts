@@ -0,0 +1,80 @@
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { BridgeTransport, BridgeTransportHandlers } from './bridgeTransport';
+
+/**
+ * Attaches to a bridge that is already running with `--pipe <name>`, e.g. one being debugged.
+ * The bridge is not started or stopped by the extension; it waits for the next client when
+ * the connection ends.
+ */
+export class PipeBridgeTransport implements BridgeTransport {
+    public readonly ownsBridge = false;
+    public readonly processId = null;
+    private socket: net.Socket | null = null;
+
+    constructor(private readonly pipeName: string) {}
+
+    public get description(): string {
+        return getPipePath(this.pipeName);
+    }
+
+    public connect(handlers: BridgeTransportHandlers): Promise<void> {
+        const pipePath = getPipePath(this.pipeName);
+
+        return new Promise((resolve, reject) => {
+            const socket = net.connect(pipePath);
+            socket.setEncoding('utf8');
+
+            const onConnectError = (error: Error) => {
+                reject(new Error(
+                    `Could not connect to the bridge at ${pipePath} (${error.message}). ` +
+                    `Start it with: LoggerUsage.VSCode.Bridge --pipe ${this.pipeName}`
+                ));
+            };
+
+            socket.once('error', onConnectError);
+            socket.once('connect', () => {
+                socket.off('error', onConnectError);
+                this.socket = socket;
+
+                socket.on('data', (data: string) => handlers.onData(data));
+                socket.on('error', (error) => handlers.onError(error));
+                socket.on('close', () => {
+                    this.socket = null;
+                    handlers.onClose(null, null);
+                });
+
+                resolve();
+            });
+        });
+    }
+
+    public send(line: string): void {
+        if (!this.socket) {
+            throw new Error(`Not connected to the bridge at ${getPipePath(this.pipeName)}`);
+        }
+
+        this.socket.write(line + '\n');
+    }
+
+    public close(): void {
+        this.socket?.end();
+    }
+
+    public kill(): void {
+        this.socket?.destroy();
+    }
+}
+
+/**
+ * Gets the path .NET uses for a named pipe: a Windows named pipe, or a Unix domain socket
+ * in the temp directory unless the name is already an absolute path
+ */
+export function getPipePath(pipeName: string): string {
+    if (process.platform === 'win32') {
+        return `\\\\.\\pipe\\${pipeName}`;
+    }
+
+    return path.isAbsolute(pipeName) ? pipeName : path.join(os.tmpdir(), `CoreFxPipe_${pipeName}`);
+}
@@ -0,0 +1,63 @@
+import { AnalysisResponse } from '../../models/ipcMessages';
+import { BridgeSessionEntry } from './bridgeSession';
+import { AnsweredRequest, FakeBridgeTransport } from './fakeTransport';
+
+/**
+ * Serves a recorded bridge session (Logger Usage: Record Bridge Session) instead of a bridge.
+ *
+ * Requests are answered with what the bridge answered to the recorded requests of the same
+ * command, in recording order; once a command's recorded answers are used up, the last one
+ * repeats. Handshake and heartbeats fall back to the fake bridge when they were not recorded.
+ */
+export class ReplayBridgeTransport extends FakeBridgeTransport {
+    public readonly description: string;
+
+    // Recorded answers per command, oldest first
+    private readonly exchanges = new Map<string, AnalysisResponse[][]>();
+
+    constructor(entries: BridgeSessionEntry[], source: string) {
+        super();
+        this.description = `replay of ${source}`;
+
+        const answers = new Map<string, AnalysisResponse[]>();
+        for (const entry of entries) {
+            if (entry.direction === 'request') {
+                if (entry.message.command === 'cancel' || entry.message.command === 'shutdown') {
+                    continue;
+                }
+
+                const messages: AnalysisResponse[] = [];
+                answers.set(entry.message.id, messages);
+                const recorded = this.exchanges.get(entry.message.command) ?? [];
+                recorded.push(messages);
+                this.exchanges.set(entry.message.command, recorded);
+            } else if (entry.message.id) {
+                answers.get(entry.message.id)?.push(entry.message);
+            }
+        }
+
+        // Requests the bridge never answered (e.g. recording stopped first) cannot be replayed
+        for (const [command, recorded] of this.exchanges) {
+            this.exchanges.set(command, recorded.filter(messages => messages.length > 0));
+        }
+    }
+
+    protected respondTo(request: AnsweredRequest): AnalysisResponse[] {
+        const recorded = this.exchanges.get(request.command) ?? [];
+        if (recorded.length === 0) {
+            if (request.command === 'ping' || request.command === 'stats') {
+                return super.respondTo(request);
+            }
+
+            return [{
+                status: 'error',
+                id: request.id,
+                message: `No recorded response for '${request.command}'`,
+                details: `The replayed session (${this.description}) contains no answered '${request.command}' request`,
+                errorCode: 'REPLAY_EXHAUSTED'
+            }];
+        }
+
+        return recorded.length > 1 ? recorded.shift()! : recorded[0];
+    }
+}
@@ -0,0 +1,107 @@
+import * as vscode from 'vscode';
+import * as childProcess from 'child_process';
+import * as path from 'path';
+import * as fs from 'fs';
+import { BridgeTransport, BridgeTransportHandlers } from './bridgeTransport';
+
+/**
+ * Spawns the bridge executable and talks to it over stdin/stdout
+ */
+export class StdioBridgeTransport implements BridgeTransport {
+    public readonly ownsBridge = true;
+    private bridgeProcess: childProcess.ChildProcess | null = null;
+
+    constructor(private readonly executablePath: string) {}
+
+    public get description(): string {
+        return this.executablePath;
+    }
+
+    public get processId(): number | null {
+        return this.bridgeProcess?.pid ?? null;
+    }
+
+    public async connect(handlers: BridgeTransportHandlers): Promise<void> {
+        const bridgeProcess = childProcess.spawn(this.executablePath, [], {
+            stdio: ['pipe', 'pipe', 'pipe'],
+            windowsHide: true
+        });
+        this.bridgeProcess = bridgeProcess;
+
+        // Handle stdout - JSON responses
+        if (bridgeProcess.stdout) {
+            bridgeProcess.stdout.setEncoding('utf8');
+            bridgeProcess.stdout.on('data', (data: string) => handlers.onData(data));
+        }
+
+        // Handle stderr - debug logs
+        if (bridgeProcess.stderr) {
+            bridgeProcess.stderr.setEncoding('utf8');
+            bridgeProcess.stderr.on('data', (data: string) => handlers.onLog(data));
+        }
+
+        bridgeProcess.on('exit', (code, signal) => handlers.onClose(code, signal));
+        bridgeProcess.on('error', (error) => handlers.onError(error));
+    }
+
+    public send(line: string): void {
+        if (!this.bridgeProcess || !this.bridgeProcess.stdin) {
+            throw new Error('Bridge process not available');
+        }
+
+        this.bridgeProcess.stdin.write(line + '\n');
+    }
+
+    public close(): void {
+        const bridgeProcess = this.bridgeProcess;
+        if (!bridgeProcess) {
+            return;
+        }
+
+        // Give it a moment to shutdown gracefully
+        setTimeout(() => {
+            if (bridgeProcess.exitCode === null && bridgeProcess.signalCode === null) {
+                bridgeProcess.kill();
+            }
+        }, 1000);
+    }
+
+    public kill(): void {
+        if (this.bridgeProcess && !this.bridgeProcess.killed) {
+            this.bridgeProcess.kill();
+        }
+    }
+}
+
+/**
+ * Finds the C# Bridge executable, logging the locations tried when it is missing
+ */
+export function findBridgeExecutable(extensionPath: string, outputChannel: vscode.OutputChannel): string | null {
+    // Determine the executable name based on platform
+    const exeName = process.platform === 'win32'
+        ? 'LoggerUsage.VSCode.Bridge.exe'
+        : 'LoggerUsage.VSCode.Bridge';
+
+    // Try different possible locations
+    const possiblePaths = [
+        // Development: built locally in Debug
+        path.join(extensionPath, '..', 'LoggerUsage.VSCode.Bridge', 'bin', 'Debug', 'net10.0', exeName),
+        // Development: built locally in Release
+        path.join(extensionPath, '..', 'LoggerUsage.VSCode.Bridge', 'bin', 'Release', 'net10.0', exeName),
+        // Packaged extension: bridge bundled in extension
+        path.join(extensionPath, 'bridge', exeName),
+    ];
+
+    for (const execPath of possiblePaths) {
+        if (fs.existsSync(execPath)) {
+            return execPath;
+        }
+    }
+
+    outputChannel.appendLine('Bridge executable not found in:');
+    for (const execPath of possiblePaths) {
+        outputChannel.appendLine(`  - ${execPath}`);
+    }
+
+    return null;
+}
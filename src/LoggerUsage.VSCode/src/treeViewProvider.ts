@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { LoggingInsight } from '../models/insightViewModel';
+import { LoggingInsight, LogHitCounts } from '../models/insightViewModel';
+import { getHitStatus } from './logImport';
 
 /**
  * Tree node types for the logger usage tree view
@@ -37,6 +38,7 @@ export class LoggerTreeViewProvider implements vscode.TreeDataProvider<TreeNode>
 
     private currentInsights: LoggingInsight[] = [];
     private solutionPath: string | null = null;
+    private logHits: LogHitCounts | null = null;
 
     constructor() {}
 
@@ -55,6 +57,14 @@ export class LoggerTreeViewProvider implements vscode.TreeDataProvider<TreeNode>
         this.refresh();
     }
 
+    /**
+     * Updates the hit counts from imported log files (null when none are imported) and refreshes tree
+     */
+    public updateLogHits(hits: LogHitCounts | null): void {
+        this.logHits = hits;
+        this.refresh();
+    }
+
     /**
      * Refreshes the tree view
      */
@@ -249,8 +259,9 @@ export class LoggerTreeViewProvider implements vscode.TreeDataProvider<TreeNode>
                 label += ' ⚠️';
             }
 
-            // Create description (log level)
-            const description = logLevel;
+            // Create description (log level, and hits in imported logs)
+            const hits = this.logHits?.counts[insight.id];
+            const description = hits === undefined ? logLevel : `${logLevel} · ${this.formatHits(hits)}`;
 
             // Create tooltip (message template preview)
             let tooltip = `${insight.messageTemplate}`;
@@ -260,6 +271,9 @@ export class LoggerTreeViewProvider implements vscode.TreeDataProvider<TreeNode>
             if (insight.hasInconsistencies && insight.inconsistencies) {
                 tooltip += `\n\nIssues:\n${insight.inconsistencies.map(inc => `• ${inc.message}`).join('\n')}`;
             }
+            if (hits !== undefined) {
+                tooltip += `\n\n${this.formatHits(hits)} in ${this.logHits!.dataset}`;
+            }
 
             return {
                 type: TreeNodeType.Insight,
@@ -329,6 +343,12 @@ export class LoggerTreeViewProvider implements vscode.TreeDataProvider<TreeNode>
                 if (element.insight?.hasInconsistencies) {
                     return new vscode.ThemeIcon('warning', new vscode.ThemeColor('problemsWarningIcon.foreground'));
                 }
+                switch (this.logHits && element.insight ? getHitStatus(this.logHits, element.insight.id) : undefined) {
+                    case 'dead':
+                        return new vscode.ThemeIcon('circle-slash', new vscode.ThemeColor('disabledForeground'));
+                    case 'hot':
+                        return new vscode.ThemeIcon('flame', new vscode.ThemeColor('charts.orange'));
+                }
                 return new vscode.ThemeIcon('symbol-event');
             case TreeNodeType.Empty:
                 return new vscode.ThemeIcon('info');
@@ -337,6 +357,16 @@ export class LoggerTreeViewProvider implements vscode.TreeDataProvider<TreeNode>
         }
     }
 
+    /**
+     * Formats the hits of a statement in imported logs
+     */
+    private formatHits(hits: number): string {
+        if (hits === 0) {
+            return 'never fired';
+        }
+        return `${hits.toLocaleString()} ${hits === 1 ? 'hit' : 'hits'}`;
+    }
+
     /**
      * Gets short method type name
      */
@@ -75,6 +75,38 @@ export function debounceAsync<T extends (...args: any[]) => Promise<any>>(
     };
 }
 
+/**
+ * Creates a function that collects the items it is called with and passes them all
+ * to func in a single call, once no new item has arrived for delay milliseconds
+ * 
+ * @param func - The function receiving the collected items
+ * @param delay - The number of milliseconds to wait for further items
+ * @returns A new batching function
+ */
+export function debounceBatch<T>(
+    func: (items: T[]) => void | Promise<void>,
+    delay: number
+): (item: T) => void {
+    let timeoutId: NodeJS.Timeout | null = null;
+    let items: T[] = [];
+
+    return function (item: T): void {
+        items.push(item);
+
+        // Restart the window with every new item
+        if (timeoutId !== null) {
+            clearTimeout(timeoutId);
+        }
+
+        timeoutId = setTimeout(() => {
+            const batch = items;
+            items = [];
+            timeoutId = null;
+            func(batch);
+        }, delay);
+    };
+}
+
 /**
  * Creates a debounced function with a leading edge option
  * 
@@ -0,0 +1,53 @@
+/**
+ * Glob matching for settings and workspace files (`**`, `*`, `?` and `{a,b}`)
+ */
+
+/**
+ * Converts a glob pattern to a regular expression matching whole paths with `/` separators
+ *
+ * @param pattern - The glob pattern, e.g. `src/**` or `{Tests,Legacy}/**`
+ */
+export function globToRegExp(pattern: string): RegExp {
+    let source = '';
+    let braceDepth = 0;
+
+    for (let index = 0; index < pattern.length; index++) {
+        const char = pattern[index];
+
+        if (char === '*') {
+            if (pattern[index + 1] === '*') {
+                if (pattern[index + 2] === '/') {
+                    // `**/` also matches no directory at all
+                    source += '(?:.*/)?';
+                    index += 2;
+                } else {
+                    source += '.*';
+                    index += 1;
+                }
+            } else {
+                source += '[^/]*';
+            }
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '{') {
+            braceDepth++;
+            source += '(?:';
+        } else if (char === '}' && braceDepth > 0) {
+            braceDepth--;
+            source += ')';
+        } else if (char === ',' && braceDepth > 0) {
+            source += '|';
+        } else {
+            source += char.replace(/[.+^$()|[\]\\{}]/g, '\\$&');
+        }
+    }
+
+    return new RegExp(`^${source}$`, process.platform === 'win32' ? 'i' : '');
+}
+
+/**
+ * Whether a path matches a glob pattern; backslashes in the path are treated as separators
+ */
+export function matchesGlob(pattern: string, filePath: string): boolean {
+    return globToRegExp(pattern).test(filePath.replace(/\\/g, '/'));
+}
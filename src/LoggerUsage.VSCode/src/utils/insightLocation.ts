@@ -0,0 +1,42 @@
+import * as vscode from 'vscode';
+import { Location, LoggingInsight } from '../../models/insightViewModel';
+
+/**
+ * Converts the location of a logging statement to a document range (location lines and columns are 0-based)
+ */
+export function toRange(location: Location): vscode.Range {
+    return new vscode.Range(
+        Math.max(0, location.startLine),
+        Math.max(0, location.startColumn),
+        Math.max(0, location.endLine),
+        Math.max(0, location.endColumn)
+    );
+}
+
+/**
+ * Converts the location of a logging statement to a VS Code location
+ */
+export function toVscodeLocation(location: Location): vscode.Location {
+    return new vscode.Location(vscode.Uri.file(location.filePath), toRange(location));
+}
+
+/**
+ * Finds the logging statement spanning a line of a file; the innermost one when statements
+ * are nested, e.g. a call inside a `BeginScope` block
+ */
+export function findInsightAtLine(insights: LoggingInsight[], filePath: string, line: number): LoggingInsight | undefined {
+    const fsPath = vscode.Uri.file(filePath).fsPath;
+    let found: LoggingInsight | undefined;
+
+    for (const insight of insights) {
+        const { startLine, endLine } = insight.location;
+        if (line < startLine || line > Math.max(startLine, endLine) || vscode.Uri.file(insight.location.filePath).fsPath !== fsPath) {
+            continue;
+        }
+        if (!found || endLine - startLine < found.location.endLine - found.location.startLine) {
+            found = insight;
+        }
+    }
+
+    return found;
+}
@@ -0,0 +1,134 @@
+/**
+ * Message template utilities (Microsoft.Extensions.Logging template syntax)
+ */
+
+/**
+ * A `{Name}` hole of a message template
+ */
+export interface TemplatePlaceholder {
+    /** Placeholder name without braces, `@`/`$` prefix, alignment or format */
+    name: string;
+    /** Offset of the name within the template */
+    offset: number;
+}
+
+/**
+ * Extracts the placeholders of a message template in order of appearance.
+ * Escaped braces (`{{`, `}}`) are skipped; `{@Name}`, `{$Name}`, `{Name,10}` and
+ * `{Name:N2}` all yield `Name`.
+ *
+ * @param template - The message template
+ * @returns The placeholders, including repeated ones
+ */
+export function parsePlaceholders(template: string): TemplatePlaceholder[] {
+    const placeholders: TemplatePlaceholder[] = [];
+    let index = 0;
+
+    while (index < template.length) {
+        const open = template.indexOf('{', index);
+        if (open === -1) {
+            break;
+        }
+
+        if (template[open + 1] === '{') {
+            // Escaped brace
+            index = open + 2;
+            continue;
+        }
+
+        const close = template.indexOf('}', open + 1);
+        if (close === -1) {
+            break;
+        }
+
+        let nameStart = open + 1;
+        if (template[nameStart] === '@' || template[nameStart] === '$') {
+            nameStart++;
+        }
+
+        const hole = template.substring(nameStart, close);
+        const name = hole.split(/[,:]/)[0].trim();
+        if (name) {
+            placeholders.push({ name, offset: nameStart });
+        }
+
+        index = close + 1;
+    }
+
+    return placeholders;
+}
+
+/**
+ * Whether a placeholder and an argument name refer to the same value (matching is case-insensitive)
+ */
+export function namesMatch(placeholder: string, argument: string): boolean {
+    return placeholder.toLowerCase() === argument.toLowerCase();
+}
+
+/**
+ * Key under which different spellings of the same name (`UserId`, `userID`, `user_id`) are grouped
+ */
+export function normalizeName(name: string): string {
+    return name.replace(/[^a-zA-Z0-9]/g, '').toLowerCase();
+}
+
+/**
+ * Converts a name to the PascalCase conventionally used for placeholders (`userId` -> `UserId`)
+ */
+export function toPlaceholderName(name: string): string {
+    return name.charAt(0).toUpperCase() + name.substring(1);
+}
+
+/**
+ * A run of literal text, or a placeholder, of a message template
+ */
+export type TemplateSegment =
+    | { kind: 'text'; text: string }
+    | { kind: 'placeholder'; name: string };
+
+/**
+ * Splits a message template into literal text and placeholders, in order of appearance.
+ * Escaped braces (`{{`, `}}`) become single braces of the text, and a `{` that is never
+ * closed is kept as text. Placeholders are named as by {@link parsePlaceholders}.
+ *
+ * @param template - The message template
+ * @returns The segments; adjacent text is merged into one segment
+ */
+export function splitTemplate(template: string): TemplateSegment[] {
+    const segments: TemplateSegment[] = [];
+    let text = '';
+    let index = 0;
+
+    while (index < template.length) {
+        const char = template[index];
+
+        if ((char === '{' || char === '}') && template[index + 1] === char) {
+            // Escaped brace
+            text += char;
+            index += 2;
+            continue;
+        }
+
+        const close = char === '{' ? template.indexOf('}', index + 1) : -1;
+        if (close === -1) {
+            text += char;
+            index++;
+            continue;
+        }
+
+        if (text) {
+            segments.push({ kind: 'text', text });
+            text = '';
+        }
+
+        const hole = template.substring(index + 1, close).replace(/^[@$]/, '');
+        segments.push({ kind: 'placeholder', name: hole.split(/[,:]/)[0].trim() });
+        index = close + 1;
+    }
+
+    if (text) {
+        segments.push({ kind: 'text', text });
+    }
+
+    return segments;
+}
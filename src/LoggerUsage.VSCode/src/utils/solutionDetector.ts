@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
 import * as path from 'path';
 
 /**
@@ -62,6 +63,20 @@ export async function findAllSolutions(
     return solutions;
 }
 
+/**
+ * Finds the C# source files under the directory of a solution
+ * @param solutionPath - Path to the solution file
+ * @param excludePatterns - Glob patterns of files to skip, e.g. build output
+ * @returns Paths of the source files
+ */
+export async function findSourceFiles(solutionPath: string, excludePatterns: string[]): Promise<string[]> {
+    const pattern = new vscode.RelativePattern(path.dirname(solutionPath), '**/*.cs');
+    const exclude = excludePatterns.length > 0 ? `{${excludePatterns.join(',')}}` : null;
+
+    const files = await vscode.workspace.findFiles(pattern, exclude);
+    return files.map(uri => uri.fsPath);
+}
+
 /**
  * Finds the solution file that contains a given file path
  * @param filePath - The file path to check
@@ -96,6 +111,53 @@ export function findSolutionForFile(
     return bestMatch;
 }
 
+/**
+ * Finds the project file (.csproj) a source file belongs to
+ * @param filePath - The source file path
+ * @returns The path of the nearest enclosing .csproj, or null if there is none
+ */
+export function findProjectFile(filePath: string): string | null {
+    let directory = path.dirname(filePath);
+
+    while (true) {
+        try {
+            const projectFile = fs.readdirSync(directory).find(name => name.endsWith('.csproj'));
+            if (projectFile) {
+                return path.join(directory, projectFile);
+            }
+        } catch {
+            // Unreadable or deleted directory; keep looking above it
+        }
+
+        const parent = path.dirname(directory);
+        if (parent === directory) {
+            return null;
+        }
+        directory = parent;
+    }
+}
+
+/**
+ * Finds the directory of the project (.csproj) a source file belongs to
+ * @param filePath - The source file path
+ * @returns The directory of the nearest enclosing .csproj, or null if there is none
+ */
+export function findProjectDirectory(filePath: string): string | null {
+    const projectFile = findProjectFile(filePath);
+    return projectFile ? path.dirname(projectFile) : null;
+}
+
+/**
+ * Checks if a file is inside a directory (at any depth)
+ * @param filePath - The file path to check
+ * @param directory - The directory path
+ * @returns True if the file is below the directory
+ */
+export function isInDirectory(filePath: string, directory: string): boolean {
+    const relative = path.relative(directory, filePath);
+    return !!relative && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
 /**
  * Gets the default solution (first one found)
  * @param workspaceFolders - VS Code workspace folders
@@ -0,0 +1,53 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { Location } from '../../models/insightViewModel';
+
+/**
+ * Reads the source of logging statements for checks the analysis results cannot answer.
+ * Each file is read once, from the editor if it is open (its content may not be saved yet),
+ * and kept until it is invalidated.
+ */
+export class SourceTextCache {
+    /** Lines by file system path */
+    private readonly lines = new Map<string, string[] | null>();
+
+    /**
+     * Gets the lines of a file
+     * @returns The lines, or null if the file cannot be read
+     */
+    public getLines(filePath: string): string[] | null {
+        const fsPath = vscode.Uri.file(filePath).fsPath;
+        let lines = this.lines.get(fsPath);
+        if (lines === undefined) {
+            const document = vscode.workspace.textDocuments?.find(d => d.uri.fsPath === fsPath);
+            try {
+                lines = (document ? document.getText() : fs.readFileSync(filePath, 'utf8')).split(/\r?\n/);
+            } catch {
+                lines = null;
+            }
+            this.lines.set(fsPath, lines);
+        }
+
+        return lines;
+    }
+
+    /**
+     * Forgets the lines of a file, so they are read again on next use
+     */
+    public invalidate(filePath: string): void {
+        this.lines.delete(vscode.Uri.file(filePath).fsPath);
+    }
+
+    /**
+     * Gets the source of a logging statement (location lines are 0-based)
+     * @returns The statement's lines joined with `\n`, or null if the file cannot be read
+     */
+    public getStatementText(location: Location): string | null {
+        const lines = this.getLines(location.filePath);
+        if (!lines || location.startLine >= lines.length) {
+            return null;
+        }
+
+        return lines.slice(location.startLine, Math.max(location.startLine, location.endLine) + 1).join('\n');
+    }
+}
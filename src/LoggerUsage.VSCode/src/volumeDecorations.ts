@@ -0,0 +1,187 @@
+import * as vscode from 'vscode';
+import { LoggingInsight, LogHitCounts } from '../models/insightViewModel';
+
+/**
+ * Colours of the volume bars, from the quietest statements to the loudest
+ */
+const VOLUME_COLORS = ['#89d185', '#cca700', '#f0a030', '#f07030', '#f14c4c'];
+
+/**
+ * Colour of the bar of statements that never fired
+ */
+const DEAD_COLOR = '#808080';
+
+/**
+ * Shortest time span of a dataset from which volumes are shown per day
+ */
+const MIN_RATE_SPAN_MS = 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Shows the volume of each logging statement in the active imported log dataset: a bar in the
+ * gutter, taller and redder for louder statements, and the entries per day after the statement
+ */
+export class VolumeDecorations implements vscode.Disposable {
+    /** Index 0 for statements that never fired, then one per volume level */
+    private readonly decorationTypes: vscode.TextEditorDecorationType[] = [];
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private readonly getInsights: () => LoggingInsight[],
+        private readonly getLogHits: () => LogHitCounts | null
+    ) {
+        for (const color of [DEAD_COLOR, ...VOLUME_COLORS]) {
+            const level = this.decorationTypes.length;
+            this.decorationTypes.push(vscode.window.createTextEditorDecorationType({
+                gutterIconPath: createBarIcon(level, color),
+                gutterIconSize: 'contain',
+                overviewRulerColor: level === VOLUME_COLORS.length ? color : undefined,
+                overviewRulerLane: vscode.OverviewRulerLane.Left,
+                after: {
+                    color: level === 0 ? new vscode.ThemeColor('disabledForeground') : color,
+                    fontStyle: 'italic',
+                    margin: '0 0 0 2em'
+                },
+                rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed
+            }));
+        }
+
+        this.disposables.push(
+            vscode.window.onDidChangeVisibleTextEditors(editors => editors.forEach(editor => this.update(editor)))
+        );
+    }
+
+    /**
+     * Re-renders the decorations of the visible editors from the current insights and hit counts
+     */
+    public refresh(): void {
+        vscode.window.visibleTextEditors.forEach(editor => this.update(editor));
+    }
+
+    /**
+     * Removes the decorations and stops listening to editor changes
+     */
+    public dispose(): void {
+        this.decorationTypes.forEach(type => type.dispose());
+        this.decorationTypes.length = 0;
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables.length = 0;
+    }
+
+    // ==================== Private Methods ====================
+
+    private update(editor: vscode.TextEditor): void {
+        const decorations: vscode.DecorationOptions[][] = this.decorationTypes.map(() => []);
+        const hits = this.getLogHits();
+
+        if (hits && editor.document.languageId === 'csharp') {
+            const document = editor.document;
+            const fsPath = document.uri.fsPath;
+            const maxCount = Math.max(0, ...Object.values(hits.counts));
+
+            for (const insight of this.getInsights()) {
+                const count = hits.counts[insight.id];
+                if (count === undefined || vscode.Uri.file(insight.location.filePath).fsPath !== fsPath || insight.location.startLine >= document.lineCount) {
+                    continue;
+                }
+
+                const line = document.lineAt(Math.min(Math.max(insight.location.startLine, insight.location.endLine), document.lineCount - 1));
+                decorations[getVolumeLevel(count, maxCount)].push({
+                    range: new vscode.Range(line.range.end, line.range.end),
+                    hoverMessage: formatVolumeDetails(count, hits),
+                    renderOptions: { after: { contentText: formatVolume(count, hits) } }
+                });
+            }
+        }
+
+        // Levels without statements are set too, clearing decorations of removed statements
+        this.decorationTypes.forEach((type, level) => editor.setDecorations(type, decorations[level]));
+    }
+}
+
+/**
+ * Places a statement on the volume scale, logarithmically so that statements of every order of
+ * magnitude stand apart
+ *
+ * @param maxCount - Hits of the loudest statement
+ * @returns 0 for statements that never fired, otherwise 1 (quietest) to 5 (loudest)
+ */
+export function getVolumeLevel(count: number, maxCount: number): number {
+    if (count <= 0) {
+        return 0;
+    }
+    if (count >= maxCount) {
+        return VOLUME_COLORS.length;
+    }
+
+    return Math.max(1, Math.ceil(VOLUME_COLORS.length * Math.log1p(count) / Math.log1p(maxCount)));
+}
+
+/**
+ * Formats the volume of a statement: entries per day when the dataset spans at least an hour,
+ * e.g. `12.3k/day`, otherwise the number of entries, e.g. `1.2k hits`
+ */
+export function formatVolume(count: number, hits: LogHitCounts): string {
+    if (count === 0) {
+        return 'never fired';
+    }
+
+    const perDay = getEntriesPerDay(count, hits);
+    if (perDay !== null) {
+        return `${formatCount(perDay)}/day`;
+    }
+    return `${formatCount(count)} ${count === 1 ? 'hit' : 'hits'}`;
+}
+
+/**
+ * Formats a number with at most three significant digits and a `k`, `M` or `B` suffix
+ */
+export function formatCount(value: number): string {
+    const units: [number, string][] = [[1e9, 'B'], [1e6, 'M'], [1e3, 'k']];
+
+    for (const [size, suffix] of units) {
+        if (value >= size * 0.9995) {
+            const scaled = value / size;
+            return `${scaled.toFixed(scaled < 99.95 ? 1 : 0).replace(/\.0$/, '')}${suffix}`;
+        }
+    }
+
+    if (value > 0 && value < 0.05) {
+        return '<0.1';
+    }
+    return value < 10 && !Number.isInteger(value) ? value.toFixed(1).replace(/\.0$/, '') : String(Math.round(value));
+}
+
+/**
+ * Gets the entries a statement writes per day, or null when the dataset spans less than an hour
+ */
+function getEntriesPerDay(count: number, hits: LogHitCounts): number | null {
+    if (hits.start === null || hits.end === null || hits.end - hits.start < MIN_RATE_SPAN_MS) {
+        return null;
+    }
+    return count * DAY_MS / (hits.end - hits.start);
+}
+
+function formatVolumeDetails(count: number, hits: LogHitCounts): string {
+    if (count === 0) {
+        return `Never fired in ${hits.dataset}`;
+    }
+
+    const share = hits.matchedEntries > 0 ? Math.round(100 * count / hits.matchedEntries) : 0;
+    const perDay = getEntriesPerDay(count, hits);
+    const rate = perDay !== null ? `, ${formatCount(perDay)}/day` : '';
+    return `${count.toLocaleString()} ${count === 1 ? 'entry' : 'entries'} in ${hits.dataset} (${share}% of matched entries${rate})`;
+}
+
+/**
+ * Creates a gutter icon showing a bar as tall as the volume level
+ */
+function createBarIcon(level: number, color: string): vscode.Uri {
+    const height = Math.max(2, Math.round(16 * level / VOLUME_COLORS.length));
+    const svg = level === 0
+        ? `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16"><rect x="6.5" y="12.5" width="4" height="3" fill="none" stroke="${color}"/></svg>`
+        : `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16"><rect x="6" y="${16 - height}" width="5" height="${height}" fill="${color}"/></svg>`;
+
+    return vscode.Uri.parse(`data:image/svg+xml;utf8,${encodeURIComponent(svg)}`);
+}
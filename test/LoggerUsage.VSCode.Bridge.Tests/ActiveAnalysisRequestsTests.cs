@@ -0,0 +1,113 @@
+using Xunit;
+using FluentAssertions;
+using LoggerUsage.VSCode.Bridge.Models;
+
+namespace LoggerUsage.VSCode.Bridge.Tests;
+
+public class ActiveAnalysisRequestsTests
+{
+    private static AnalysisErrorResponse Result(string id) => new()
+    {
+        Id = id,
+        Message = "done",
+        Details = "result of the analysis"
+    };
+
+    [Fact]
+    public void ShouldWriteResultOfRequestThatWasNotCancelled()
+    {
+        var requests = new ActiveAnalysisRequests();
+        var written = new List<IBridgeResponse>();
+
+        var cancellation = requests.Add("req_1");
+        requests.Complete("req_1", cancellation, Result("req_1"), written.Add);
+
+        written.Should().ContainSingle().Which.Should().BeOfType<AnalysisErrorResponse>();
+        requests.Count.Should().Be(0);
+    }
+
+    [Fact]
+    public void ShouldAnswerCancelledInsteadOfResultWhenCancelledWhileRunning()
+    {
+        var requests = new ActiveAnalysisRequests();
+        var written = new List<IBridgeResponse>();
+
+        var cancellation = requests.Add("req_1");
+        var acknowledgement = requests.Cancel("req_1");
+        requests.Complete("req_1", cancellation, Result("req_1"), written.Add);
+
+        acknowledgement.Should().BeNull("the request acknowledges the cancel once it stops");
+        cancellation.IsCancellationRequested.Should().BeTrue();
+        written.Should().ContainSingle().Which.Should().BeEquivalentTo(new AnalysisCancelledResponse { Id = "req_1" });
+    }
+
+    [Fact]
+    public void ShouldAcknowledgeCancelOfFinishedRequestRightAway()
+    {
+        var requests = new ActiveAnalysisRequests();
+        var written = new List<IBridgeResponse>();
+
+        var cancellation = requests.Add("req_1");
+        requests.Complete("req_1", cancellation, Result("req_1"), written.Add);
+        var acknowledgement = requests.Cancel("req_1");
+
+        written.Should().ContainSingle().Which.Should().BeOfType<AnalysisErrorResponse>();
+        acknowledgement.Should().BeEquivalentTo(new AnalysisCancelledResponse { Id = "req_1" });
+    }
+
+    [Fact]
+    public void ShouldAcknowledgeCancelOfUnknownRequestRightAway()
+    {
+        var requests = new ActiveAnalysisRequests();
+
+        requests.Cancel("req_42").Should().BeEquivalentTo(new AnalysisCancelledResponse { Id = "req_42" });
+    }
+
+    [Fact]
+    public async Task ShouldWriteExactlyOneFinalResponseWhenCancelRacesCompletion()
+    {
+        for (var i = 0; i < 200; i++)
+        {
+            var requests = new ActiveAnalysisRequests();
+            var written = new List<IBridgeResponse>();
+            var acknowledgements = new List<IBridgeResponse>();
+
+            var cancellation = requests.Add("req_1");
+            var complete = Task.Run(() => requests.Complete("req_1", cancellation, Result("req_1"), written.Add));
+            var cancel = Task.Run(() =>
+            {
+                if (requests.Cancel("req_1") is { } acknowledgement)
+                {
+                    acknowledgements.Add(acknowledgement);
+                }
+            });
+            await Task.WhenAll(complete, cancel);
+
+            // Either the cancel made it in time and replaced the result, or it came too late
+            // and is acknowledged after the result
+            written.Should().ContainSingle();
+            if (written[0] is AnalysisCancelledResponse)
+            {
+                acknowledgements.Should().BeEmpty();
+            }
+            else
+            {
+                acknowledgements.Should().ContainSingle().Which.Should().BeOfType<AnalysisCancelledResponse>();
+            }
+        }
+    }
+
+    [Fact]
+    public void ShouldCancelEveryRequestOnCancelAll()
+    {
+        var requests = new ActiveAnalysisRequests();
+
+        var first = requests.Add("req_1");
+        var second = requests.Add("req_2");
+        requests.CancelAll();
+
+        first.IsCancellationRequested.Should().BeTrue();
+        second.IsCancellationRequested.Should().BeTrue();
+        requests.Count.Should().Be(2, "cancelled requests are tracked until they complete");
+    }
+}
@@ -0,0 +1,125 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { AnalysisQueue } from '../../src/LoggerUsage.VSCode/src/analysisQueue';
+import { AnalysisSuccessResponse } from '../../src/LoggerUsage.VSCode/models/ipcMessages';
+
+suite('Analysis Queue Test Suite', () => {
+  const solutionPath = 'C:\\test\\Test.sln';
+
+  function createResponse(id: string): AnalysisSuccessResponse {
+    return {
+      status: 'success',
+      id,
+      result: {
+        insights: [],
+        summary: {} as any
+      }
+    };
+  }
+
+  test('Should coalesce duplicate file requests into one analysis', async () => {
+    const queue = new AnalysisQueue();
+    let starts = 0;
+    const start = async () => {
+      starts++;
+      return createResponse('req_1');
+    };
+
+    const first = queue.enqueue({ type: 'file', solutionPath, filePaths: ['C:\\test\\A.cs'], start });
+    const second = queue.enqueue({ type: 'file', solutionPath, filePaths: ['C:\\test\\A.cs'], start });
+
+    assert.deepStrictEqual(queue.getState().pendingFiles, ['C:\\test\\A.cs']);
+
+    queue.startNext('file');
+    const results = await Promise.all([first, second]);
+
+    assert.strictEqual(starts, 1, 'Duplicate requests should share one analysis');
+    assert.strictEqual(results[0], results[1]);
+  });
+
+  test('Should drop queued file requests when a workspace analysis is queued', async () => {
+    const queue = new AnalysisQueue();
+    const start = async () => createResponse('req_1');
+
+    const fileRequest = queue.enqueue({ type: 'file', solutionPath, filePaths: ['C:\\test\\A.cs'], start });
+    queue.enqueue({ type: 'workspace', solutionPath, start });
+
+    await assert.rejects(fileRequest, (error: unknown) => error instanceof vscode.CancellationError);
+    assert.deepStrictEqual(queue.getState(), { pendingWorkspaceAnalyses: 1, pendingFiles: [] });
+  });
+
+  test('Should reject file requests superseded by a queued workspace analysis', async () => {
+    const queue = new AnalysisQueue();
+    const start = async () => createResponse('req_1');
+
+    queue.enqueue({ type: 'workspace', solutionPath, start });
+    const fileRequest = queue.enqueue({ type: 'file', solutionPath, filePaths: ['C:\\test\\A.cs'], start });
+
+    await assert.rejects(fileRequest, (error: unknown) => error instanceof vscode.CancellationError);
+    assert.deepStrictEqual(queue.getState().pendingFiles, []);
+  });
+
+  test('Should keep file requests of other solutions', () => {
+    const queue = new AnalysisQueue();
+    const start = async () => createResponse('req_1');
+
+    queue.enqueue({ type: 'file', solutionPath: 'C:\\other\\Other.sln', filePaths: ['C:\\other\\B.cs'], start });
+    queue.enqueue({ type: 'workspace', solutionPath, start });
+
+    assert.deepStrictEqual(queue.getState().pendingFiles, ['C:\\other\\B.cs']);
+  });
+
+  test('Should coalesce batches covering the same files', async () => {
+    const queue = new AnalysisQueue();
+    let starts = 0;
+    const start = async () => {
+      starts++;
+      return createResponse('req_1');
+    };
+
+    const first = queue.enqueue({ type: 'file', solutionPath, filePaths: ['C:\\test\\A.cs', 'C:\\test\\B.cs'], start });
+    const second = queue.enqueue({ type: 'file', solutionPath, filePaths: ['C:\\test\\B.cs', 'C:\\test\\A.cs'], start });
+    queue.enqueue({ type: 'file', solutionPath, filePaths: ['C:\\test\\A.cs'], start });
+
+    assert.deepStrictEqual(queue.getState().pendingFiles, ['C:\\test\\A.cs', 'C:\\test\\B.cs']);
+
+    queue.startNext('file');
+    await Promise.all([first, second]);
+
+    assert.strictEqual(starts, 1, 'Batches of the same files should share one analysis');
+  });
+
+  test('Should start the preferred file first', async () => {
+    const queue = new AnalysisQueue();
+    const started: string[] = [];
+    const enqueueFile = (filePath: string) => queue.enqueue({
+      type: 'file',
+      solutionPath,
+      filePaths: [filePath],
+      start: async () => {
+        started.push(filePath);
+        return createResponse(filePath);
+      }
+    });
+
+    enqueueFile('C:\\test\\A.cs');
+    enqueueFile('C:\\test\\B.cs');
+
+    assert.strictEqual(queue.startNext('file', 'C:\\test\\B.cs'), true);
+    assert.strictEqual(queue.startNext('file', 'C:\\test\\B.cs'), true);
+    assert.strictEqual(queue.startNext('file'), false, 'Queue should be empty');
+
+    assert.deepStrictEqual(started, ['C:\\test\\B.cs', 'C:\\test\\A.cs']);
+  });
+
+  test('Should reject everything on clear', async () => {
+    const queue = new AnalysisQueue();
+    const start = async () => createResponse('req_1');
+
+    const request = queue.enqueue({ type: 'workspace', solutionPath, start });
+    queue.clear(new Error('disposed'));
+
+    await assert.rejects(request, /disposed/);
+    assert.deepStrictEqual(queue.getState(), { pendingWorkspaceAnalyses: 0, pendingFiles: [] });
+  });
+});
@@ -1,8 +1,18 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
-import { AnalysisService } from '../../src/LoggerUsage.VSCode/src/analysisService';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AnalysisService, getProtocolIncompatibility } from '../../src/LoggerUsage.VSCode/src/analysisService';
+import { Configuration } from '../../src/LoggerUsage.VSCode/src/configuration';
+import { AnalysisProgress, AnalysisSuccessResponse, PROTOCOL_VERSION } from '../../src/LoggerUsage.VSCode/models/ipcMessages';
+import { ControlledBridgeTransport, flushBridge } from './helpers/fakeBridge';
+import { FakeClock } from './helpers/fakeTimers';
 
 suite('Analysis Service Test Suite', () => {
+  const solutionPath = 'C:\\test\\Test.sln';
+  const filePath = 'C:\\test\\A.cs';
+
   vscode.window.showInformationMessage('Start analysis service tests.');
 
   // Helper to create a minimal extension context
@@ -17,6 +27,42 @@ suite('Analysis Service Test Suite', () => {
     } as any;
   }
 
+  // Helper to create an analysis result with the given number of insights
+  function createSuccess(insightCount: number): AnalysisSuccessResponse {
+    return {
+      status: 'success',
+      id: null,
+      result: {
+        insights: Array.from({ length: insightCount }, (_, i) => ({ id: `insight_${i}` } as any)),
+        summary: {
+          totalInsights: insightCount,
+          byMethodType: {},
+          byLogLevel: {},
+          inconsistenciesCount: 0,
+          filesAnalyzed: 1,
+          analysisTimeMs: 1
+        }
+      }
+    };
+  }
+
+  function createProgress(message: string): AnalysisProgress {
+    return { status: 'progress', id: null, percentage: 50, message };
+  }
+
+  // Files the bridge was asked to analyze one by one, in order
+  function getAnalyzedFiles(transport: ControlledBridgeTransport): string[] {
+    return transport.requests.flatMap(r => r.command === 'analyzeFile' ? [r.filePath] : []);
+  }
+
+  // Answers the only analysis the bridge works on
+  async function releaseNext(transport: ControlledBridgeTransport): Promise<void> {
+    await flushBridge();
+    assert.strictEqual(transport.heldRequestIds.length, 1, 'One analysis should be in flight');
+    transport.release(transport.heldRequestIds[0]);
+    await flushBridge();
+  }
+
   test('Should spawn bridge process with correct path', async () => {
     const context = createMockContext();
     const service = new AnalysisService(context);
@@ -148,4 +194,325 @@ suite('Analysis Service Test Suite', () => {
 
     service.dispose();
   });
+
+  test('Should reject a cancelled request without waiting for the bridge', async () => {
+    const transport = new ControlledBridgeTransport({ holdAnalyses: true });
+    const service = new AnalysisService(createMockContext(), undefined, () => transport);
+    const cancellation = new vscode.CancellationTokenSource();
+
+    try {
+      const analysis = service.analyzeFile(filePath, solutionPath, undefined, cancellation.token);
+      await flushBridge();
+      const [requestId] = transport.heldRequestIds;
+
+      cancellation.cancel();
+
+      // The bridge has not answered yet
+      await assert.rejects(analysis, (error: unknown) => error instanceof vscode.CancellationError);
+      assert.deepStrictEqual(transport.heldRequestIds, [requestId]);
+      const cancelRequest = transport.requests.find(r => r.command === 'cancel');
+      assert.ok(cancelRequest?.command === 'cancel' && cancelRequest.requestId === requestId, 'Bridge should be told to cancel');
+    } finally {
+      service.dispose();
+      cancellation.dispose();
+    }
+  });
+
+  test('Should not send cancel to a bridge without the cancel capability', async () => {
+    const transport = new ControlledBridgeTransport({ holdAnalyses: true, capabilities: ['streamResults', 'analyzeFiles', 'stats'] });
+    const service = new AnalysisService(createMockContext(), undefined, () => transport);
+    const cancellation = new vscode.CancellationTokenSource();
+
+    try {
+      const analysis = service.analyzeFile(filePath, solutionPath, undefined, cancellation.token);
+      await flushBridge();
+      const [requestId] = transport.heldRequestIds;
+
+      cancellation.cancel();
+      await assert.rejects(analysis, (error: unknown) => error instanceof vscode.CancellationError);
+
+      // The bridge finishes the request; its late answer is dropped
+      transport.release(requestId);
+      await flushBridge();
+
+      assert.ok(!transport.requests.some(r => r.command === 'cancel'), 'Bridge should not be sent an unknown command');
+    } finally {
+      service.dispose();
+      cancellation.dispose();
+    }
+  });
+
+  test('Should cancel a timed-out request on the bridge', async function() {
+    // Skip if no workspace is open (the timeout is a workspace setting here)
+    if (!vscode.workspace.workspaceFolders) {
+      this.skip();
+      return;
+    }
+
+    await Configuration.updateConfig('performanceThresholds.analysisTimeoutMs', 50);
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    const transport = new ControlledBridgeTransport({ holdAnalyses: true });
+    const service = new AnalysisService(createMockContext(), undefined, () => transport);
+
+    try {
+      await assert.rejects(service.analyzeFile(filePath, solutionPath), /timed out/);
+
+      const analyzeRequest = transport.requests.find(r => r.command === 'analyzeFile');
+      const cancelRequest = transport.requests.find(r => r.command === 'cancel');
+      assert.ok(analyzeRequest && cancelRequest?.command === 'cancel', 'Bridge should be told to cancel');
+      assert.strictEqual(cancelRequest.requestId, analyzeRequest.id);
+    } finally {
+      service.dispose();
+      await Configuration.updateConfig('performanceThresholds.analysisTimeoutMs', undefined);
+    }
+  });
+
+  test('Should route interleaved responses answered out of order to their requests', async () => {
+    const transport = new ControlledBridgeTransport({
+      holdAnalyses: true,
+      fixtures: {
+        analyze: [createProgress('Analyzing workspace'), createSuccess(2)],
+        analyzeFile: [createProgress('Analyzing file'), createSuccess(1)]
+      }
+    });
+    const service = new AnalysisService(createMockContext(), undefined, () => transport);
+    const workspaceProgress: string[] = [];
+    const fileProgress: string[] = [];
+
+    try {
+      // Workspace and file analyses run side by side
+      const workspace = service.analyzeWorkspace('C:\\test', solutionPath, undefined, p => workspaceProgress.push(p.message));
+      const file = service.analyzeFile(filePath, solutionPath, p => fileProgress.push(p.message));
+      await flushBridge();
+
+      const workspaceRequest = transport.requests.find(r => r.command === 'analyze')!;
+      const fileRequest = transport.requests.find(r => r.command === 'analyzeFile')!;
+      const [firstId, secondId] = transport.heldRequestIds;
+      assert.ok(firstId && secondId, 'Both requests should be in flight');
+
+      // The later request is answered first, and the answers interleave
+      transport.release(secondId);
+      transport.release(firstId);
+
+      const [workspaceResult, fileResult] = await Promise.all([workspace, file]);
+
+      assert.strictEqual(workspaceResult.id, workspaceRequest.id);
+      assert.strictEqual(workspaceResult.result.insights.length, 2);
+      assert.deepStrictEqual(workspaceProgress, ['Analyzing workspace']);
+      assert.strictEqual(fileResult.id, fileRequest.id);
+      assert.strictEqual(fileResult.result.insights.length, 1);
+      assert.deepStrictEqual(fileProgress, ['Analyzing file']);
+    } finally {
+      service.dispose();
+    }
+  });
+
+  test('Should accept a handshake answered without an id', async () => {
+    const transport = new ControlledBridgeTransport({ untaggedHandshake: true });
+    const service = new AnalysisService(createMockContext(), undefined, () => transport);
+
+    try {
+      await service.startBridge();
+
+      const status = service.getBridgeStatus();
+      assert.strictEqual(status.running, true);
+      assert.strictEqual(status.protocolVersion, PROTOCOL_VERSION);
+
+      const result = await service.analyzeFile(filePath, solutionPath);
+      assert.strictEqual(result.id, transport.requests[1].id);
+    } finally {
+      service.dispose();
+    }
+  });
+
+  test('Should send repeated queued analyses of a file to the bridge once', async () => {
+    const transport = new ControlledBridgeTransport({ holdAnalyses: true });
+    const service = new AnalysisService(createMockContext(), undefined, () => transport);
+
+    try {
+      const running = service.analyzeFile('C:\\test\\A.cs', solutionPath);
+      await flushBridge();
+      const first = service.analyzeFile('C:\\test\\B.cs', solutionPath);
+      const second = service.analyzeFile('C:\\test\\B.cs', solutionPath);
+
+      await releaseNext(transport);
+      await releaseNext(transport);
+      const results = await Promise.all([running, first, second]);
+
+      assert.deepStrictEqual(getAnalyzedFiles(transport), ['C:\\test\\A.cs', 'C:\\test\\B.cs']);
+      assert.strictEqual(results[1], results[2], 'Both requests should get the result of the one analysis');
+    } finally {
+      service.dispose();
+    }
+  });
+
+  test('Should drop queued file analyses when a workspace analysis is queued', async () => {
+    const transport = new ControlledBridgeTransport({ holdAnalyses: true });
+    const service = new AnalysisService(createMockContext(), undefined, () => transport);
+
+    try {
+      const workspace = service.analyzeWorkspace('C:\\test', solutionPath);
+      const running = service.analyzeFile('C:\\test\\A.cs', solutionPath);
+      await flushBridge();
+      const queued = service.analyzeFile('C:\\test\\B.cs', solutionPath);
+
+      const queuedWorkspace = service.analyzeWorkspace('C:\\test', solutionPath);
+
+      // The queued workspace analysis reads B.cs and C.cs anyway
+      await assert.rejects(queued, (error: unknown) => error instanceof vscode.CancellationError);
+      await assert.rejects(
+        service.analyzeFile('C:\\test\\C.cs', solutionPath),
+        (error: unknown) => error instanceof vscode.CancellationError
+      );
+
+      const [workspaceId, fileId] = transport.heldRequestIds;
+      transport.release(fileId);
+      transport.release(workspaceId);
+      await releaseNext(transport);
+      await Promise.all([workspace, running, queuedWorkspace]);
+
+      assert.deepStrictEqual(getAnalyzedFiles(transport), ['C:\\test\\A.cs']);
+      assert.strictEqual(transport.requests.filter(r => r.command === 'analyze').length, 2);
+    } finally {
+      service.dispose();
+    }
+  });
+
+  test('Should analyze the file of the active editor before other queued files', async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'logger-usage-queue-'));
+    const [fileA, fileB, fileC] = ['A.cs', 'B.cs', 'C.cs'].map(name => {
+      const filePath = path.join(tempDir, name);
+      fs.writeFileSync(filePath, 'class C {}');
+      return filePath;
+    });
+    const transport = new ControlledBridgeTransport({ holdAnalyses: true });
+    const service = new AnalysisService(createMockContext(), undefined, () => transport);
+
+    try {
+      const analyses = [service.analyzeFile(fileA, solutionPath)];
+      await flushBridge();
+      analyses.push(service.analyzeFile(fileB, solutionPath), service.analyzeFile(fileC, solutionPath));
+
+      const editor = await vscode.window.showTextDocument(vscode.Uri.file(fileC));
+      assert.strictEqual(vscode.window.activeTextEditor, editor);
+
+      await releaseNext(transport);
+      await releaseNext(transport);
+      await releaseNext(transport);
+      await Promise.all(analyses);
+
+      assert.deepStrictEqual(getAnalyzedFiles(transport), [fileA, fileC, fileB]);
+    } finally {
+      service.dispose();
+      await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('Should terminate a bridge that misses heartbeats and start a new one', async () => {
+    const clock = new FakeClock();
+    clock.install();
+    const transports: ControlledBridgeTransport[] = [];
+    const service = new AnalysisService(createMockContext(), undefined, () => {
+      transports.push(new ControlledBridgeTransport());
+      return transports[transports.length - 1];
+    });
+    const heartbeatMs = Configuration.getBridgeHeartbeatIntervalMs();
+
+    try {
+      await service.startBridge();
+      transports[0].hung = true;
+
+      // Each heartbeat waits 10 seconds for its answer
+      for (let missed = 1; missed <= 3; missed++) {
+        await clock.tick(heartbeatMs + 10000);
+        assert.strictEqual(service.getBridgeStatus().missedHeartbeats, missed);
+      }
+
+      const crashed = service.getBridgeStatus();
+      assert.strictEqual(crashed.running, false, 'Hung bridge should be terminated');
+      assert.strictEqual(crashed.crashCount, 1);
+
+      // The next analysis starts a new bridge
+      await service.analyzeFile(filePath, solutionPath);
+
+      const restarted = service.getBridgeStatus();
+      assert.strictEqual(transports.length, 2);
+      assert.strictEqual(restarted.running, true);
+      assert.strictEqual(restarted.missedHeartbeats, 0);
+    } finally {
+      service.dispose();
+      clock.uninstall();
+    }
+  });
+
+  test('Should recycle a bridge over its memory budget only once idle', async () => {
+    const clock = new FakeClock();
+    clock.install();
+    const transports: ControlledBridgeTransport[] = [];
+    const service = new AnalysisService(createMockContext(), undefined, () => {
+      const workingSetMb = Configuration.getBridgeMaxMemoryMb() + 1;
+      transports.push(new ControlledBridgeTransport({ holdAnalyses: true, workingSetMb }));
+      return transports[transports.length - 1];
+    });
+    const heartbeatMs = Configuration.getBridgeHeartbeatIntervalMs();
+
+    try {
+      const analysis = service.analyzeFile(filePath, solutionPath);
+      await flushBridge();
+
+      // Busy: the heartbeat reads the statistics but keeps the bridge
+      await clock.tick(heartbeatMs);
+      assert.ok(service.getBridgeStatus().stats, 'Heartbeat should read the statistics');
+      assert.strictEqual(transports.length, 1);
+      assert.ok(!transports[0].requests.some(r => r.command === 'shutdown'), 'Busy bridge should not be stopped');
+
+      transports[0].release(transports[0].heldRequestIds[0]);
+      await analysis;
+
+      // Idle: the next heartbeat recycles it
+      await clock.tick(heartbeatMs);
+      assert.strictEqual(transports.length, 2);
+      assert.ok(transports[0].requests.some(r => r.command === 'shutdown'), 'Old bridge should be shut down');
+
+      const status = service.getBridgeStatus();
+      assert.strictEqual(status.restartCount, 1);
+      assert.strictEqual(status.running, true);
+    } finally {
+      service.dispose();
+      clock.uninstall();
+    }
+  });
+
+  test('Should accept a bridge speaking the current protocol version', () => {
+    const incompatibility = getProtocolIncompatibility({
+      status: 'ready',
+      id: 'req_1',
+      version: '1.0.0',
+      protocolVersion: PROTOCOL_VERSION,
+      capabilities: ['cancel', 'streamResults', 'analyzeFiles', 'stats']
+    });
+
+    assert.strictEqual(incompatibility, null);
+  });
+
+  test('Should refuse a bridge that predates protocol negotiation', () => {
+    const incompatibility = getProtocolIncompatibility({ status: 'ready', id: null, version: '1.0.0' });
+
+    assert.ok(incompatibility, 'Bridge without protocol version should be refused');
+    assert.ok(incompatibility.includes('npm run build-bridge'), 'Error should tell how to rebuild the bridge');
+  });
+
+  test('Should refuse a bridge speaking a newer protocol version', () => {
+    const incompatibility = getProtocolIncompatibility({
+      status: 'ready',
+      id: 'req_1',
+      version: '2.0.0',
+      protocolVersion: PROTOCOL_VERSION + 1
+    });
+
+    assert.ok(incompatibility, 'Newer bridge should be refused');
+    assert.ok(incompatibility.includes('Update the extension'));
+  });
 });
@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BASELINE_FILE, Baseline, BaselineFinding, createBaseline, writeBaseline } from '../../src/LoggerUsage.VSCode/src/baseline';
+
+suite('Baseline Test Suite', () => {
+  let folderPath: string;
+
+  setup(() => {
+    folderPath = fs.mkdtempSync(path.join(os.tmpdir(), 'logger-usage-baseline-'));
+  });
+
+  teardown(() => {
+    fs.rmSync(folderPath, { recursive: true, force: true });
+  });
+
+  // Helper to create a finding in a file of the workspace folder
+  function createFinding(code: string, relativePath: string, messageTemplate: string): BaselineFinding {
+    return { code, filePath: path.join(folderPath, relativePath), messageTemplate };
+  }
+
+  test('Should count identical findings in one entry', () => {
+    const baseline = createBaseline(folderPath, [
+      createFinding('LU002', 'src/Orders.cs', 'Order saved'),
+      createFinding('LU002', 'src/Orders.cs', 'Order saved'),
+      createFinding('LU001', 'src/Orders.cs', 'Order {Id} saved'),
+      { code: 'LU002', filePath: path.join(os.tmpdir(), 'Elsewhere.cs'), messageTemplate: 'Outside' }
+    ]);
+
+    assert.deepStrictEqual(baseline.entries, [
+      { code: 'LU001', file: 'src/Orders.cs', messageTemplate: 'Order {Id} saved', count: 1 },
+      { code: 'LU002', file: 'src/Orders.cs', messageTemplate: 'Order saved', count: 2 }
+    ]);
+  });
+
+  test('Should hide baselined findings and report new ones', () => {
+    writeBaseline(path.join(folderPath, BASELINE_FILE), createBaseline(folderPath, [
+      createFinding('LU002', 'src/Orders.cs', 'Order saved')
+    ]));
+    const baseline = Baseline.load([folderPath]);
+
+    assert.ok(baseline.matches(createFinding('LU002', 'src/Orders.cs', 'Order saved')));
+    assert.ok(!baseline.matches(createFinding('LU002', 'src/Orders.cs', 'Order saved')), 'A second identical finding is new');
+    assert.ok(!baseline.matches(createFinding('LU003', 'src/Orders.cs', 'Order saved')));
+    assert.deepStrictEqual(baseline.getFixedEntries(), []);
+  });
+
+  test('Should report baseline entries that no longer reproduce', () => {
+    const baselinePath = path.join(folderPath, BASELINE_FILE);
+    writeBaseline(baselinePath, createBaseline(folderPath, [
+      createFinding('LU002', 'src/Orders.cs', 'Order saved'),
+      createFinding('LU002', 'src/Orders.cs', 'Order saved'),
+      createFinding('LU002', 'src/Payments.cs', 'Payment failed')
+    ]));
+    const baseline = Baseline.load([folderPath]);
+
+    baseline.matches(createFinding('LU002', 'src/Orders.cs', 'Order saved'));
+
+    const fixed = baseline.getFixedEntries();
+    assert.deepStrictEqual(fixed.map(f => [f.entry.file, f.fixedCount]), [['src/Orders.cs', 1], ['src/Payments.cs', 1]]);
+    assert.ok(fs.readFileSync(baselinePath, 'utf8').split('\n')[fixed[1].line].includes('Payment failed'));
+  });
+});
@@ -0,0 +1,199 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AnalysisService } from '../../src/LoggerUsage.VSCode/src/analysisService';
+import { FakeBridgeTransport } from '../../src/LoggerUsage.VSCode/src/transport/fakeTransport';
+import { getPipePath } from '../../src/LoggerUsage.VSCode/src/transport/pipeTransport';
+import { ReplayBridgeTransport } from '../../src/LoggerUsage.VSCode/src/transport/replayTransport';
+import { readBridgeSession } from '../../src/LoggerUsage.VSCode/src/transport/bridgeSession';
+import { AnalysisResponse, AnalysisSuccessResponse } from '../../src/LoggerUsage.VSCode/models/ipcMessages';
+import { LoggingInsight } from '../../src/LoggerUsage.VSCode/models/insightViewModel';
+
+suite('Bridge Transport Test Suite', () => {
+  const solutionPath = 'C:\\test\\Test.sln';
+  const filePath = 'C:\\test\\A.cs';
+
+  // Helper to create a minimal extension context
+  function createMockContext(): vscode.ExtensionContext {
+    return {
+      extensionUri: vscode.Uri.file('C:\\test'),
+      extensionPath: 'C:\\test',
+      globalState: {} as any,
+      workspaceState: {} as any,
+      subscriptions: [],
+      extensionMode: vscode.ExtensionMode.Test
+    } as any;
+  }
+
+  // Helper to create test insight
+  function createTestInsight(): LoggingInsight {
+    return {
+      id: `${filePath}:10:5`,
+      methodType: 'LoggerExtension',
+      messageTemplate: 'User {UserId} logged in',
+      logLevel: 'Information',
+      eventId: null,
+      parameters: ['UserId'],
+      location: {
+        filePath,
+        startLine: 10,
+        startColumn: 5,
+        endLine: 10,
+        endColumn: 50
+      },
+      tags: [],
+      dataClassifications: [],
+      hasInconsistencies: false
+    };
+  }
+
+  function createSuccess(insights: LoggingInsight[]): AnalysisSuccessResponse {
+    return {
+      status: 'success',
+      id: null,
+      result: {
+        insights,
+        summary: {
+          totalInsights: insights.length,
+          byMethodType: {},
+          byLogLevel: {},
+          inconsistenciesCount: 0,
+          filesAnalyzed: 1,
+          analysisTimeMs: 1
+        }
+      }
+    };
+  }
+
+  test('Should answer the handshake with protocol version and capabilities', async () => {
+    const transport = new FakeBridgeTransport();
+    const received: AnalysisResponse[] = [];
+    await transport.connect({
+      onData: data => received.push(JSON.parse(data)),
+      onLog: () => undefined,
+      onClose: () => undefined,
+      onError: () => undefined
+    });
+
+    transport.send(JSON.stringify({ command: 'ping', id: 'req_1', protocolVersion: 2 }));
+    await new Promise(resolve => setImmediate(resolve));
+
+    assert.strictEqual(received.length, 1);
+    const ready = received[0];
+    assert.ok(ready.status === 'ready' && ready.id === 'req_1');
+    assert.ok(ready.capabilities?.includes('cancel'));
+  });
+
+  test('Should analyze a file through the fake bridge', async () => {
+    const transport = new FakeBridgeTransport({ analyzeFile: [createSuccess([createTestInsight()])] });
+    const service = new AnalysisService(createMockContext(), undefined, () => transport);
+
+    try {
+      const result = await service.analyzeFile(filePath, solutionPath);
+
+      assert.strictEqual(result.result.insights.length, 1);
+      assert.deepStrictEqual(transport.requests.map(r => r.command), ['ping', 'analyzeFile']);
+      assert.strictEqual(result.id, transport.requests[1].id, 'Replayed response should carry the request id');
+    } finally {
+      service.dispose();
+    }
+  });
+
+  test('Should stop replaying a cancelled request', async () => {
+    const transport = new FakeBridgeTransport({
+      analyzeFile: [
+        { status: 'progress', id: null, percentage: 50, message: 'Analyzing' },
+        createSuccess([createTestInsight()])
+      ]
+    });
+    const service = new AnalysisService(createMockContext(), undefined, () => transport);
+    const cancellation = new vscode.CancellationTokenSource();
+
+    try {
+      const analysis = service.analyzeFile(filePath, solutionPath, () => cancellation.cancel(), cancellation.token);
+
+      await assert.rejects(analysis, (error: unknown) => error instanceof vscode.CancellationError);
+      assert.ok(transport.requests.some(r => r.command === 'cancel'), 'Bridge should be told to cancel');
+    } finally {
+      service.dispose();
+      cancellation.dispose();
+    }
+  });
+
+  test('Should replay a recorded bridge session', async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'logger-usage-session-'));
+    const sessionPath = path.join(tempDir, 'session.jsonl');
+
+    try {
+      // Record an analysis served by the fake bridge
+      const recorded = new AnalysisService(
+        createMockContext(),
+        undefined,
+        () => new FakeBridgeTransport({ analyzeFile: [createSuccess([createTestInsight()])] })
+      );
+      recorded.startRecording(sessionPath);
+      await recorded.analyzeFile(filePath, solutionPath);
+      const recording = await recorded.stopRecording();
+      recorded.dispose();
+
+      assert.ok(recording && recording.count >= 4, 'Handshake and analysis should be recorded');
+      const entries = readBridgeSession(sessionPath);
+      assert.deepStrictEqual(
+        entries.filter(e => e.direction === 'request').map(e => e.message.command),
+        ['ping', 'analyzeFile']
+      );
+
+      // Serve the recording instead of a bridge
+      const replayed = new AnalysisService(createMockContext(), undefined, () => new ReplayBridgeTransport(entries, sessionPath));
+      try {
+        const result = await replayed.analyzeFile(filePath, solutionPath);
+        assert.deepStrictEqual(result.result.insights, [createTestInsight()]);
+      } finally {
+        replayed.dispose();
+      }
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('Should stop recording when the recording cannot be written', async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'logger-usage-session-'));
+    const service = new AnalysisService(createMockContext(), undefined, () => new FakeBridgeTransport());
+
+    try {
+      const failure = new Promise<Error>(resolve => service.startRecording(path.join(tempDir, 'missing', 'session.jsonl'), resolve));
+
+      assert.match((await failure).message, /ENOENT/);
+      assert.strictEqual(service.isRecording(), false);
+
+      // The bridge keeps working without the recording
+      const result = await service.analyzeFile(filePath, solutionPath);
+      assert.strictEqual(result.status, 'success');
+      assert.strictEqual(await service.stopRecording(), null);
+    } finally {
+      service.dispose();
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('Should answer unrecorded commands of a replay with an error', async () => {
+    const service = new AnalysisService(createMockContext(), undefined, () => new ReplayBridgeTransport([], 'empty.jsonl'));
+
+    try {
+      await assert.rejects(service.analyzeFile(filePath, solutionPath), /No recorded response for 'analyzeFile'/);
+    } finally {
+      service.dispose();
+    }
+  });
+
+  test('Should map pipe names to the paths .NET listens on', () => {
+    if (process.platform === 'win32') {
+      assert.strictEqual(getPipePath('logger-usage-bridge'), '\\\\.\\pipe\\logger-usage-bridge');
+    } else {
+      assert.ok(getPipePath('logger-usage-bridge').endsWith(`${path.sep}CoreFxPipe_logger-usage-bridge`));
+      assert.strictEqual(getPipePath('/tmp/bridge.sock'), '/tmp/bridge.sock');
+    }
+  });
+});
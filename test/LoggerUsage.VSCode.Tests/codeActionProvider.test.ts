@@ -0,0 +1,162 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import {
+  createLoggerExtensionEventIdEdit,
+  createLoggerMessageEventIdEdit,
+  findArgumentsForPlaceholder,
+  findEnclosingMethodName,
+  findMostCommonName,
+  findPlaceholderRanges,
+  getMismatchedPlaceholder,
+  getNextEventId,
+  getStatementLines,
+  getUniqueEventName
+} from '../../src/LoggerUsage.VSCode/src/codeActionProvider';
+import { parsePlaceholders } from '../../src/LoggerUsage.VSCode/src/utils/messageTemplate';
+import { LoggingInsight } from '../../src/LoggerUsage.VSCode/models/insightViewModel';
+
+suite('Code Action Provider Test Suite', () => {
+  const filePath = 'C:\\test\\UserService.cs';
+
+  // Helper to create test insight
+  function createTestInsight(messageTemplate: string, parameters: string[], startLine: number = 2): LoggingInsight {
+    return {
+      id: `${filePath}:${startLine}:0`,
+      methodType: 'LoggerMessageAttribute',
+      messageTemplate,
+      logLevel: 'Information',
+      eventId: null,
+      parameters,
+      location: {
+        filePath,
+        startLine,
+        startColumn: 0,
+        endLine: startLine + 1,
+        endColumn: 0
+      },
+      tags: [],
+      dataClassifications: [],
+      hasInconsistencies: true
+    };
+  }
+
+  // Helper to create a text document from source lines
+  function createDocument(lines: string[]): vscode.TextDocument {
+    return {
+      lineCount: lines.length,
+      lineAt: (line: number) => ({ text: lines[line] })
+    } as any;
+  }
+
+  test('Should parse placeholders of message templates', () => {
+    const names = parsePlaceholders('{{Escaped}} {@User} took {Elapsed:N2} ms, {Count,5} items').map(p => p.name);
+    assert.deepStrictEqual(names, ['User', 'Elapsed', 'Count']);
+  });
+
+  test('Should read the placeholder from the diagnostic message', () => {
+    assert.strictEqual(
+      getMismatchedPlaceholder("Template parameter '{userID}' does not match any method parameter name"),
+      'userID'
+    );
+  });
+
+  test('Should pair unmatched placeholders and arguments by position', () => {
+    const insight = createTestInsight('Order {Order} for {Customer} shipped', ['orderId', 'customerName']);
+
+    assert.deepStrictEqual(findArgumentsForPlaceholder(insight, 'Order'), ['orderId']);
+    assert.deepStrictEqual(findArgumentsForPlaceholder(insight, 'Customer'), ['customerName']);
+  });
+
+  test('Should offer every unmatched argument when placeholders do not pair up', () => {
+    const insight = createTestInsight('Order {Order} shipped', ['orderId', 'customerName', '<logger>']);
+
+    assert.deepStrictEqual(findArgumentsForPlaceholder(insight, 'Order'), ['orderId', 'customerName']);
+  });
+
+  test('Should find the most common spelling in the workspace', () => {
+    const insights = [
+      createTestInsight('User {UserId} logged in', ['userId']),
+      createTestInsight('User {UserId} logged out', ['userId']),
+      createTestInsight('User {userID} renamed', ['userId'])
+    ];
+
+    assert.strictEqual(findMostCommonName('userID', 'userId', insights), 'UserId');
+    assert.strictEqual(findMostCommonName('UserId', 'userId', insights), null, 'No rename to the current name');
+  });
+
+  test('Should locate the placeholder name in the statement', () => {
+    const document = createDocument([
+      'partial class Log',
+      '{',
+      '    [LoggerMessage(Level = LogLevel.Information, Message = "User {{userID}} is {{{userID,-10}}}")]',
+      '    public static partial void UserLoggedIn(ILogger logger, string userId);',
+      '}'
+    ]);
+
+    const ranges = findPlaceholderRanges(document, createTestInsight('', []).location, 'userID');
+
+    assert.strictEqual(ranges.length, 1, 'Escaped braces are not a placeholder');
+    assert.strictEqual(ranges[0].start.line, 2);
+    assert.strictEqual(document.lineAt(2).text.substring(ranges[0].start.character, ranges[0].end.character), 'userID');
+    assert.strictEqual(document.lineAt(2).text[ranges[0].end.character], ',');
+  });
+
+  test('Should search only the lines of the statement', () => {
+    const document = createDocument(['', '', '', '', '']);
+
+    assert.deepStrictEqual(getStatementLines(document, createTestInsight('', [], 2).location), [2, 3]);
+    assert.deepStrictEqual(getStatementLines(document, createTestInsight('', [], 4).location), [4], 'Clamped to the document');
+  });
+
+  test('Should number and name new EventIds after the existing ones', () => {
+    const insights = [
+      { ...createTestInsight('Order saved', []), eventId: { id: 1002, name: 'SaveOrder' } },
+      { ...createTestInsight('Order loaded', []), eventId: { id: 1001, name: 'LoadOrder' } },
+      createTestInsight('Order deleted', [])
+    ];
+
+    assert.strictEqual(getNextEventId(insights), 1003);
+    assert.strictEqual(getNextEventId([]), 1);
+    assert.strictEqual(getUniqueEventName('SaveOrder', insights), 'SaveOrder2');
+    assert.strictEqual(getUniqueEventName('DeleteOrder', insights), 'DeleteOrder');
+  });
+
+  test('Should insert an EventId into a logger extension call', () => {
+    const document = createDocument([
+      'public async Task<Order> SaveOrderAsync(Order order)',
+      '{',
+      '    _logger.LogInformation("Order {OrderId} saved", order.Id);',
+      '}'
+    ]);
+    const location = { filePath, startLine: 2, startColumn: 0, endLine: 2, endColumn: 0 };
+
+    assert.strictEqual(findEnclosingMethodName(document, 2), 'SaveOrderAsync');
+    const edit = createLoggerExtensionEventIdEdit(document, location, 'new EventId(7, "SaveOrderAsync")');
+    assert.ok(edit);
+    assert.strictEqual(edit.range.start.line, 2);
+    assert.strictEqual(document.lineAt(2).text.substring(0, edit.range.start.character), '    _logger.LogInformation(');
+    assert.strictEqual(edit.newText, 'new EventId(7, "SaveOrderAsync"), ');
+  });
+
+  test('Should add EventId to LoggerMessage attributes after positional arguments', () => {
+    const named = createDocument([
+      '    [LoggerMessage(Level = LogLevel.Information, Message = "Order saved")]',
+      '    public static partial void OrderSaved(ILogger logger);'
+    ]);
+    const positional = createDocument([
+      '    [LoggerMessage(LogLevel.Information, "Order saved")]',
+      '    public static partial void OrderSaved(ILogger logger);'
+    ]);
+    const location = { filePath, startLine: 0, startColumn: 0, endLine: 1, endColumn: 0 };
+
+    const namedEdit = createLoggerMessageEventIdEdit(named, location, 7);
+    assert.ok(namedEdit);
+    assert.strictEqual(named.lineAt(0).text.substring(0, namedEdit.range.start.character), '    [LoggerMessage(');
+    assert.strictEqual(namedEdit.newText, 'EventId = 7, ');
+
+    const positionalEdit = createLoggerMessageEventIdEdit(positional, location, 7);
+    assert.ok(positionalEdit);
+    assert.strictEqual(positional.lineAt(0).text.substring(positionalEdit.range.start.character), ')]');
+    assert.strictEqual(positionalEdit.newText, ', EventId = 7');
+  });
+});
@@ -0,0 +1,45 @@
+import * as assert from 'assert';
+import { formatCodeLensTitle } from '../../src/LoggerUsage.VSCode/src/codeLensProvider';
+import { LoggingInsight } from '../../src/LoggerUsage.VSCode/models/insightViewModel';
+
+suite('Code Lens Provider Test Suite', () => {
+  const filePath = 'C:\\test\\Log.cs';
+
+  // Helper to create test insight
+  function createTestInsight(overrides: Partial<LoggingInsight>): LoggingInsight {
+    return {
+      id: `${filePath}:4:0`,
+      methodType: 'LoggerMessageAttribute',
+      messageTemplate: 'Order {OrderId} created',
+      logLevel: 'Warning',
+      eventId: { id: 1001, name: 'OrderCreated' },
+      parameters: ['OrderId'],
+      location: { filePath, startLine: 4, startColumn: 0, endLine: 5, endColumn: 0 },
+      tags: [],
+      dataClassifications: [],
+      hasInconsistencies: false,
+      ...overrides
+    };
+  }
+
+  // Helper to create a call site
+  function createInvocation(startLine: number) {
+    return {
+      containingType: 'MyApp.OrderService',
+      location: { filePath: 'C:\\test\\OrderService.cs', startLine, startColumn: 8, endLine: startLine, endColumn: 40 }
+    };
+  }
+
+  test('Should show invocation count, EventId and level', () => {
+    const insight = createTestInsight({ invocations: [createInvocation(10), createInvocation(20), createInvocation(30)] });
+    assert.strictEqual(formatCodeLensTitle(insight), '3 invocations · EventId 1001 · Warning');
+
+    const single = createTestInsight({ invocations: [createInvocation(10)] });
+    assert.strictEqual(formatCodeLensTitle(single), '1 invocation · EventId 1001 · Warning');
+  });
+
+  test('Should leave out the count when call sites are not reported', () => {
+    const insight = createTestInsight({ methodType: 'LoggerMessageDefine', eventId: null, logLevel: null });
+    assert.strictEqual(formatCodeLensTitle(insight), 'No EventId · Dynamic level');
+  });
+});
@@ -1,7 +1,8 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
-import { Commands } from '../../src/LoggerUsage.VSCode/src/commands';
+import { Commands, mergeFresherInsights, replaceProjectInsights } from '../../src/LoggerUsage.VSCode/src/commands';
 import { AnalysisService } from '../../src/LoggerUsage.VSCode/src/analysisService';
+import { LoggingInsight } from '../../src/LoggerUsage.VSCode/models/insightViewModel';
 
 suite('Commands Test Suite', () => {
   vscode.window.showInformationMessage('Start commands tests.');
@@ -15,6 +16,28 @@ suite('Commands Test Suite', () => {
     } as any;
   }
 
+  // Helper to create test insight
+  function createTestInsight(filePath: string, startLine: number, messageTemplate: string = 'User {UserId} logged in'): LoggingInsight {
+    return {
+      id: `${filePath}:${startLine}:5`,
+      methodType: 'LoggerExtension',
+      messageTemplate,
+      logLevel: 'Information',
+      eventId: null,
+      parameters: ['UserId'],
+      location: {
+        filePath,
+        startLine,
+        startColumn: 5,
+        endLine: startLine,
+        endColumn: 50
+      },
+      tags: [],
+      dataClassifications: [],
+      hasInconsistencies: false
+    };
+  }
+
   function createMockOutputChannel(): vscode.OutputChannel {
     return {
       name: 'Logger Usage',
@@ -176,6 +199,72 @@ suite('Commands Test Suite', () => {
       'navigateToInsight method should exist for error handling');
   });
 
+  test('analyzeFiles should not call the bridge for deletions only', async () => {
+    let bridgeCalls = 0;
+    const analysisService = {
+      analyzeFiles: async () => {
+        bridgeCalls++;
+        throw new Error('Bridge should not be called');
+      }
+    } as any;
+    const outputChannel = createMockOutputChannel();
+    const commands = new Commands(analysisService, outputChannel);
+
+    await commands.analyzeFiles([], [vscode.Uri.file('C:\\test\\Deleted.cs')]);
+
+    assert.strictEqual(bridgeCalls, 0, 'Deleted files only need their insights removed');
+    assert.deepStrictEqual(commands.getCurrentInsights(), []);
+  });
+
+  test('A streamed project should replace the insights of its files', () => {
+    const current = [
+      createTestInsight('C:\\test\\A.cs', 10, 'Old A'),
+      createTestInsight('C:\\test\\B.cs', 10, 'Old B'),
+      createTestInsight('C:\\other\\C.cs', 10, 'Other project')
+    ];
+    const projectInsights = [createTestInsight('C:\\test\\A.cs', 12, 'New A')];
+
+    // B.cs lost its logging statements, C.cs belongs to a project not analyzed yet
+    const insights = replaceProjectInsights(current, projectInsights, ['C:\\test\\A.cs', 'C:\\test\\B.cs'], null);
+
+    assert.deepStrictEqual(insights.map(i => i.messageTemplate), ['Other project', 'New A']);
+  });
+
+  test('A streamed project should not replace files re-analyzed during the workspace analysis', () => {
+    const reanalyzed = [createTestInsight('C:\\test\\A.cs', 20, 'Edited A')];
+    const current = [...reanalyzed, createTestInsight('C:\\test\\B.cs', 10, 'Old B')];
+    const projectInsights = [
+      createTestInsight('C:\\test\\A.cs', 10, 'Stale A'),
+      createTestInsight('C:\\test\\B.cs', 10, 'New B')
+    ];
+
+    const insights = replaceProjectInsights(
+      current,
+      projectInsights,
+      ['C:\\test\\A.cs', 'C:\\test\\B.cs'],
+      new Map([['C:\\test\\A.cs', reanalyzed]])
+    );
+
+    assert.deepStrictEqual(insights.map(i => i.messageTemplate), ['Edited A', 'New B']);
+  });
+
+  test('Files re-analyzed during a workspace analysis should win over its final result', () => {
+    const result = [
+      createTestInsight('C:\\test\\A.cs', 10, 'Stale A'),
+      createTestInsight('C:\\test\\A.cs', 30, 'Removed from A'),
+      createTestInsight('C:\\test\\B.cs', 10, 'B')
+    ];
+    const fresher = new Map([
+      ['C:\\test\\A.cs', [createTestInsight('C:\\test\\A.cs', 20, 'Edited A')]],
+      ['C:\\test\\D.cs', []]
+    ]);
+
+    const insights = mergeFresherInsights(result, fresher);
+
+    assert.deepStrictEqual(insights.map(i => i.messageTemplate), ['B', 'Edited A']);
+    assert.strictEqual(mergeFresherInsights(result, null), result, 'Nothing re-analyzed keeps the result');
+  });
+
   test('loggerUsage.refreshTreeView should trigger tree data refresh', async () => {
     const analysisService = createMockAnalysisService();
     const outputChannel = createMockOutputChannel();
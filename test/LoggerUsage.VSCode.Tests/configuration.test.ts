@@ -107,6 +107,10 @@ suite('Configuration Test Suite', () => {
     // Change some values
     await Configuration.updateConfig('autoAnalyzeOnSave', false);
     await Configuration.updateConfig('enableProblemsIntegration', false);
+    await Configuration.updateConfig('bridge.transport', 'pipe');
+    await Configuration.updateConfig('bridge.pipeName', 'custom-bridge');
+    await Configuration.updateConfig('bridge.heartbeatIntervalMs', 5000);
+    await Configuration.updateConfig('bridge.maxMemoryMb', 512);
 
     await new Promise(resolve => setTimeout(resolve, 100));
 
@@ -121,6 +125,10 @@ suite('Configuration Test Suite', () => {
 
     assert.strictEqual(autoAnalyze, true, 'autoAnalyzeOnSave should be reset to true');
     assert.strictEqual(problemsIntegration, true, 'enableProblemsIntegration should be reset to true');
+    assert.strictEqual(Configuration.getBridgeTransport(), 'stdio', 'bridge.transport should be reset to stdio');
+    assert.strictEqual(Configuration.getBridgePipeName(), 'logger-usage-bridge', 'bridge.pipeName should be reset');
+    assert.strictEqual(Configuration.getBridgeHeartbeatIntervalMs(), 30000, 'bridge.heartbeatIntervalMs should be reset');
+    assert.strictEqual(Configuration.getBridgeMaxMemoryMb(), 4096, 'bridge.maxMemoryMb should be reset');
   });
 
   test('onDidChangeConfiguration should fire when configuration changes', function(done) {
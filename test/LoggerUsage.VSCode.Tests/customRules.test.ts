@@ -0,0 +1,96 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CUSTOM_RULES_FILE, createCustomRule, loadCustomRules } from '../../src/LoggerUsage.VSCode/src/customRules';
+import { TemplateRuleContext } from '../../src/LoggerUsage.VSCode/src/templateRules';
+import { LoggingInsight } from '../../src/LoggerUsage.VSCode/models/insightViewModel';
+
+suite('Custom Rules Test Suite', () => {
+  let folderPath: string;
+  const context: TemplateRuleContext = { getStatementText: () => null, placeholderCasing: 'PascalCase' };
+
+  setup(() => {
+    folderPath = fs.mkdtempSync(path.join(os.tmpdir(), 'logger-usage-rules-'));
+  });
+
+  teardown(() => {
+    fs.rmSync(folderPath, { recursive: true, force: true });
+  });
+
+  // Helper to create test insight in a file of the workspace folder
+  function createTestInsight(overrides: Partial<LoggingInsight>, relativePath: string = 'src/Orders.cs'): LoggingInsight {
+    const filePath = path.join(folderPath, relativePath);
+    return {
+      id: `${filePath}:2:0`,
+      methodType: 'LoggerExtension',
+      messageTemplate: 'Order {OrderId} created',
+      logLevel: 'Information',
+      eventId: null,
+      parameters: ['OrderId'],
+      location: { filePath, startLine: 2, startColumn: 0, endLine: 2, endColumn: 0 },
+      tags: [],
+      dataClassifications: [],
+      hasInconsistencies: false,
+      ...overrides
+    };
+  }
+
+  test('Should report statements matching when but not require', () => {
+    const rule = createCustomRule({
+      code: 'ACME001',
+      message: 'Warnings must log the CorrelationId',
+      when: { minLogLevel: 'Warning' },
+      require: { parameters: ['CorrelationId'] }
+    }, folderPath);
+
+    assert.strictEqual(rule.defaultLevel, 'warning');
+    assert.deepStrictEqual(rule.check(createTestInsight({ logLevel: 'Error' }), context), ['Warnings must log the CorrelationId']);
+    assert.deepStrictEqual(rule.check(createTestInsight({ logLevel: 'Error', parameters: ['correlationId'] }), context), []);
+    assert.deepStrictEqual(rule.check(createTestInsight({ logLevel: 'Information' }), context), []);
+  });
+
+  test('Should report every matching statement of rules without require', () => {
+    const rule = createCustomRule({
+      code: 'ACME002',
+      message: 'Vague message',
+      severity: 'info',
+      when: { files: ['src/Billing/**'], messageTemplate: { pattern: '\\boops\\b', flags: 'i' }, not: { tags: ['Legacy'] } }
+    }, folderPath);
+
+    assert.strictEqual(rule.check(createTestInsight({ messageTemplate: 'Oops, {OrderId} failed' }, 'src/Billing/Invoices.cs'), context).length, 1);
+    assert.strictEqual(rule.check(createTestInsight({ messageTemplate: 'Oops, {OrderId} failed' }, 'src/Orders.cs'), context).length, 0);
+    assert.strictEqual(rule.check(createTestInsight({ messageTemplate: 'Oops', tags: ['Legacy'] }, 'src/Billing/Invoices.cs'), context).length, 0);
+  });
+
+  test('Should check EventId ranges', () => {
+    const rule = createCustomRule({
+      code: 'ACME003',
+      message: 'Billing EventIds are 1000-1999',
+      when: { eventId: {} },
+      require: { eventId: { min: 1000, max: 1999 } }
+    }, folderPath);
+
+    assert.strictEqual(rule.check(createTestInsight({ eventId: { id: 42, name: null } }), context).length, 1);
+    assert.strictEqual(rule.check(createTestInsight({ eventId: { id: 1042, name: null } }), context).length, 0);
+    assert.strictEqual(rule.check(createTestInsight({}), context).length, 0);
+  });
+
+  test('Should skip invalid rules and report why', () => {
+    fs.mkdirSync(path.join(folderPath, '.loggerusage'));
+    fs.writeFileSync(path.join(folderPath, CUSTOM_RULES_FILE), JSON.stringify({
+      rules: [
+        { code: 'ACME001', message: 'Valid', when: { logLevel: 'Error' } },
+        { code: 'LU002', message: 'Reserved code' },
+        { code: 'ACME002', message: 'Typo', when: { loglevel: 'Error' } },
+        { code: 'ACME003', message: 'Bad regex', when: { messageTemplate: '(' } }
+      ]
+    }));
+
+    const { rules, errors } = loadCustomRules([folderPath]);
+
+    assert.deepStrictEqual(rules.map(r => r.code), ['ACME001']);
+    assert.strictEqual(errors.length, 3);
+    assert.ok(errors[1].includes('Unknown condition "loglevel"'));
+  });
+});
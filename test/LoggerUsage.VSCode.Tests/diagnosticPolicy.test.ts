@@ -0,0 +1,147 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DiagnosticPolicy, parseInlineSuppression } from '../../src/LoggerUsage.VSCode/src/diagnosticPolicy';
+import { ProblemsProvider } from '../../src/LoggerUsage.VSCode/src/problemsProvider';
+import { matchesGlob } from '../../src/LoggerUsage.VSCode/src/utils/glob';
+import { SourceTextCache } from '../../src/LoggerUsage.VSCode/src/utils/sourceText';
+import { LoggingInsight } from '../../src/LoggerUsage.VSCode/models/insightViewModel';
+
+suite('Diagnostic Policy Test Suite', () => {
+  let folderPath: string;
+
+  setup(() => {
+    folderPath = fs.mkdtempSync(path.join(os.tmpdir(), 'logger-usage-policy-'));
+  });
+
+  teardown(() => {
+    fs.rmSync(folderPath, { recursive: true, force: true });
+  });
+
+  // Helper to create a location in a file of the workspace folder
+  function createLocation(relativePath: string, startLine: number = 1) {
+    return {
+      filePath: path.join(folderPath, relativePath),
+      startLine,
+      startColumn: 0,
+      endLine: startLine,
+      endColumn: 0
+    };
+  }
+
+  test('Should match globs against relative paths', () => {
+    assert.ok(matchesGlob('**/Tests/**', 'src/Tests/OrderTests.cs'));
+    assert.ok(matchesGlob('**/*.cs', 'Program.cs'));
+    assert.ok(matchesGlob('src/{Api,Worker}/*.cs', 'src\\Worker\\Job.cs'));
+    assert.ok(!matchesGlob('src/*.cs', 'src/Api/Orders.cs'));
+  });
+
+  test('Should apply levels per code, with the last matching override winning', () => {
+    const policy = new DiagnosticPolicy(
+      { LU002: 'info', LU003: 'error' },
+      [
+        { files: 'tests/**', diagnostics: { LU002: 'off' } },
+        { files: 'tests/Integration/**', diagnostics: { LU002: 'hint' } }
+      ],
+      [],
+      [folderPath]
+    );
+
+    assert.strictEqual(policy.getLevel('LU002', path.join(folderPath, 'src', 'Orders.cs')), 'info');
+    assert.strictEqual(policy.getLevel('LU002', path.join(folderPath, 'tests', 'OrderTests.cs')), 'off');
+    assert.strictEqual(policy.getLevel('LU002', path.join(folderPath, 'tests', 'Integration', 'ApiTests.cs')), 'hint');
+    assert.strictEqual(policy.getLevel('LU001', path.join(folderPath, 'src', 'Orders.cs')), undefined);
+  });
+
+  test('Should parse inline suppression comments', () => {
+    assert.deepStrictEqual(
+      parseInlineSuppression('    // loggerusage-disable-next-line LU001, LU002'),
+      { scope: 'next-line', codes: ['LU001', 'LU002'] }
+    );
+    assert.deepStrictEqual(
+      parseInlineSuppression('logger.LogInformation("Hi"); // loggerusage-disable-line'),
+      { scope: 'line', codes: [] }
+    );
+    assert.strictEqual(parseInlineSuppression('logger.LogInformation("Hi");'), null);
+  });
+
+  test('Should honour inline suppression comments', () => {
+    fs.writeFileSync(path.join(folderPath, 'Orders.cs'), [
+      'class Orders {',
+      '    // loggerusage-disable-next-line LU002',
+      '    void A() => logger.LogInformation("Created");',
+      '    void B() => logger.LogInformation("Shipped {Email}", email); // loggerusage-disable-line LU003',
+      '}'
+    ].join('\n'));
+    const policy = new DiagnosticPolicy();
+
+    assert.ok(policy.isSuppressed('LU002', createLocation('Orders.cs', 2), 'Created'));
+    assert.ok(!policy.isSuppressed('LU001', createLocation('Orders.cs', 2), 'Created'));
+    assert.ok(policy.isSuppressed('LU003', createLocation('Orders.cs', 3), 'Shipped {Email}'));
+    assert.ok(!policy.isSuppressed('LU002', createLocation('Orders.cs', 3), 'Shipped {Email}'));
+  });
+
+  test('Should read source files again only once invalidated', () => {
+    const filePath = path.join(folderPath, 'Orders.cs');
+    fs.writeFileSync(filePath, '    void A() => logger.LogInformation("Created"); // loggerusage-disable-line');
+    const sources = new SourceTextCache();
+
+    assert.ok(new DiagnosticPolicy({}, [], [], [], sources).isSuppressed('LU002', createLocation('Orders.cs', 0), 'Created'));
+
+    fs.writeFileSync(filePath, '    void A() => logger.LogInformation("Created");');
+    assert.ok(new DiagnosticPolicy({}, [], [], [], sources).isSuppressed('LU002', createLocation('Orders.cs', 0), 'Created'), 'Kept across updates');
+
+    sources.invalidate(filePath);
+    assert.ok(!new DiagnosticPolicy({}, [], [], [], sources).isSuppressed('LU002', createLocation('Orders.cs', 0), 'Created'));
+  });
+
+  test('Should read a same-line suppression from the line the diagnostic is shown on', () => {
+    const lines = [
+      'class Orders {',
+      '    void A() => logger.LogInformation("Created");',
+      '    void B() => logger.LogInformation("Shipped"); // loggerusage-disable-line LU002',
+      '}'
+    ];
+    fs.writeFileSync(path.join(folderPath, 'Orders.cs'), lines.join('\n'));
+    const createInsight = (id: string, startLine: number, messageTemplate: string): LoggingInsight => ({
+      id,
+      methodType: 'LoggerExtension',
+      messageTemplate,
+      logLevel: 'Information',
+      eventId: null,
+      parameters: [],
+      location: createLocation('Orders.cs', startLine),
+      tags: [],
+      dataClassifications: [],
+      hasInconsistencies: true,
+      inconsistencies: [{ type: 'MissingEventId', message: 'EventId is missing for this log statement', severity: 'Warning' }]
+    });
+    const provider = new ProblemsProvider();
+
+    try {
+      provider.updateInsights([createInsight('a', 1, 'Created'), createInsight('b', 2, 'Shipped')]);
+
+      // Only the statement without the comment is reported, on its own line
+      const diagnostics = vscode.languages.getDiagnostics(vscode.Uri.file(path.join(folderPath, 'Orders.cs')));
+      assert.strictEqual(diagnostics.length, 1);
+      assert.strictEqual(diagnostics[0].range.start.line, 1);
+      assert.ok(lines[diagnostics[0].range.start.line].includes('"Created"'));
+    } finally {
+      provider.dispose();
+    }
+  });
+
+  test('Should honour the workspace suppressions file', () => {
+    const policy = new DiagnosticPolicy({}, [], [
+      { code: 'LU002', files: 'src/Legacy/**', folderPath },
+      { code: ['LU001'], messageTemplate: 'User {Email} signed up', folderPath }
+    ]);
+
+    assert.ok(policy.isSuppressed('LU002', createLocation('src/Legacy/Old.cs'), 'Anything'));
+    assert.ok(!policy.isSuppressed('LU002', createLocation('src/New.cs'), 'Anything'));
+    assert.ok(policy.isSuppressed('LU001', createLocation('src/New.cs'), 'User {Email} signed up'));
+    assert.ok(!policy.isSuppressed('LU001', createLocation('src/New.cs'), 'User {Name} signed up'));
+  });
+});
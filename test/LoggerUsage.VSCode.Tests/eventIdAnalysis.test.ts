@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import { analyzeEventIds } from '../../src/LoggerUsage.VSCode/src/eventIdAnalysis';
+import { LoggingInsight } from '../../src/LoggerUsage.VSCode/models/insightViewModel';
+
+suite('EventId Analysis Test Suite', () => {
+  // Helper to create test insight
+  function createTestInsight(id: number | null, name: string | null, messageTemplate: string, filePath: string = '/test/Orders.cs'): LoggingInsight {
+    return {
+      id: `${filePath}:${messageTemplate}`,
+      methodType: 'LoggerExtension',
+      messageTemplate,
+      logLevel: 'Information',
+      eventId: { id, name },
+      parameters: [],
+      location: {
+        filePath,
+        startLine: 10,
+        startColumn: 0,
+        endLine: 10,
+        endColumn: 0
+      },
+      tags: [],
+      dataClassifications: [],
+      hasInconsistencies: false
+    };
+  }
+
+  test('Should report EventIds shared by different message templates', () => {
+    const created = createTestInsight(1001, 'OrderCreated', 'Order {OrderId} created');
+    const failed = createTestInsight(1001, 'OrderCreated', 'Payment for {OrderId} failed', '/test/Payments.cs');
+
+    const issues = analyzeEventIds([created, failed]);
+
+    assert.deepStrictEqual(issues.map(i => [i.type, i.insight]), [
+      ['DuplicateEventId', created],
+      ['DuplicateEventId', failed]
+    ]);
+    assert.deepStrictEqual(issues[0].related, [failed], 'Should link the colliding call site');
+  });
+
+  test('Should not report an EventId logged from several places with the same template', () => {
+    const issues = analyzeEventIds([
+      createTestInsight(1001, 'OrderCreated', 'Order {OrderId} created'),
+      createTestInsight(1001, 'OrderCreated', 'Order {OrderId} created', '/test/Import.cs'),
+      createTestInsight(null, null, 'Order {OrderId} shipped')
+    ]);
+
+    assert.strictEqual(issues.length, 0);
+  });
+
+  test('Should report EventIds used under different names', () => {
+    const created = createTestInsight(1001, 'OrderCreated', 'Order {OrderId} created');
+    const placed = createTestInsight(1001, 'OrderPlaced', 'Order {OrderId} created', '/test/Import.cs');
+    const unnamed = createTestInsight(1001, null, 'Order {OrderId} created', '/test/Api.cs');
+
+    const issues = analyzeEventIds([created, placed, unnamed]);
+
+    assert.deepStrictEqual(issues.map(i => i.type), ['EventIdNameConflict', 'EventIdNameConflict']);
+    assert.strictEqual(issues[0].message, "EventId 1001 is named 'OrderCreated' here but 'OrderPlaced' elsewhere");
+    assert.deepStrictEqual(issues[1].related, [created]);
+  });
+
+  test('Should report EventIds outside the range of their project', () => {
+    const api = createTestInsight(1500, 'OrderCreated', 'Order {OrderId} created', '/test/Api/Orders.cs');
+    const worker = createTestInsight(1600, 'OrderShipped', 'Order {OrderId} shipped', '/test/Worker/Orders.cs');
+
+    const issues = analyzeEventIds([api, worker], filePath =>
+      filePath.startsWith('/test/Worker/') ? { min: 2000, max: 2999 } : undefined
+    );
+
+    assert.strictEqual(issues.length, 1);
+    assert.strictEqual(issues[0].type, 'EventIdOutOfRange');
+    assert.strictEqual(issues[0].insight, worker);
+  });
+});
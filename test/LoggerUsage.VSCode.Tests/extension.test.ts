@@ -57,6 +57,17 @@ suite('Extension Activation Test Suite', () => {
     assert.ok(loggerUsageCommands.includes('loggerUsage.clearFilters'), 'clearFilters command not registered');
     assert.ok(loggerUsageCommands.includes('loggerUsage.navigateToInsight'), 'navigateToInsight command not registered');
     assert.ok(loggerUsageCommands.includes('loggerUsage.refreshTreeView'), 'refreshTreeView command not registered');
+    assert.ok(loggerUsageCommands.includes('loggerUsage.showBridgeStatus'), 'showBridgeStatus command not registered');
+    assert.ok(loggerUsageCommands.includes('loggerUsage.recordBridgeSession'), 'recordBridgeSession command not registered');
+    assert.ok(loggerUsageCommands.includes('loggerUsage.createBaseline'), 'createBaseline command not registered');
+    assert.ok(loggerUsageCommands.includes('loggerUsage.toggleInlineDecorations'), 'toggleInlineDecorations command not registered');
+    assert.ok(loggerUsageCommands.includes('loggerUsage.findEventIdUsages'), 'findEventIdUsages command not registered');
+    assert.ok(loggerUsageCommands.includes('loggerUsage.findLogLineSource'), 'findLogLineSource command not registered');
+    assert.ok(loggerUsageCommands.includes('loggerUsage.importLogs'), 'importLogs command not registered');
+    assert.ok(loggerUsageCommands.includes('loggerUsage.selectLogDataset'), 'selectLogDataset command not registered');
+    assert.ok(loggerUsageCommands.includes('loggerUsage.clearImportedLogs'), 'clearImportedLogs command not registered');
+    assert.ok(loggerUsageCommands.includes('loggerUsage.showEventIdUsages'), 'showEventIdUsages command not registered');
+    assert.ok(loggerUsageCommands.includes('loggerUsage.revealInInsightsPanel'), 'revealInInsightsPanel command not registered');
   });
 
   test('Status bar item should be created on activation', async () => {
@@ -0,0 +1,110 @@
+import { BridgeTransportHandlers } from '../../../src/LoggerUsage.VSCode/src/transport/bridgeTransport';
+import { AnsweredRequest, BridgeFixtures, FakeBridgeTransport } from '../../../src/LoggerUsage.VSCode/src/transport/fakeTransport';
+import { AnalysisResponse, BridgeCapability, BridgeRequest } from '../../../src/LoggerUsage.VSCode/models/ipcMessages';
+
+/**
+ * Options of a controlled fake bridge
+ */
+export interface ControlledBridgeOptions {
+  /** Answers to analysis requests, as for the fake bridge */
+  fixtures?: BridgeFixtures;
+  /** Capabilities advertised in the handshake instead of the fake bridge's own */
+  capabilities?: BridgeCapability[];
+  /** Keeps analysis requests unanswered until released */
+  holdAnalyses?: boolean;
+  /** Answers the handshake without an id, like bridges that predate correlation ids */
+  untaggedHandshake?: boolean;
+  /** Memory use reported by stats requests */
+  workingSetMb?: number;
+}
+
+/**
+ * Fake bridge whose answers the test controls: analysis requests can be held and released
+ * in any order, and the handshake can be changed.
+ */
+export class ControlledBridgeTransport extends FakeBridgeTransport {
+  private readonly heldRequests = new Map<string, string>();
+  private output: BridgeTransportHandlers | null = null;
+
+  /** Stops answering heartbeats and stats, like a bridge that hangs */
+  public hung = false;
+
+  constructor(private readonly options: ControlledBridgeOptions = {}) {
+    super(options.fixtures);
+  }
+
+  public async connect(handlers: BridgeTransportHandlers): Promise<void> {
+    this.output = handlers;
+    return super.connect(handlers);
+  }
+
+  public send(line: string): void {
+    const request = JSON.parse(line) as BridgeRequest;
+    if (this.options.untaggedHandshake && request.command === 'ping' && request.protocolVersion !== undefined) {
+      this.requests.push(request);
+      const ready = { ...this.respondTo(request)[0], id: null };
+      setImmediate(() => this.output?.onData(JSON.stringify(ready) + '\n'));
+      return;
+    }
+
+    if (this.options.holdAnalyses && isAnalysis(request)) {
+      // Recorded now, answered once released
+      this.requests.push(request);
+      this.heldRequests.set(request.id, line);
+      return;
+    }
+
+    super.send(line);
+  }
+
+  /**
+   * Ids of the analysis requests received and not answered yet, oldest first
+   */
+  public get heldRequestIds(): string[] {
+    return [...this.heldRequests.keys()];
+  }
+
+  /**
+   * Answers a held analysis request; a request cancelled in the meantime answers `cancelled`
+   */
+  public release(requestId: string): void {
+    const line = this.heldRequests.get(requestId);
+    if (line === undefined) {
+      throw new Error(`No held request ${requestId}`);
+    }
+
+    this.heldRequests.delete(requestId);
+    super.send(line);
+    // Already recorded when received
+    this.requests.pop();
+  }
+
+  protected respondTo(request: AnsweredRequest): AnalysisResponse[] {
+    if (this.hung && (request.command === 'ping' || request.command === 'stats')) {
+      return [];
+    }
+
+    const messages = super.respondTo(request);
+    const { capabilities, workingSetMb } = this.options;
+    if (request.command === 'ping' && capabilities) {
+      return messages.map(message => ({ ...message, capabilities } as AnalysisResponse));
+    }
+    if (request.command === 'stats' && workingSetMb !== undefined) {
+      return messages.map(message => ({ ...message, workingSetBytes: workingSetMb * 1024 * 1024 } as AnalysisResponse));
+    }
+    return messages;
+  }
+}
+
+/**
+ * Waits until the fake bridge has sent everything it queued
+ */
+export async function flushBridge(ticks: number = 10): Promise<void> {
+  for (let i = 0; i < ticks; i++) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+}
+
+function isAnalysis(request: BridgeRequest): boolean {
+  return request.command === 'analyze' || request.command === 'analyzeFile' || request.command === 'analyzeFiles';
+}
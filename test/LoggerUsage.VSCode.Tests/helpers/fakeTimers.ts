@@ -0,0 +1,89 @@
+/**
+ * Fake timers for tests of timeouts and periodic work.
+ */
+
+interface FakeTimer {
+  dueAt: number;
+  callback: () => void;
+}
+
+/**
+ * Replaces setTimeout and clearTimeout with a clock that only moves when the test advances it,
+ * so timers of minutes fire instantly and in order. setImmediate keeps working, so promises
+ * and the fake bridge still settle between timers.
+ */
+export class FakeClock {
+  private now = 0;
+  private nextId = 1;
+  private readonly timers = new Map<number, FakeTimer>();
+  private readonly realSetTimeout = global.setTimeout;
+  private readonly realClearTimeout = global.clearTimeout;
+
+  /**
+   * Starts faking the timers; timers set before keep running on the real clock
+   */
+  public install(): void {
+    global.setTimeout = ((callback: (...args: unknown[]) => void, delay: number = 0, ...args: unknown[]) => {
+      const id = this.nextId++;
+      this.timers.set(id, { dueAt: this.now + Math.max(0, delay), callback: () => callback(...args) });
+      return id;
+    }) as unknown as typeof global.setTimeout;
+
+    global.clearTimeout = ((id: unknown) => {
+      if (typeof id === 'number' && this.timers.has(id)) {
+        this.timers.delete(id);
+      } else {
+        this.realClearTimeout(id as NodeJS.Timeout);
+      }
+    }) as typeof global.clearTimeout;
+  }
+
+  /**
+   * Restores the real timers; pending fake timers never fire
+   */
+  public uninstall(): void {
+    global.setTimeout = this.realSetTimeout;
+    global.clearTimeout = this.realClearTimeout;
+    this.timers.clear();
+  }
+
+  /**
+   * Advances the clock, firing every timer that falls due in order. Work started by a timer
+   * settles before the next timer fires.
+   */
+  public async tick(ms: number): Promise<void> {
+    const until = this.now + ms;
+
+    for (let timer = this.nextDue(until); timer; timer = this.nextDue(until)) {
+      const [id, { dueAt, callback }] = timer;
+      this.timers.delete(id);
+      this.now = dueAt;
+      callback();
+      await settle();
+    }
+
+    this.now = until;
+    await settle();
+  }
+
+  // ==================== Private Methods ====================
+
+  private nextDue(until: number): [number, FakeTimer] | undefined {
+    let next: [number, FakeTimer] | undefined;
+    for (const entry of this.timers) {
+      if (entry[1].dueAt <= until && (!next || entry[1].dueAt < next[1].dueAt)) {
+        next = entry;
+      }
+    }
+    return next;
+  }
+}
+
+/**
+ * Lets promises and setImmediate callbacks run
+ */
+async function settle(): Promise<void> {
+  for (let i = 0; i < 20; i++) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+}
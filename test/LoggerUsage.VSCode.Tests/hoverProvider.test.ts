@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import { renderInsightHover } from '../../src/LoggerUsage.VSCode/src/hoverProvider';
+import { findInsightAtLine } from '../../src/LoggerUsage.VSCode/src/utils/insightLocation';
+import { LoggingInsight } from '../../src/LoggerUsage.VSCode/models/insightViewModel';
+
+suite('Hover Provider Test Suite', () => {
+  const filePath = 'C:\\test\\OrderService.cs';
+
+  // Helper to create test insight
+  function createTestInsight(startLine: number, endLine: number, overrides: Partial<LoggingInsight> = {}): LoggingInsight {
+    return {
+      id: `${filePath}:${startLine}:0`,
+      methodType: 'LoggerExtension',
+      messageTemplate: 'Order {OrderId} created',
+      logLevel: 'Information',
+      eventId: null,
+      parameters: ['OrderId'],
+      location: { filePath, startLine, startColumn: 0, endLine, endColumn: 0 },
+      tags: [],
+      dataClassifications: [],
+      hasInconsistencies: false,
+      ...overrides
+    };
+  }
+
+  test('Should find the innermost statement spanning a line', () => {
+    const scope = createTestInsight(10, 20, { methodType: 'BeginScope' });
+    const call = createTestInsight(12, 13);
+    const insights = [scope, call];
+
+    assert.strictEqual(findInsightAtLine(insights, filePath, 13), call);
+    assert.strictEqual(findInsightAtLine(insights, filePath, 15), scope);
+    assert.strictEqual(findInsightAtLine(insights, filePath, 9), undefined);
+    assert.strictEqual(findInsightAtLine(insights, 'C:\\test\\Other.cs', 12), undefined);
+  });
+
+  test('Should render the details of a statement', () => {
+    const markdown = renderInsightHover(createTestInsight(2, 2, {
+      logLevel: 'Warning',
+      eventId: { id: 1001, name: 'OrderCreated' },
+      parameters: ['OrderId', 'Email'],
+      parameterTypes: ['int', null],
+      dataClassifications: [{ parameterName: 'Email', classificationType: 'PersonalData' }],
+      hasInconsistencies: true,
+      inconsistencies: [{ type: 'SensitiveDataInLog', message: 'Email is personal data', severity: 'Warning' }]
+    }), 3);
+
+    assert.ok(markdown.includes('Order {OrderId} created'));
+    assert.ok(markdown.includes('| Level | Warning |'));
+    assert.ok(markdown.includes('| EventId | 1001 (OrderCreated) |'));
+    assert.ok(markdown.includes('`OrderId`: int, `Email`'));
+    assert.ok(markdown.includes('`Email`: PersonalData'));
+    assert.ok(markdown.includes('$(warning) Email is personal data'));
+    assert.ok(markdown.includes('(command:loggerUsage.showEventIdUsages?'));
+    assert.ok(markdown.includes('(command:loggerUsage.revealInInsightsPanel?'));
+  });
+
+  test('Should only link EventId usages when the statement has an EventId', () => {
+    const markdown = renderInsightHover(createTestInsight(2, 2), 0);
+
+    assert.ok(markdown.includes('| EventId | None |'));
+    assert.ok(!markdown.includes('showEventIdUsages'));
+  });
+});
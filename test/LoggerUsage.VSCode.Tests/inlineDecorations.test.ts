@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import { formatInlineDecoration } from '../../src/LoggerUsage.VSCode/src/inlineDecorations';
+import { LoggingInsight } from '../../src/LoggerUsage.VSCode/models/insightViewModel';
+
+suite('Inline Decorations Test Suite', () => {
+  // Helper to create test insight
+  function createTestInsight(overrides: Partial<LoggingInsight>): LoggingInsight {
+    return {
+      id: 'C:\\test\\OrderService.cs:2:0',
+      methodType: 'LoggerExtension',
+      messageTemplate: 'Order {OrderId} created',
+      logLevel: 'Warning',
+      eventId: null,
+      parameters: ['OrderId'],
+      location: { filePath: 'C:\\test\\OrderService.cs', startLine: 2, startColumn: 0, endLine: 2, endColumn: 0 },
+      tags: [],
+      dataClassifications: [],
+      hasInconsistencies: false,
+      ...overrides
+    };
+  }
+
+  test('Should show the level and EventId', () => {
+    assert.strictEqual(
+      formatInlineDecoration(createTestInsight({ eventId: { id: 1001, name: 'OrderCreated' } })),
+      'Warning · EventId 1001 (OrderCreated)'
+    );
+    assert.strictEqual(formatInlineDecoration(createTestInsight({ eventId: { id: 7, name: null } })), 'Warning · EventId 7');
+    assert.strictEqual(formatInlineDecoration(createTestInsight({})), 'Warning');
+  });
+
+  test('Should mark levels only known at runtime and skip scopes', () => {
+    assert.strictEqual(formatInlineDecoration(createTestInsight({ logLevel: null })), 'Dynamic level');
+    assert.strictEqual(formatInlineDecoration(createTestInsight({ methodType: 'BeginScope', logLevel: null })), null);
+  });
+});
@@ -0,0 +1,115 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { InsightCache } from '../../src/LoggerUsage.VSCode/src/insightCache';
+import { LoggingInsight } from '../../src/LoggerUsage.VSCode/models/insightViewModel';
+
+suite('Insight Cache Test Suite', () => {
+  let tempDir: string;
+  let solutionPath: string;
+
+  setup(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'logger-usage-cache-'));
+    solutionPath = path.join(tempDir, 'Test.sln');
+  });
+
+  teardown(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  // Helper to create a source file
+  function createSourceFile(name: string, content: string): string {
+    const filePath = path.join(tempDir, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  }
+
+  // Helper to create test insight
+  function createTestInsight(filePath: string): LoggingInsight {
+    return {
+      id: `${filePath}:10:5`,
+      methodType: 'LoggerExtension',
+      messageTemplate: 'User {UserId} logged in',
+      logLevel: 'Information',
+      eventId: null,
+      parameters: ['UserId'],
+      location: {
+        filePath,
+        startLine: 10,
+        startColumn: 5,
+        endLine: 10,
+        endColumn: 50
+      },
+      tags: [],
+      dataClassifications: [],
+      hasInconsistencies: false
+    };
+  }
+
+  test('Should restore a saved analysis in a new session', async () => {
+    const withLogging = createSourceFile('A.cs', 'class A {}');
+    const withoutLogging = createSourceFile('B.cs', 'class B {}');
+    const storageUri = vscode.Uri.file(path.join(tempDir, 'storage'));
+
+    await new InsightCache(storageUri).save(solutionPath, [createTestInsight(withLogging)], [withLogging, withoutLogging]);
+    const cached = await new InsightCache(storageUri).load(solutionPath);
+
+    assert.ok(cached, 'Cached analysis should be found');
+    assert.deepStrictEqual(Object.keys(cached.files).sort(), [withLogging, withoutLogging].sort());
+    assert.strictEqual(cached.files[withLogging].insights.length, 1);
+    assert.strictEqual(cached.files[withoutLogging].insights.length, 0);
+  });
+
+  test('Should report changed and deleted files as stale', async () => {
+    const unchanged = createSourceFile('A.cs', 'class A {}');
+    const changed = createSourceFile('B.cs', 'class B {}');
+    const deleted = createSourceFile('C.cs', 'class C {}');
+    const cache = new InsightCache(vscode.Uri.file(path.join(tempDir, 'storage')));
+
+    await cache.save(solutionPath, [], [unchanged, changed, deleted]);
+    fs.writeFileSync(changed, 'class B { void M() {} }');
+    fs.unlinkSync(deleted);
+
+    const stale = await cache.findStaleFiles((await cache.load(solutionPath))!);
+
+    assert.deepStrictEqual(stale, { changed: [changed], deleted: [deleted], added: [] });
+  });
+
+  test('Should find source files missing from a cached analysis', async () => {
+    const cachedFile = createSourceFile('A.cs', 'class A {}');
+    const cache = new InsightCache(vscode.Uri.file(path.join(tempDir, 'storage')));
+
+    // B.cs had no logging statements and was not recorded, C.cs was created since
+    await cache.save(solutionPath, [createTestInsight(cachedFile)], []);
+    const unrecorded = createSourceFile('B.cs', 'class B {}');
+    const created = createSourceFile('C.cs', 'class C { void M() {} }');
+
+    const stale = await cache.findStaleFiles((await cache.load(solutionPath))!, [cachedFile, unrecorded, created]);
+
+    assert.deepStrictEqual(stale, { changed: [], deleted: [], added: [unrecorded, created] });
+  });
+
+  test('Should update files of a cached analysis', async () => {
+    const filePath = createSourceFile('A.cs', 'class A {}');
+    const cache = new InsightCache(vscode.Uri.file(path.join(tempDir, 'storage')));
+
+    await cache.save(solutionPath, [], [filePath]);
+    fs.writeFileSync(filePath, 'class A { void M() {} }');
+    await cache.updateFiles(solutionPath, new Map([[filePath, [createTestInsight(filePath)]]]), []);
+
+    const cached = (await cache.load(solutionPath))!;
+    assert.strictEqual(cached.files[filePath].insights.length, 1);
+    assert.deepStrictEqual(await cache.findStaleFiles(cached), { changed: [], deleted: [], added: [] });
+  });
+
+  test('Should not cache without workspace storage', async () => {
+    const filePath = createSourceFile('A.cs', 'class A {}');
+    const cache = new InsightCache(undefined);
+
+    await cache.save(solutionPath, [], [filePath]);
+
+    assert.strictEqual(await cache.load(solutionPath), null);
+  });
+});
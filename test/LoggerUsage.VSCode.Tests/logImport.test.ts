@@ -0,0 +1,89 @@
+import * as assert from 'assert';
+import { addLogLine, createLogDataset, getHitStatus, getLogMatchKey, matchLogDataset, parseLogEntry } from '../../src/LoggerUsage.VSCode/src/logImport';
+import { LoggingInsight } from '../../src/LoggerUsage.VSCode/models/insightViewModel';
+
+suite('Log Import Test Suite', () => {
+  // Helper to create test insight
+  function createTestInsight(startLine: number, overrides: Partial<LoggingInsight>): LoggingInsight {
+    return {
+      id: `C:\\test\\OrderService.cs:${startLine}:0`,
+      methodType: 'LoggerExtension',
+      messageTemplate: 'Order {OrderId} created',
+      logLevel: 'Information',
+      eventId: null,
+      parameters: ['OrderId'],
+      location: { filePath: 'C:\\test\\OrderService.cs', startLine, startColumn: 0, endLine: startLine, endColumn: 0 },
+      tags: [],
+      dataClassifications: [],
+      hasInconsistencies: false,
+      ...overrides
+    };
+  }
+
+  test('Should read JSON console, CLEF and Serilog JSON entries', () => {
+    assert.deepStrictEqual(parseLogEntry({
+      Timestamp: '2024-05-01T10:00:00Z',
+      EventId: 1001,
+      LogLevel: 'Information',
+      Message: 'Order 7 created',
+      State: { Message: 'Order 7 created', OrderId: 7, '{OriginalFormat}': 'Order {OrderId} created' }
+    }), { eventId: 1001, template: 'Order {OrderId} created', message: 'Order 7 created', timestamp: Date.parse('2024-05-01T10:00:00Z') });
+
+    assert.deepStrictEqual(parseLogEntry({ '@t': '2024-05-01T10:00:00Z', '@mt': 'Cache warmed up', EventId: { Id: 3, Name: 'Warmed' } }), {
+      eventId: 3, template: 'Cache warmed up', message: null, timestamp: Date.parse('2024-05-01T10:00:00Z')
+    });
+
+    assert.deepStrictEqual(parseLogEntry({ MessageTemplate: 'Cache warmed up', Properties: { EventId: { Id: 0 } } }), {
+      eventId: null, template: 'Cache warmed up', message: null, timestamp: null
+    });
+
+    assert.strictEqual(parseLogEntry({ Timestamp: '2024-05-01T10:00:00Z' }), null);
+  });
+
+  test('Should match entries by template, EventId and rendered message', () => {
+    const created = createTestInsight(10, { eventId: { id: 1001, name: 'OrderCreated' } });
+    const shipped = createTestInsight(20, { messageTemplate: 'Order {OrderId} shipped', eventId: { id: 1002, name: 'OrderShipped' } });
+    const cancelled = createTestInsight(30, { messageTemplate: 'Order {OrderId} cancelled', eventId: { id: 1002, name: 'OrderShipped' } });
+    const scope = createTestInsight(40, { methodType: 'BeginScope', messageTemplate: 'Order {OrderId}' });
+    const unused = createTestInsight(50, { messageTemplate: 'Payment {PaymentId} failed' });
+
+    const dataset = createLogDataset('app.clef', ['app.clef']);
+    addLogLine(dataset, '{"@t":"2024-05-01T10:00:00Z","@mt":"Order {OrderId} created","EventId":{"Id":1001}}');
+    addLogLine(dataset, '{"@t":"2024-05-02T10:00:00Z","@mt":"Order {OrderId} created","EventId":{"Id":1001}}');
+    addLogLine(dataset, '{"EventId":1002,"Message":"Order 5 cancelled"}');
+    addLogLine(dataset, '{"Message":"Order 6 shipped"}');
+    addLogLine(dataset, '{"@mt":"Unknown template"}');
+    addLogLine(dataset, '');
+    addLogLine(dataset, 'not json');
+
+    assert.strictEqual(dataset.entryCount, 5);
+    assert.strictEqual(dataset.invalidLines, 1);
+    assert.strictEqual(dataset.end! - dataset.start!, 24 * 60 * 60 * 1000);
+
+    const hits = matchLogDataset(dataset, [created, shipped, cancelled, scope, unused]);
+    assert.deepStrictEqual(hits.counts, { [created.id]: 2, [shipped.id]: 1, [cancelled.id]: 1, [unused.id]: 0 });
+    assert.strictEqual(hits.matchedEntries, 4);
+    assert.strictEqual(hits.unmatchedEntries, 1);
+  });
+
+  test('Should re-match only when the matched statements change', () => {
+    const created = createTestInsight(10, { eventId: { id: 1001, name: 'OrderCreated' } });
+    const scope = createTestInsight(40, { methodType: 'BeginScope', messageTemplate: 'Order {OrderId}' });
+    const key = getLogMatchKey([created, scope]);
+
+    assert.strictEqual(getLogMatchKey([{ ...created, logLevel: 'Warning', parameters: ['orderId'] }, scope]), key);
+    assert.strictEqual(getLogMatchKey([created]), key, 'Scopes are not matched');
+    assert.notStrictEqual(getLogMatchKey([{ ...created, messageTemplate: 'Order {OrderId} placed' }]), key);
+    assert.notStrictEqual(getLogMatchKey([{ ...created, eventId: { id: 1002, name: 'OrderCreated' } }]), key);
+    assert.notStrictEqual(getLogMatchKey([createTestInsight(11, { eventId: { id: 1001, name: 'OrderCreated' } })]), key);
+  });
+
+  test('Should mark statements that never fired or wrote a large share of the entries', () => {
+    const hits = { dataset: 'app.clef', counts: { a: 0, b: 1, c: 90 }, hotThreshold: 10, matchedEntries: 91, unmatchedEntries: 0, start: null, end: null };
+
+    assert.strictEqual(getHitStatus(hits, 'a'), 'dead');
+    assert.strictEqual(getHitStatus(hits, 'b'), undefined);
+    assert.strictEqual(getHitStatus(hits, 'c'), 'hot');
+    assert.strictEqual(getHitStatus(hits, 'scope'), undefined);
+  });
+});
@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import { findLogLineSources, matchTemplate } from '../../src/LoggerUsage.VSCode/src/logLineSource';
+import { splitTemplate } from '../../src/LoggerUsage.VSCode/src/utils/messageTemplate';
+import { LoggingInsight } from '../../src/LoggerUsage.VSCode/models/insightViewModel';
+
+suite('Log Line Source Test Suite', () => {
+  // Helper to create test insight
+  function createTestInsight(startLine: number, messageTemplate: string): LoggingInsight {
+    return {
+      id: `C:\\test\\OrderService.cs:${startLine}:0`,
+      methodType: 'LoggerExtension',
+      messageTemplate,
+      logLevel: 'Information',
+      eventId: null,
+      parameters: [],
+      location: { filePath: 'C:\\test\\OrderService.cs', startLine, startColumn: 0, endLine: startLine, endColumn: 0 },
+      tags: [],
+      dataClassifications: [],
+      hasInconsistencies: false
+    };
+  }
+
+  test('Should split templates into text and placeholders', () => {
+    assert.deepStrictEqual(splitTemplate('{{Done}} {@Order} in {Elapsed,8:0.00}ms {'), [
+      { kind: 'text', text: '{Done} ' },
+      { kind: 'placeholder', name: 'Order' },
+      { kind: 'text', text: ' in ' },
+      { kind: 'placeholder', name: 'Elapsed' },
+      { kind: 'text', text: 'ms {' }
+    ]);
+  });
+
+  test('Should extract placeholder values, including formatted ones', () => {
+    assert.deepStrictEqual(matchTemplate('Order {OrderId} failed after {RetryCount} retries', 'Order 12345 failed after 3 retries'), {
+      exact: true,
+      coverage: 28 / 34,
+      values: [{ name: 'OrderId', value: '12345' }, { name: 'RetryCount', value: '3' }]
+    });
+    assert.deepStrictEqual(
+      matchTemplate('Request (ID {RequestId}) took {Elapsed:0.00} ms', 'Request (ID a-1) took 12.50 ms')?.values,
+      [{ name: 'RequestId', value: 'a-1' }, { name: 'Elapsed', value: '12.50' }]
+    );
+    assert.strictEqual(matchTemplate('Order {OrderId} created', 'Order 12345 failed after 3 retries'), null);
+    assert.strictEqual(matchTemplate('{Message}', 'Order 12345 failed after 3 retries'), null);
+  });
+
+  test('Should rank whole-line matches before partial ones', () => {
+    const insights = [
+      createTestInsight(10, 'Order {OrderId} failed'),
+      createTestInsight(20, 'Order {OrderId} failed after {RetryCount} retries'),
+      createTestInsight(30, 'Payment {PaymentId} failed')
+    ];
+
+    const sources = findLogLineSources(insights, '2024-05-01 10:00:00 [ERR] Order 12345 failed after 3 retries');
+    assert.deepStrictEqual(sources.map(s => s.insight.location.startLine), [20, 10]);
+    assert.strictEqual(sources[0].exact, false);
+    assert.deepStrictEqual(sources[1].values, [{ name: 'OrderId', value: '12345' }]);
+
+    assert.strictEqual(findLogLineSources(insights, 'Order 7 failed')[0].exact, true);
+  });
+});
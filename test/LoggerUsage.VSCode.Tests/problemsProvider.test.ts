@@ -66,6 +66,25 @@ suite('Problems Provider Test Suite', () => {
     assert.ok(true, 'Should publish diagnostics without error');
   });
 
+  test('Should show diagnostics on the statement line reported by the bridge', () => {
+    const insight = createTestInsight({
+      hasInconsistencies: true,
+      inconsistencies: [{
+        type: 'NameMismatch',
+        message: 'Parameter name mismatch: expected UserId, got userId',
+        severity: 'Warning'
+      }]
+    });
+
+    provider.updateInsights([insight]);
+
+    // Bridge locations are 0-based, like VS Code positions
+    const diagnostics = vscode.languages.getDiagnostics(vscode.Uri.file('/test/file.cs'));
+    assert.strictEqual(diagnostics.length, 1);
+    assert.strictEqual(diagnostics[0].range.start.line, 10);
+    assert.strictEqual(diagnostics[0].range.start.character, 5);
+  });
+
   test('Should publish diagnostics for missing EventIds', () => {
     const inconsistency: ParameterInconsistency = {
       type: 'MissingEventId',
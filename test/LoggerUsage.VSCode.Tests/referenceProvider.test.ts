@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import { findReferences, findTargetAtLine } from '../../src/LoggerUsage.VSCode/src/referenceProvider';
+import { LoggingInsight } from '../../src/LoggerUsage.VSCode/models/insightViewModel';
+
+suite('Reference Provider Test Suite', () => {
+  const logFile = 'C:\\test\\Log.cs';
+  const serviceFile = 'C:\\test\\OrderService.cs';
+
+  // Helper to create a location
+  function createLocation(filePath: string, startLine: number) {
+    return { filePath, startLine, startColumn: 0, endLine: startLine, endColumn: 0 };
+  }
+
+  // Helper to create test insight
+  function createTestInsight(filePath: string, startLine: number, overrides: Partial<LoggingInsight> = {}): LoggingInsight {
+    return {
+      id: `${filePath}:${startLine}:0`,
+      methodType: 'LoggerExtension',
+      messageTemplate: 'Order {OrderId} created',
+      logLevel: 'Information',
+      eventId: null,
+      parameters: ['OrderId'],
+      location: createLocation(filePath, startLine),
+      tags: [],
+      dataClassifications: [],
+      hasInconsistencies: false,
+      ...overrides
+    };
+  }
+
+  const declaration = createTestInsight(logFile, 5, {
+    methodType: 'LoggerMessageAttribute',
+    messageTemplate: 'Payment {PaymentId} failed',
+    eventId: { id: 2001, name: 'PaymentFailed' },
+    invocations: [
+      { containingType: 'MyApp.OrderService', location: createLocation(serviceFile, 40) },
+      { containingType: 'MyApp.OrderService', location: createLocation(serviceFile, 60) }
+    ]
+  });
+  const created = createTestInsight(serviceFile, 10, { eventId: { id: 1001, name: 'OrderCreated' } });
+  const createdAgain = createTestInsight(serviceFile, 20);
+  const sameEventId = createTestInsight(serviceFile, 30, { messageTemplate: 'Order {OrderId} placed', eventId: { id: 1001, name: 'OrderCreated' } });
+  const unrelated = createTestInsight(serviceFile, 50, { messageTemplate: 'Cache warmed up' });
+  const insights = [declaration, created, createdAgain, sameEventId, unrelated];
+
+  test('Should find statements sharing the EventId or template', () => {
+    const target = findTargetAtLine(insights, serviceFile, 10)!;
+
+    assert.strictEqual(target.insight, created);
+    assert.deepStrictEqual(findReferences(insights, target).map(r => r.location.startLine), [10, 20, 30]);
+  });
+
+  test('Should find the declaration and calls of a LoggerMessage method from a call', () => {
+    const target = findTargetAtLine(insights, serviceFile, 60)!;
+
+    assert.strictEqual(target.insight, declaration);
+    assert.strictEqual(target.invocation?.location.startLine, 60);
+    assert.deepStrictEqual(
+      findReferences(insights, target).map(r => `${r.location.filePath}:${r.location.startLine}`),
+      [`${logFile}:5`, `${serviceFile}:40`, `${serviceFile}:60`]
+    );
+  });
+
+  test('Should find nothing on lines without logging', () => {
+    assert.strictEqual(findTargetAtLine(insights, serviceFile, 45), undefined);
+  });
+});
@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import { getLoggingSymbols, scoreMatch, searchLoggingSymbols } from '../../src/LoggerUsage.VSCode/src/symbolProvider';
+import { LoggingInsight } from '../../src/LoggerUsage.VSCode/models/insightViewModel';
+
+suite('Symbol Provider Test Suite', () => {
+  // Helper to create test insight
+  function createTestInsight(startLine: number, overrides: Partial<LoggingInsight>): LoggingInsight {
+    return {
+      id: `C:\\test\\OrderService.cs:${startLine}:0`,
+      methodType: 'LoggerExtension',
+      messageTemplate: 'Order {OrderId} created',
+      logLevel: 'Information',
+      eventId: null,
+      parameters: ['OrderId'],
+      location: { filePath: 'C:\\test\\OrderService.cs', startLine, startColumn: 0, endLine: startLine, endColumn: 0 },
+      tags: [],
+      dataClassifications: [],
+      hasInconsistencies: false,
+      ...overrides
+    };
+  }
+
+  test('Should rank exact matches over prefixes, substrings and subsequences', () => {
+    const template = 'Failed to process order {OrderId}';
+
+    assert.strictEqual(scoreMatch('failed to process order {orderid}', template), 100);
+    assert.ok(scoreMatch('Failed to process', template) > scoreMatch('process order', template));
+    assert.ok(scoreMatch('process order', template) > scoreMatch('rocess order', template));
+    assert.ok(scoreMatch('rocess order', template) > scoreMatch('order failed', template));
+    assert.ok(scoreMatch('order failed', template) > scoreMatch('fpo', template));
+    assert.strictEqual(scoreMatch('payment', template), 0);
+  });
+
+  test('Should index templates, EventId names and LoggerMessage methods', () => {
+    const symbols = getLoggingSymbols([
+      createTestInsight(10, { eventId: { id: 1001, name: 'OrderCreated' } }),
+      createTestInsight(20, { methodType: 'LoggerMessageAttribute', methodName: 'LogPaymentFailed', messageTemplate: 'Payment failed' }),
+      createTestInsight(30, { methodType: 'BeginScope', messageTemplate: '' })
+    ]);
+
+    assert.deepStrictEqual(symbols.map(s => `${s.kind}:${s.name}`), [
+      'template:Order {OrderId} created',
+      'eventId:OrderCreated',
+      'template:Payment failed',
+      'method:LogPaymentFailed'
+    ]);
+  });
+
+  test('Should return the best matches first', () => {
+    const insights = [
+      createTestInsight(10, { messageTemplate: 'Retrying after failed to process order {OrderId}' }),
+      createTestInsight(20, { messageTemplate: 'Failed to process order {OrderId}' }),
+      createTestInsight(30, { messageTemplate: 'Cache warmed up' })
+    ];
+
+    assert.deepStrictEqual(
+      searchLoggingSymbols(insights, 'Failed to process order').map(m => m.symbol.insight.location.startLine),
+      [20, 10]
+    );
+  });
+});
@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import { PlaceholderCasing, runTemplateRules } from '../../src/LoggerUsage.VSCode/src/templateRules';
+import { LoggingInsight } from '../../src/LoggerUsage.VSCode/models/insightViewModel';
+
+suite('Template Rules Test Suite', () => {
+  // Helper to create test insight
+  function createTestInsight(overrides: Partial<LoggingInsight>): LoggingInsight {
+    return {
+      id: 'C:\\test\\OrderService.cs:2:0',
+      methodType: 'LoggerExtension',
+      messageTemplate: 'Order {OrderId} created',
+      logLevel: 'Information',
+      eventId: null,
+      parameters: ['OrderId'],
+      location: {
+        filePath: 'C:\\test\\OrderService.cs',
+        startLine: 2,
+        startColumn: 0,
+        endLine: 2,
+        endColumn: 0
+      },
+      tags: [],
+      dataClassifications: [],
+      hasInconsistencies: false,
+      ...overrides
+    };
+  }
+
+  // Helper to run the rules over a statement with the given source
+  function getCodes(insight: LoggingInsight, source: string | null = null, placeholderCasing: PlaceholderCasing = 'PascalCase'): string[] {
+    return runTemplateRules(insight, { getStatementText: () => source, placeholderCasing }).map(f => f.rule.code);
+  }
+
+  test('Should report interpolated and concatenated templates', () => {
+    const insight = createTestInsight({ messageTemplate: '', parameters: [] });
+
+    assert.deepStrictEqual(getCodes(insight, 'logger.LogInformation($"Order {orderId} created");'), ['LU007']);
+    assert.deepStrictEqual(getCodes(insight, 'logger.LogInformation("Order " + orderId + " created");'), ['LU007']);
+    assert.deepStrictEqual(getCodes(insight, 'logger.LogInformation(Messages.OrderCreated);'), []);
+  });
+
+  test('Should report placeholder casing, duplicates and trailing periods', () => {
+    assert.deepStrictEqual(getCodes(createTestInsight({ messageTemplate: 'Order {orderId} created' })), ['LU008']);
+    assert.deepStrictEqual(getCodes(createTestInsight({ messageTemplate: 'Order {orderId} created' }), null, 'camelCase'), []);
+    assert.deepStrictEqual(getCodes(createTestInsight({ messageTemplate: 'Moved {Id} to {Id}' })), ['LU009']);
+    assert.deepStrictEqual(getCodes(createTestInsight({ messageTemplate: 'Order {OrderId} created.' })), ['LU010']);
+    assert.deepStrictEqual(getCodes(createTestInsight({ messageTemplate: 'Loading...' })), []);
+  });
+
+  test('Should report exceptions passed as placeholders', () => {
+    const insight = createTestInsight({
+      messageTemplate: 'Order {OrderId} failed: {Error}',
+      parameters: ['OrderId', 'Error'],
+      parameterTypes: ['int', 'System.InvalidOperationException']
+    });
+
+    const findings = runTemplateRules(insight, { getStatementText: () => null, placeholderCasing: 'PascalCase' });
+    assert.deepStrictEqual(findings.map(f => f.rule.code), ['LU011']);
+    assert.ok(findings[0].message.includes('{Error}'));
+  });
+
+  test('Should report errors logged without an exception', () => {
+    const insight = createTestInsight({ logLevel: 'Error' });
+
+    assert.deepStrictEqual(getCodes(insight, 'logger.LogError("Order {OrderId} created", orderId);'), ['LU012']);
+    assert.deepStrictEqual(getCodes(insight, 'logger.LogError(ex, "Order {OrderId} created", orderId);'), []);
+    assert.deepStrictEqual(getCodes(insight, 'logger.LogError(new EventId(5), "Order {OrderId} created", orderId);'), ['LU012']);
+    assert.deepStrictEqual(getCodes(insight, null), [], 'Unreadable source is not reported');
+
+    const declaration = createTestInsight({ methodType: 'LoggerMessageAttribute', logLevel: 'Critical' });
+    assert.deepStrictEqual(getCodes(declaration, '[LoggerMessage(Level = LogLevel.Critical, Message = "Order {OrderId} created")]\npublic static partial void OrderFailed(ILogger logger, Exception ex, int orderId);'), []);
+    assert.deepStrictEqual(getCodes(declaration, '[LoggerMessage(Level = LogLevel.Critical, Message = "Order {OrderId} created")]\npublic static partial void OrderFailed(ILogger logger, int orderId);'), ['LU012']);
+  });
+});
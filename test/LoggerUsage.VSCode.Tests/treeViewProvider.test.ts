@@ -338,4 +338,30 @@ suite('Tree View Provider Test Suite', () => {
 
     provider.dispose();
   });
+
+  test('Should show hits from imported logs on insight nodes', async () => {
+    const provider = new LoggerTreeViewProvider();
+    const insights = [
+      createTestInsight('1', 'C:\\Project1\\File1.cs', 10, 'Order created'),
+      createTestInsight('2', 'C:\\Project1\\File1.cs', 20, 'Cache warmed up')
+    ];
+
+    provider.updateInsights(insights);
+    provider.updateLogHits({ dataset: 'app.clef', counts: { '1': 1234, '2': 0 }, hotThreshold: 124, matchedEntries: 1234, unmatchedEntries: 0, start: null, end: null });
+
+    const roots = await provider.getChildren();
+    const projects = await provider.getChildren(roots[0]);
+    const files = await provider.getChildren(projects[0]);
+    const insightNodes = await provider.getChildren(files[0]);
+
+    assert.strictEqual(insightNodes[0].description, `Information · ${(1234).toLocaleString()} hits`);
+    assert.strictEqual(insightNodes[1].description, 'Information · never fired');
+    assert.strictEqual((provider.getTreeItem(insightNodes[0]).iconPath as vscode.ThemeIcon).id, 'flame');
+    assert.strictEqual((provider.getTreeItem(insightNodes[1]).iconPath as vscode.ThemeIcon).id, 'circle-slash');
+
+    provider.updateLogHits(null);
+    assert.strictEqual((await provider.getChildren(files[0]))[0].description, 'Information');
+
+    provider.dispose();
+  });
 });
@@ -0,0 +1,43 @@
+import * as assert from 'assert';
+import { formatCount, formatVolume, getVolumeLevel } from '../../src/LoggerUsage.VSCode/src/volumeDecorations';
+import { LogHitCounts } from '../../src/LoggerUsage.VSCode/models/insightViewModel';
+
+suite('Volume Decorations Test Suite', () => {
+  // Helper to create hit counts spanning a number of hours
+  function createHits(hours: number | null): LogHitCounts {
+    const start = Date.parse('2024-05-01T00:00:00Z');
+    return {
+      dataset: 'app.clef',
+      counts: {},
+      hotThreshold: 1,
+      matchedEntries: 0,
+      unmatchedEntries: 0,
+      start: hours === null ? null : start,
+      end: hours === null ? null : start + hours * 60 * 60 * 1000
+    };
+  }
+
+  test('Should show entries per day when the dataset spans an hour or more', () => {
+    assert.strictEqual(formatVolume(6150, createHits(12)), '12.3k/day');
+    assert.strictEqual(formatVolume(3, createHits(72)), '1/day');
+    assert.strictEqual(formatVolume(1234, createHits(0.5)), '1.2k hits');
+    assert.strictEqual(formatVolume(1, createHits(null)), '1 hit');
+    assert.strictEqual(formatVolume(0, createHits(24)), 'never fired');
+  });
+
+  test('Should format counts compactly', () => {
+    assert.strictEqual(formatCount(999), '999');
+    assert.strictEqual(formatCount(1000), '1k');
+    assert.strictEqual(formatCount(123456), '123k');
+    assert.strictEqual(formatCount(9999999), '10M');
+    assert.strictEqual(formatCount(0.25), '0.3');
+    assert.strictEqual(formatCount(0.01), '<0.1');
+  });
+
+  test('Should place statements on a logarithmic volume scale', () => {
+    assert.strictEqual(getVolumeLevel(0, 10000), 0);
+    assert.strictEqual(getVolumeLevel(1, 10000), 1);
+    assert.strictEqual(getVolumeLevel(100, 10000), 3);
+    assert.strictEqual(getVolumeLevel(10000, 10000), 5);
+  });
+});